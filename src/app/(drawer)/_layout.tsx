@@ -74,6 +74,36 @@ const DrawerLayout = () => {
           ),
         }}
       />
+      <Drawer.Screen
+        name="inbox"
+        options={{
+          headerTitle: 'Uncategorized Inbox',
+          drawerLabel: 'Inbox',
+          drawerIcon: ({ size, color }) => (
+            <Ionicons name="file-tray-outline" size={size} color={color} />
+          ),
+        }}
+      />
+      <Drawer.Screen
+        name="rule-conflicts"
+        options={{
+          headerTitle: 'Rule Conflicts',
+          drawerLabel: 'Rule Conflicts',
+          drawerIcon: ({ size, color }) => (
+            <Ionicons name="git-compare-outline" size={size} color={color} />
+          ),
+        }}
+      />
+      <Drawer.Screen
+        name="settings"
+        options={{
+          headerTitle: 'Settings',
+          drawerLabel: 'Settings',
+          drawerIcon: ({ size, color }) => (
+            <Ionicons name="settings-outline" size={size} color={color} />
+          ),
+        }}
+      />
       <Drawer.Screen
         name="(tabs)"
         options={{
@@ -1,11 +1,20 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import { View } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
 import { CategoriesManagement } from '@/components/CategoriesManagement';
 
 const CategoriesPage = () => {
+  const params = useLocalSearchParams<{ editCategoryId?: string }>();
+
+  // Clear the request so returning to this screen doesn't open the form again
+  const clearEditRequest = useCallback(() => router.setParams({ editCategoryId: undefined }), []);
+
   return (
     <View className="flex-1 bg-white">
-      <CategoriesManagement />
+      <CategoriesManagement
+        editCategoryId={params.editCategoryId}
+        onEditCategoryOpened={clearEditRequest}
+      />
     </View>
   );
 };
@@ -1,6 +1,8 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { View, Text, SectionList, RefreshControl, Alert, ActivityIndicator } from 'react-native';
 import { EventTile } from '@/components/EventTile';
+import CategoryExplanationSheet from '@/components/CategoryExplanationSheet';
+import EventDetailSheet from '@/components/EventDetailSheet';
 import {
   EventsService,
   type EventWithCategory,
@@ -8,6 +10,9 @@ import {
   type EventCursor,
 } from '@/services/events/EventsService';
 import { useDrizzle } from '@/db/SQLiteProvider';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { toDateKey } from '@/services/calendar/timezone';
+import { onEventsChanged } from '@/services/events/eventChanges';
 
 interface DateSection {
   date: string;
@@ -18,6 +23,7 @@ interface DateSection {
 export default function EventsScreen() {
   const { drizzle: drizzleDB } = useDrizzle();
   const [eventsService] = useState(() => new EventsService(drizzleDB));
+  const timeZone = usePrimaryTimezone();
 
   const [events, _setEvents] = useState<EventWithCategory[]>([]);
   const [sections, setSections] = useState<DateSection[]>([]);
@@ -32,13 +38,15 @@ export default function EventsScreen() {
   const [futureCursor, setFutureCursor] = useState<EventCursor | undefined>();
   const [pastCursor, setPastCursor] = useState<EventCursor | undefined>();
   const [todaySectionIndex, setTodaySectionIndex] = useState<number>(0);
+  const [explainedEvent, setExplainedEvent] = useState<EventWithCategory | null>(null);
+  const [detailEvent, setDetailEvent] = useState<EventWithCategory | null>(null);
 
   const isInitialLoad = useRef(true);
   const sectionListRef = useRef<SectionList<EventWithCategory, DateSection>>(null);
 
   const createSectionsFromEvents = useCallback(
     (eventsList: EventWithCategory[]): { sections: DateSection[]; todaySectionIndex: number } => {
-      const groupedEvents = eventsService.groupEventsByDate(eventsList);
+      const groupedEvents = eventsService.groupEventsByDate(eventsList, timeZone);
       const sortedDates = Object.keys(groupedEvents).sort((a, b) => a.localeCompare(b)); // Chronological order
 
       const sections = sortedDates
@@ -50,19 +58,19 @@ export default function EventsScreen() {
           }
           return {
             date,
-            title: eventsService.formatDateHeader(date),
+            title: eventsService.formatDateHeader(date, timeZone),
             data: events,
           };
         })
         .filter((section): section is DateSection => section !== null);
 
       // Find today's section index for initial positioning
-      const today = new Date().toISOString().split('T')[0];
+      const today = toDateKey(new Date(), timeZone);
       const todaySectionIndex = sections.findIndex((section) => section.date === today);
 
       return { sections, todaySectionIndex: Math.max(0, todaySectionIndex) };
     },
-    [eventsService]
+    [eventsService, timeZone]
   );
 
   const setEventsDeduplicated = useCallback(
@@ -197,14 +205,37 @@ export default function EventsScreen() {
   }, [loadMoreEvents]);
 
   const handleEventPress = useCallback((event: EventWithCategory) => {
-    // TODO: Navigate to event details or show event actions
-    console.log('Event pressed:', event.title);
+    setDetailEvent(event);
   }, []);
 
   useEffect(() => {
     loadInitialEvents();
   }, [loadInitialEvents]);
 
+  // Swap in fresh copies of loaded events changed elsewhere, e.g. assigned a category
+  const eventsRef = useRef(events);
+  eventsRef.current = events;
+  useEffect(
+    () =>
+      onEventsChanged(async (eventIds) => {
+        const changedIds = new Set(eventIds);
+        const loadedIds = eventsRef.current
+          .filter((event) => changedIds.has(event.id))
+          .map((event) => event.id);
+        if (loadedIds.length === 0) return;
+
+        try {
+          const fresh = new Map(
+            (await eventsService.getEventsByIds(loadedIds)).map((event) => [event.id, event])
+          );
+          setEventsDeduplicated(eventsRef.current.map((event) => fresh.get(event.id) ?? event));
+        } catch (error) {
+          console.error('Failed to refresh changed events:', error);
+        }
+      }),
+    [eventsService, setEventsDeduplicated]
+  );
+
   // Scroll to today after initial load
   useEffect(() => {
     if (
@@ -242,9 +273,14 @@ export default function EventsScreen() {
 
   const renderItem = useCallback(
     ({ item }: { item: EventWithCategory }) => (
-      <EventTile event={item} onPress={handleEventPress} />
+      <EventTile
+        event={item}
+        timeZone={timeZone}
+        onPress={handleEventPress}
+        onExplainCategory={setExplainedEvent}
+      />
     ),
-    [handleEventPress]
+    [handleEventPress, timeZone]
   );
 
   const renderFooter = useCallback(() => {
@@ -376,6 +412,12 @@ export default function EventsScreen() {
           }, 100);
         }}
       />
+      <CategoryExplanationSheet event={explainedEvent} onClose={() => setExplainedEvent(null)} />
+      <EventDetailSheet
+        event={detailEvent}
+        timeZone={timeZone}
+        onClose={() => setDetailEvent(null)}
+      />
     </View>
   );
 }
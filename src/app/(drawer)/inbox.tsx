@@ -0,0 +1,364 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import CategoryPicker from '@/components/CategoryPicker';
+import type { Category } from '@/db/schema';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { addToDate } from '@/services/calendar/timezone';
+import type { ManualAssignmentScope } from '@/services/events/EventCategorizationService';
+import {
+  UncategorizedInboxService,
+  type InboxGroup,
+} from '@/services/events/UncategorizedInboxService';
+import { CategoryReportService } from '@/services/reporting/CategoryReportService';
+import { describeRuleNode, type RuleNode } from '@/types/category_rule';
+
+const periods = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+] as const;
+
+// What the category picker was opened for
+type PickerAction = 'assign' | 'assign-and-rule';
+
+const formatMinutes = (minutes: number) =>
+  CategoryReportService.formatDuration(Math.round(minutes));
+
+function InboxGroupRow({
+  group,
+  selected,
+  timeZone,
+  onToggle,
+  onAcceptSuggestion,
+}: {
+  group: InboxGroup;
+  selected: boolean;
+  timeZone: string;
+  onToggle: (group: InboxGroup) => void;
+  onAcceptSuggestion: (group: InboxGroup, category: Category) => void;
+}) {
+  const latest = group.events[0];
+
+  return (
+    <TouchableOpacity
+      onPress={() => onToggle(group)}
+      activeOpacity={0.7}
+      className={`mx-4 mb-2 flex-row rounded-lg border bg-white p-3 ${
+        selected ? 'border-blue-500' : 'border-gray-200'
+      }`}>
+      <MaterialIcons
+        name={selected ? 'check-box' : 'check-box-outline-blank'}
+        size={22}
+        color={selected ? '#3B82F6' : '#9CA3AF'}
+      />
+      <View className="ml-3 flex-1">
+        <Text className="text-base font-medium text-gray-900" numberOfLines={2}>
+          {group.title || 'Untitled'}
+        </Text>
+        <Text className="mt-1 text-sm text-gray-600">
+          {group.events.length} event{group.events.length === 1 ? '' : 's'} ·{' '}
+          {formatMinutes(group.totalMinutes)}
+          {latest.start &&
+            ` · last ${latest.start.toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+              timeZone,
+            })}`}
+        </Text>
+        {group.suggestion && (
+          <View className="mt-2 flex-row items-center">
+            <View
+              className="mr-2 h-3 w-3 rounded-full"
+              style={{ backgroundColor: group.suggestion.category.color }}
+            />
+            <Text className="flex-1 text-xs text-gray-600" numberOfLines={1}>
+              {group.suggestion.category.name} ({Math.round(group.suggestion.confidence * 100)}%)
+            </Text>
+            <TouchableOpacity
+              onPress={() => onAcceptSuggestion(group, group.suggestion!.category)}
+              className="rounded-full bg-blue-50 px-3 py-1">
+              <Text className="text-xs font-medium text-blue-600">Assign</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+export default function InboxScreen() {
+  const { drizzle } = useDrizzle();
+  const timeZone = usePrimaryTimezone();
+  const [inboxService] = useState(() => new UncategorizedInboxService(drizzle));
+  const [days, setDays] = useState<number>(30);
+  const [groups, setGroups] = useState<InboxGroup[] | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [pickerAction, setPickerAction] = useState<PickerAction | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const loadGroups = useCallback(async () => {
+    try {
+      setLoading(true);
+      const end = new Date();
+      const start = addToDate(end, { days: -days }, timeZone);
+      const result = await inboxService.getGroups({ start, end });
+      setGroups(result);
+      // Drop selections of groups that were assigned in the meantime
+      setSelectedKeys(
+        (current) =>
+          new Set(result.filter((group) => current.has(group.key)).map((group) => group.key))
+      );
+    } catch (error) {
+      console.error('Failed to load uncategorized events:', error);
+      Alert.alert('Error', 'Failed to load uncategorized events');
+    } finally {
+      setLoading(false);
+    }
+  }, [inboxService, days, timeZone]);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  const selectedGroups = useMemo(
+    () => (groups ?? []).filter((group) => selectedKeys.has(group.key)),
+    [groups, selectedKeys]
+  );
+  const totals = useMemo(
+    () =>
+      (groups ?? []).reduce(
+        (sum, group) => ({
+          events: sum.events + group.events.length,
+          minutes: sum.minutes + group.totalMinutes,
+        }),
+        { events: 0, minutes: 0 }
+      ),
+    [groups]
+  );
+
+  const toggleGroup = (group: InboxGroup) => {
+    setSelectedKeys((current) => {
+      const next = new Set(current);
+      if (next.has(group.key)) {
+        next.delete(group.key);
+      } else {
+        next.add(group.key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedKeys(
+      selectedKeys.size === groups?.length
+        ? new Set()
+        : new Set((groups ?? []).map((group) => group.key))
+    );
+  };
+
+  const assign = (
+    targetGroups: InboxGroup[],
+    category: Category,
+    withRules: boolean,
+    rule?: RuleNode
+  ) => {
+    if (!inboxService.hasRecurringEvents(targetGroups)) {
+      assignWithScope(targetGroups, category, withRules, rule, 'instance');
+      return;
+    }
+
+    Alert.alert(
+      'Recurring Events',
+      `Assign ${category.name} to only these events or every event of their series?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'These events',
+          onPress: () => assignWithScope(targetGroups, category, withRules, rule, 'instance'),
+        },
+        {
+          text: 'All events',
+          onPress: () => assignWithScope(targetGroups, category, withRules, rule, 'series'),
+        },
+      ]
+    );
+  };
+
+  const assignWithScope = async (
+    targetGroups: InboxGroup[],
+    category: Category,
+    withRules: boolean,
+    rule: RuleNode | undefined,
+    scope: ManualAssignmentScope
+  ) => {
+    setIsAssigning(true);
+    try {
+      if (withRules) {
+        await inboxService.assignGroupsAndCreateRules(targetGroups, category.id, rule, scope);
+      } else {
+        await inboxService.assignGroups(targetGroups, category.id, scope);
+      }
+      setSelectedKeys(new Set());
+      await loadGroups();
+    } catch (error) {
+      console.error('Failed to assign category:', error);
+      Alert.alert('Error', 'Failed to assign the category');
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handlePick = (category: Category) => {
+    const action = pickerAction;
+    setPickerAction(null);
+    if (action === 'assign') {
+      assign(selectedGroups, category, false);
+    } else if (action === 'assign-and-rule') {
+      const rules = selectedGroups
+        .map((group) => `• ${describeRuleNode(inboxService.getGroupRule(group))}`)
+        .join('\n');
+      Alert.alert(
+        'Assign and Create Rules',
+        `Assign ${category.name} and add these rules to it, so future events match:\n\n${rules}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Assign', onPress: () => assign(selectedGroups, category, true) },
+        ]
+      );
+    }
+  };
+
+  const handleAcceptSuggestion = (group: InboxGroup, category: Category) => {
+    const rule = group.suggestion?.rule;
+    Alert.alert(
+      'Assign Category',
+      `Assign ${category.name} to "${group.title}"?` +
+        (rule ? `\n\nSuggested rule: ${describeRuleNode(rule)}` : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Assign', onPress: () => assign([group], category, false) },
+        ...(rule
+          ? [{ text: 'Assign + rule', onPress: () => assign([group], category, true, rule) }]
+          : []),
+      ]
+    );
+  };
+
+  const header = (
+    <View className="p-4">
+      <View className="mb-4 flex-row">
+        {periods.map((period) => (
+          <TouchableOpacity
+            key={period.days}
+            onPress={() => setDays(period.days)}
+            className={`mr-2 rounded-full px-3 py-1 ${
+              days === period.days ? 'bg-blue-500' : 'border border-gray-300 bg-white'
+            }`}>
+            <Text className={`text-sm ${days === period.days ? 'text-white' : 'text-gray-700'}`}>
+              Last {period.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {groups && groups.length > 0 && (
+        <View className="flex-row items-center justify-between">
+          <Text className="flex-1 text-gray-600">
+            {totals.events} uncategorized events, {formatMinutes(totals.minutes)}
+          </Text>
+          <TouchableOpacity onPress={toggleAll} className="p-1">
+            <Text className="text-sm font-medium text-blue-500">
+              {selectedKeys.size === groups.length ? 'Select none' : 'Select all'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  if (loading && !groups) {
+    return (
+      <View className="flex-1 items-center justify-center bg-gray-50">
+        <ActivityIndicator size="large" color="#3B82F6" />
+        <Text className="mt-4 text-gray-600">Loading uncategorized events...</Text>
+      </View>
+    );
+  }
+
+  const selectedEventCount = selectedGroups.reduce((sum, group) => sum + group.events.length, 0);
+
+  return (
+    <View className="flex-1 bg-gray-50">
+      <FlatList
+        className="flex-1"
+        data={groups ?? []}
+        keyExtractor={(group) => group.key}
+        renderItem={({ item }) => (
+          <InboxGroupRow
+            group={item}
+            selected={selectedKeys.has(item.key)}
+            timeZone={timeZone}
+            onToggle={toggleGroup}
+            onAcceptSuggestion={handleAcceptSuggestion}
+          />
+        )}
+        ListHeaderComponent={header}
+        ListEmptyComponent={
+          <View className="items-center p-8">
+            <MaterialIcons name="inbox" size={48} color="#9CA3AF" />
+            <Text className="mt-4 text-center text-gray-600">
+              Every event in this period has a category.
+            </Text>
+          </View>
+        }
+        refreshControl={
+          <RefreshControl refreshing={loading} onRefresh={loadGroups} colors={['#3B82F6']} />
+        }
+      />
+
+      {selectedGroups.length > 0 && (
+        <View className="border-t border-gray-200 bg-white p-4">
+          <Text className="mb-2 text-sm text-gray-600">
+            {selectedEventCount} event{selectedEventCount === 1 ? '' : 's'} selected
+          </Text>
+          <View className="flex-row">
+            <TouchableOpacity
+              onPress={() => setPickerAction('assign')}
+              disabled={isAssigning}
+              className={`mr-2 flex-1 items-center rounded-lg py-3 ${
+                isAssigning ? 'bg-gray-300' : 'bg-blue-500'
+              }`}>
+              <Text className="font-medium text-white">
+                {isAssigning ? 'Assigning...' : 'Assign'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setPickerAction('assign-and-rule')}
+              disabled={isAssigning}
+              className="flex-1 items-center rounded-lg border border-blue-500 py-3">
+              <Text className="font-medium text-blue-500">Assign + create rule</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <CategoryPicker
+        visible={pickerAction !== null}
+        title={pickerAction === 'assign-and-rule' ? 'Assign and Create Rule' : 'Assign Category'}
+        onSelect={handlePick}
+        onClose={() => setPickerAction(null)}
+      />
+    </View>
+  );
+}
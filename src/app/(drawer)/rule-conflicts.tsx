@@ -0,0 +1,236 @@
+import { Ionicons, MaterialIcons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  RefreshControl,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { Category } from '@/db/schema';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { addToDate } from '@/services/calendar/timezone';
+import { CategoryService } from '@/services/category/CategoryService';
+import {
+  EventCategorizationService,
+  type CategorizationConflict,
+  type ConflictReport,
+} from '@/services/events/EventCategorizationService';
+import { describeRuleNode, isRuleGroup, normalizeCategoryRules } from '@/types/category_rule';
+
+const periods = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+] as const;
+
+const openCategory = (category: Category) => {
+  router.push({ pathname: '/categories', params: { editCategoryId: category.id } });
+};
+
+function ConflictCard({
+  conflict,
+  timeZone,
+  onRaisePriority,
+}: {
+  conflict: CategorizationConflict;
+  timeZone: string;
+  onRaisePriority: (category: Category, above: Category) => void;
+}) {
+  const { event, matches, winner, reason } = conflict;
+  const winnerPriority = winner.priority || 0;
+
+  return (
+    <View className="mx-4 mb-3 rounded-lg border border-gray-200 bg-white p-3">
+      <View className="mb-1 flex-row items-center justify-between">
+        <Text className="mr-2 flex-1 text-base font-medium text-gray-900" numberOfLines={1}>
+          {event.title}
+        </Text>
+        <Text className="text-xs text-gray-500">
+          {event.start?.toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            timeZone,
+          })}
+        </Text>
+      </View>
+      <Text className="mb-2 text-sm text-gray-600">
+        {reason === 'tie'
+          ? `Tied at priority ${winnerPriority}, ${winner.name} wins by category order`
+          : `${winner.name} wins with the highest priority (${winnerPriority})`}
+      </Text>
+
+      {matches.map(({ category, ruleIndexes }) => {
+        const rules = normalizeCategoryRules(category.rules);
+        const isWinner = category.id === winner.id;
+        return (
+          <View key={category.id} className="border-t border-gray-100 py-2">
+            <View className="flex-row items-center">
+              <View
+                className="mr-2 h-3 w-3 rounded-full"
+                style={{ backgroundColor: category.color }}
+              />
+              <Text className={`flex-1 text-sm ${isWinner ? 'font-semibold' : ''} text-gray-900`}>
+                {category.name} · priority {category.priority || 0}
+              </Text>
+              {isWinner ? (
+                <Ionicons name="trophy" size={16} color="#F59E0B" />
+              ) : (
+                <TouchableOpacity onPress={() => onRaisePriority(category, winner)} className="p-1">
+                  <Text className="text-xs font-medium text-blue-500">Raise priority</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => openCategory(category)} className="ml-2 p-1">
+                <Ionicons name="pencil" size={16} color="#6B7280" />
+              </TouchableOpacity>
+            </View>
+            {ruleIndexes.map((index) => (
+              <Text key={index} className="ml-5 mt-1 text-xs text-gray-500" numberOfLines={2}>
+                {isRuleGroup(rules[index]) ? 'Group' : 'Rule'} {index + 1}:{' '}
+                {describeRuleNode(rules[index])}
+              </Text>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+export default function RuleConflictsScreen() {
+  const { drizzle } = useDrizzle();
+  const timeZone = usePrimaryTimezone();
+  const [categorizationService] = useState(() => new EventCategorizationService(drizzle));
+  const [categoryService] = useState(() => new CategoryService(drizzle));
+  const [days, setDays] = useState<number>(90);
+  const [report, setReport] = useState<ConflictReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const end = new Date();
+      const start = addToDate(end, { days: -days }, timeZone);
+      setReport(await categorizationService.findConflicts({ start, end }));
+    } catch (error) {
+      console.error('Failed to analyze category conflicts:', error);
+      Alert.alert('Error', 'Failed to analyze category conflicts');
+    } finally {
+      setLoading(false);
+    }
+  }, [categorizationService, days, timeZone]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleRaisePriority = (category: Category, above: Category) => {
+    const priority = (above.priority || 0) + 1;
+    Alert.alert(
+      'Raise Priority',
+      `Set the priority of "${category.name}" to ${priority} so it wins over "${above.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Raise',
+          onPress: async () => {
+            try {
+              await categoryService.updateCategory(category.id, { priority });
+              await categorizationService.recategorizeEventsForCategory(category.id);
+              await loadReport();
+            } catch (error) {
+              console.error('Failed to update priority:', error);
+              Alert.alert('Error', 'Failed to update the priority');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const header = (
+    <View className="p-4">
+      <View className="mb-4 flex-row">
+        {periods.map((period) => (
+          <TouchableOpacity
+            key={period.days}
+            onPress={() => setDays(period.days)}
+            className={`mr-2 rounded-full px-3 py-1 ${
+              days === period.days ? 'bg-blue-500' : 'border border-gray-300 bg-white'
+            }`}>
+            <Text className={`text-sm ${days === period.days ? 'text-white' : 'text-gray-700'}`}>
+              Last {period.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {report && (
+        <>
+          <Text className="text-gray-600">
+            {report.conflicts.length} of {report.total} automatically categorized events matched
+            more than one category.
+          </Text>
+
+          {report.neverWinning.length > 0 && (
+            <View className="mt-4 rounded-lg border border-amber-200 bg-amber-50 p-3">
+              <Text className="mb-2 font-medium text-amber-800">Rules that never win</Text>
+              {report.neverWinning.map(({ category, matchCount }) => (
+                <TouchableOpacity
+                  key={category.id}
+                  onPress={() => openCategory(category)}
+                  className="flex-row items-center py-1">
+                  <View
+                    className="mr-2 h-3 w-3 rounded-full"
+                    style={{ backgroundColor: category.color }}
+                  />
+                  <Text className="flex-1 text-sm text-gray-800">{category.name}</Text>
+                  <Text className="text-xs text-gray-500">
+                    {matchCount > 0 ? `matched ${matchCount}, always outranked` : 'never matched'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+
+  if (loading && !report) {
+    return (
+      <View className="flex-1 items-center justify-center bg-gray-50">
+        <ActivityIndicator size="large" color="#3B82F6" />
+        <Text className="mt-4 text-gray-600">Checking rules...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      className="flex-1 bg-gray-50"
+      data={report?.conflicts ?? []}
+      keyExtractor={(conflict) => conflict.event.id}
+      renderItem={({ item }) => (
+        <ConflictCard conflict={item} timeZone={timeZone} onRaisePriority={handleRaisePriority} />
+      )}
+      ListHeaderComponent={header}
+      ListEmptyComponent={
+        <View className="items-center p-8">
+          <MaterialIcons name="check-circle-outline" size={48} color="#9CA3AF" />
+          <Text className="mt-4 text-center text-gray-600">
+            No event matched more than one category in this period.
+          </Text>
+        </View>
+      }
+      refreshControl={
+        <RefreshControl refreshing={loading} onRefresh={loadReport} colors={['#3B82F6']} />
+      }
+    />
+  );
+}
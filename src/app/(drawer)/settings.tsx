@@ -0,0 +1,358 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  Switch,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { useCalendarSync } from '@/components/CalendarSyncProvider';
+import { useSettings } from '@/components/SettingsProvider';
+import { CalendarService } from '@/services/calendar/CalendarService';
+import { getDeviceTimeZone, isValidTimeZone } from '@/services/calendar/timezone';
+import { EventDurationService } from '@/services/events/EventDurationService';
+import {
+  OVERLAP_STRATEGIES,
+  OVERLAP_STRATEGY_DESCRIPTIONS,
+  OVERLAP_STRATEGY_LABELS,
+  WEEKDAY_NAMES,
+  type OverlapStrategy,
+  type WorkingDay,
+} from '@/types/settings';
+
+interface TimeZoneOption {
+  // null follows the primary calendar
+  value: string | null;
+  label: string;
+  description: string;
+}
+
+function OptionRow({
+  option,
+  selected,
+  onPress,
+}: {
+  option: Pick<TimeZoneOption, 'label' | 'description'>;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      className="flex-row items-center border-b border-gray-100 px-4 py-3"
+      activeOpacity={0.7}>
+      <MaterialIcons
+        name={selected ? 'radio-button-checked' : 'radio-button-unchecked'}
+        size={20}
+        color={selected ? '#3B82F6' : '#9CA3AF'}
+      />
+      <View className="ml-3 flex-1">
+        <Text className="text-base text-gray-900">{option.label}</Text>
+        <Text className="text-sm text-gray-500">{option.description}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+function WorkingDayRow({
+  name,
+  day,
+  onChange,
+}: {
+  name: string;
+  // null for a day off
+  day: WorkingDay | null;
+  onChange: (day: WorkingDay | null) => void;
+}) {
+  // Edited text, saved when editing ends
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    if (!day || (from === null && to === null)) return;
+
+    onChange({ from: from?.trim() ?? day.from, to: to?.trim() ?? day.to });
+    setFrom(null);
+    setTo(null);
+  };
+
+  return (
+    <View className="flex-row items-center border-b border-gray-100 px-4 py-2">
+      <Switch
+        value={!!day}
+        onValueChange={(enabled) => onChange(enabled ? { from: '09:00', to: '17:00' } : null)}
+      />
+      <Text className="ml-3 flex-1 text-base text-gray-900">{name}</Text>
+      {day ? (
+        <View className="flex-row items-center">
+          <TextInput
+            value={from ?? day.from}
+            onChangeText={setFrom}
+            onEndEditing={handleSubmit}
+            placeholder="09:00"
+            keyboardType="numbers-and-punctuation"
+            className="w-16 rounded-lg border border-gray-300 px-2 py-1 text-center text-base"
+          />
+          <Text className="mx-2 text-gray-500">–</Text>
+          <TextInput
+            value={to ?? day.to}
+            onChangeText={setTo}
+            onEndEditing={handleSubmit}
+            placeholder="17:00"
+            keyboardType="numbers-and-punctuation"
+            className="w-16 rounded-lg border border-gray-300 px-2 py-1 text-center text-base"
+          />
+        </View>
+      ) : (
+        <Text className="text-sm text-gray-500">Day off</Text>
+      )}
+    </View>
+  );
+}
+
+export default function SettingsScreen() {
+  const { drizzle } = useDrizzle();
+  const { primaryTimezone } = useCalendarSync();
+  const { settings, isLoaded, updateSetting } = useSettings();
+  const [calendarService] = useState(() => new CalendarService(drizzle));
+  const [calendarTimeZones, setCalendarTimeZones] = useState<string[]>([]);
+  const [customTimeZone, setCustomTimeZone] = useState('');
+  const [allDayHours, setAllDayHours] = useState<string | null>(null);
+  const [durationService] = useState(() => new EventDurationService(drizzle));
+  const [recalculating, setRecalculating] = useState<OverlapStrategy | null>(null);
+
+  useEffect(() => {
+    calendarService
+      .getCalendars()
+      .then((calendarList) =>
+        setCalendarTimeZones([...new Set(calendarList.map((calendar) => calendar.timeZone))])
+      )
+      .catch((error) => console.error('Failed to load calendars:', error));
+  }, [calendarService]);
+
+  const options = useMemo<TimeZoneOption[]>(() => {
+    const deviceTimeZone = getDeviceTimeZone();
+    const zones = [deviceTimeZone, ...calendarTimeZones.filter((tz) => tz !== deviceTimeZone)];
+
+    return [
+      {
+        value: null,
+        label: 'Primary calendar',
+        description: `Follows the zone most calendars use (${primaryTimezone})`,
+      },
+      ...zones.map((tz) => ({
+        value: tz,
+        label: tz,
+        description: tz === deviceTimeZone ? 'This device' : 'Used by a calendar',
+      })),
+    ];
+  }, [calendarTimeZones, primaryTimezone]);
+
+  const selectTimeZone = async (value: string | null) => {
+    try {
+      await updateSetting('reportingTimeZone', value);
+    } catch (error) {
+      console.error('Failed to save reporting time zone:', error);
+      Alert.alert('Error', 'Failed to save the time zone');
+    }
+  };
+
+  const handleCustomSubmit = async () => {
+    const value = customTimeZone.trim();
+    if (!isValidTimeZone(value)) {
+      Alert.alert('Unknown time zone', 'Use an IANA name such as Europe/Berlin.');
+      return;
+    }
+    await selectTimeZone(value);
+    setCustomTimeZone('');
+  };
+
+  const handleAllDayHoursSubmit = async () => {
+    if (allDayHours === null) return;
+
+    const hours = Number(allDayHours.replace(',', '.'));
+    if (!allDayHours.trim() || !Number.isFinite(hours) || hours < 0 || hours > 24) {
+      Alert.alert('Invalid hours', 'Enter a number of hours between 0 and 24.');
+      return;
+    }
+    try {
+      await updateSetting('allDayHoursPerWeekday', hours);
+      setAllDayHours(null);
+    } catch (error) {
+      console.error('Failed to save all-day hours:', error);
+      Alert.alert('Error', 'Failed to save the hours per working day');
+    }
+  };
+
+  const selectOverlapStrategy = async (strategy: OverlapStrategy) => {
+    if (strategy === settings.overlapStrategy || recalculating) return;
+
+    setRecalculating(strategy);
+    try {
+      // Saved once every duration follows it, so reports never mix strategies
+      await durationService.recalculateAllDurations(strategy);
+      await updateSetting('overlapStrategy', strategy);
+    } catch (error) {
+      console.error('Failed to change the overlap strategy:', error);
+      Alert.alert('Error', 'Failed to recalculate event durations');
+    } finally {
+      setRecalculating(null);
+    }
+  };
+
+  const updateWorkingDay = async (weekday: number, day: WorkingDay | null) => {
+    const workingHours = settings.workingHours.map((current, index) =>
+      index === weekday ? day : current
+    );
+    try {
+      await updateSetting('workingHours', workingHours);
+    } catch (error) {
+      console.error('Failed to save working hours:', error);
+      Alert.alert('Invalid working hours', 'Enter times as HH:MM, with the start before the end.');
+    }
+  };
+
+  if (!isLoaded) {
+    return (
+      <View className="flex-1 items-center justify-center bg-gray-50">
+        <MaterialIcons name="sync" size={48} color="#9CA3AF" />
+        <Text className="mt-4 text-gray-600">Loading settings...</Text>
+      </View>
+    );
+  }
+
+  const selected = settings.reportingTimeZone;
+  const isCustom = selected !== null && !options.some((option) => option.value === selected);
+
+  return (
+    <ScrollView className="flex-1 bg-gray-50" keyboardShouldPersistTaps="handled">
+      <View className="p-4">
+        <Text className="mb-2 text-2xl font-bold text-gray-900">Reporting Time Zone</Text>
+        <Text className="mb-6 text-gray-600">
+          Days, weeks and months in statistics, the events list and the calendar view start at
+          midnight in this zone.
+        </Text>
+
+        <View className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+          {options.map((option) => (
+            <OptionRow
+              key={option.value ?? 'primary'}
+              option={option}
+              selected={option.value === selected}
+              onPress={() => selectTimeZone(option.value)}
+            />
+          ))}
+          {isCustom && (
+            <OptionRow
+              option={{ label: selected, description: 'Custom' }}
+              selected
+              onPress={() => {}}
+            />
+          )}
+        </View>
+
+        <Text className="mb-2 mt-6 text-sm font-medium text-gray-700">Other time zone</Text>
+        <View className="flex-row items-center">
+          <TextInput
+            value={customTimeZone}
+            onChangeText={setCustomTimeZone}
+            placeholder="e.g. America/New_York"
+            autoCapitalize="none"
+            autoCorrect={false}
+            onSubmitEditing={handleCustomSubmit}
+            className="flex-1 rounded-lg border border-gray-300 bg-white px-3 py-2 text-base"
+          />
+          <TouchableOpacity
+            onPress={handleCustomSubmit}
+            disabled={!customTimeZone.trim()}
+            className={`ml-2 rounded-lg px-4 py-2 ${
+              customTimeZone.trim() ? 'bg-blue-500' : 'bg-gray-300'
+            }`}>
+            <Text className="font-medium text-white">Use</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text className="mb-2 mt-10 text-2xl font-bold text-gray-900">Reports</Text>
+        <Text className="mb-6 text-gray-600">
+          All-day events such as vacations or conferences have no hours of their own. When counted,
+          they add an estimated time for every weekday they cover.
+        </Text>
+
+        <View className="rounded-lg border border-gray-200 bg-white">
+          <View className="flex-row items-center border-b border-gray-100 px-4 py-3">
+            <Text className="flex-1 text-base text-gray-900">Count all-day events</Text>
+            <Switch
+              value={settings.includeAllDayEvents}
+              onValueChange={(value) => updateSetting('includeAllDayEvents', value)}
+            />
+          </View>
+          <View className="flex-row items-center px-4 py-3">
+            <Text className="flex-1 text-base text-gray-900">Hours per working day</Text>
+            <TextInput
+              value={allDayHours ?? String(settings.allDayHoursPerWeekday)}
+              onChangeText={setAllDayHours}
+              onEndEditing={handleAllDayHoursSubmit}
+              keyboardType="decimal-pad"
+              className="w-20 rounded-lg border border-gray-300 px-3 py-1 text-right text-base"
+            />
+          </View>
+        </View>
+
+        <Text className="mb-2 mt-10 text-2xl font-bold text-gray-900">Overlapping Events</Text>
+        <Text className="mb-6 text-gray-600">
+          How time shared by overlapping events counts in reports. Events marked as background, such
+          as working hours, only get the time no other event takes.
+        </Text>
+
+        <View className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+          {OVERLAP_STRATEGIES.map((strategy) => (
+            <OptionRow
+              key={strategy}
+              option={{
+                label: OVERLAP_STRATEGY_LABELS[strategy],
+                description: OVERLAP_STRATEGY_DESCRIPTIONS[strategy],
+              }}
+              selected={(recalculating ?? settings.overlapStrategy) === strategy}
+              onPress={() => selectOverlapStrategy(strategy)}
+            />
+          ))}
+        </View>
+        {recalculating && (
+          <View className="mt-3 flex-row items-center">
+            <ActivityIndicator size="small" color="#3B82F6" />
+            <Text className="ml-2 text-sm text-gray-600">Recalculating event durations...</Text>
+          </View>
+        )}
+
+        <Text className="mb-2 mt-10 text-2xl font-bold text-gray-900">Unaccounted Time</Text>
+        <Text className="mb-6 text-gray-600">
+          Working hours no event covers show up in reports as Unaccounted, so you can see how much
+          of your day goes untracked. Times are in the reporting time zone.
+        </Text>
+
+        <View className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+          <View className="flex-row items-center border-b border-gray-100 px-4 py-3">
+            <Text className="flex-1 text-base text-gray-900">Show unaccounted time</Text>
+            <Switch
+              value={settings.fillUnaccountedTime}
+              onValueChange={(value) => updateSetting('fillUnaccountedTime', value)}
+            />
+          </View>
+          {WEEKDAY_NAMES.map((name, weekday) => (
+            <WorkingDayRow
+              key={name}
+              name={name}
+              day={settings.workingHours[weekday]}
+              onChange={(day) => updateWorkingDay(weekday, day)}
+            />
+          ))}
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
@@ -1,9 +1,18 @@
 import { router } from 'expo-router';
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Alert, ScrollView, Text, View } from 'react-native';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 
 import { CategoryList } from '@/components/stats/CategoryList';
 import { CategoryPieChart } from '@/components/stats/CategoryPieChart';
+import { CategoryTrendChart } from '@/components/stats/CategoryTrendChart';
 import { EventsList } from '@/components/stats/EventsList';
 import {
   StatsPageParams,
@@ -11,81 +20,98 @@ import {
   StatsPageParamsType,
 } from '@/components/stats/StatsDrawerHeader';
 import { TimeRangeSelector } from '@/components/stats/TimeRangeSelector';
+import { useSettings } from '@/components/SettingsProvider';
 import { useDrizzle } from '@/db/SQLiteProvider';
 import { useLocalZodSearchParams } from '@/hooks/useLocalZodSearchParams';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { addToDate, getPeriodRange } from '@/services/calendar/timezone';
 import {
   CategoryReportService,
+  type CategoryDelta,
   type CategoryReport,
+  type CategoryTrend,
   type EventWithCategory,
+  type ReportOptions,
   type TimeRange,
+  type TrendBucket,
+  type TrendPeriodType,
 } from '@/services/reporting/CategoryReportService';
+import { OVERLAP_STRATEGY_LABELS, type OverlapStrategy } from '@/types/settings';
+
+// Number of periods a trend goes back, the current one included
+const TREND_PERIODS: { type: TrendPeriodType; label: string; count: number }[] = [
+  { type: 'daily', label: 'Days', count: 14 },
+  { type: 'weekly', label: 'Weeks', count: 12 },
+  { type: 'monthly', label: 'Months', count: 12 },
+];
 
 export default function StatsScreen() {
   const { drizzle: drizzleDB } = useDrizzle();
   const [reportService] = useState(() => new CategoryReportService(drizzleDB));
 
   const { params } = useLocalZodSearchParams(StatsPageParams);
-  // const { primaryTimezone } = useCalendarSync();
+  const timeZone = usePrimaryTimezone();
+  const { settings, updateSetting } = useSettings();
   const [categoryReports, setCategoryReports] = useState<CategoryReport[]>([]);
   const [events, setEvents] = useState<EventWithCategory[]>([]);
+  // Change from the previous range, only while comparing
+  const [deltas, setDeltas] = useState<Record<string, CategoryDelta> | undefined>();
+  const [trend, setTrend] = useState<CategoryTrend | null>(null);
+  // Strategy of the durations on screen, the setting may change before they are recalculated
+  const [overlapStrategy, setOverlapStrategy] = useState<OverlapStrategy | null>(null);
   const [loading, setLoading] = useState(true);
 
   const currentCategoryName = params?.categoryName;
-  const isShowingEvents = events.length > 0 && categoryReports.length === 0 && params?.categoryId;
+  const isShowingTrend = params?.view === 'trend';
+  const trendPeriod = params?.trendPeriod ?? 'weekly';
+  const isShowingEvents =
+    !isShowingTrend && events.length > 0 && categoryReports.length === 0 && params?.categoryId;
 
   // Compute current time range
   const timeRange = useMemo<TimeRange>(() => {
-    // TODO: Make use of Calendar Primary TimeZone. Right now, it uses Device Timezone.
     const referenceDate = params?.dateRangeRef || new Date();
-    switch (params?.dateRangeType || 'monthly') {
-      case 'daily':
-        const startOfDay = new Date(referenceDate);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(referenceDate);
-        endOfDay.setHours(23, 59, 59, 999);
-        return { start: startOfDay, end: endOfDay };
-
-      case 'weekly':
-        const startOfWeek = new Date(referenceDate);
-        const day = startOfWeek.getDay();
-        const diff = startOfWeek.getDate() - day + (day === 0 ? -6 : 1); // Monday
-        startOfWeek.setDate(diff);
-        startOfWeek.setHours(0, 0, 0, 0);
-
-        const endOfWeek = new Date(startOfWeek);
-        endOfWeek.setDate(endOfWeek.getDate() + 6);
-        endOfWeek.setHours(23, 59, 59, 999);
-
-        return { start: startOfWeek, end: endOfWeek };
-
-      case 'monthly':
-        const startOfMonth = new Date(referenceDate.getFullYear(), referenceDate.getMonth(), 1);
-        const endOfMonth = new Date(
-          referenceDate.getFullYear(),
-          referenceDate.getMonth() + 1,
-          0,
-          23,
-          59,
-          59,
-          999
-        );
-        return { start: startOfMonth, end: endOfMonth };
+    const dateRangeType = params?.dateRangeType || 'monthly';
 
-      case 'annually':
-        const startOfYear = new Date(referenceDate.getFullYear(), 0, 1);
-        const endOfYear = new Date(referenceDate.getFullYear(), 11, 31, 23, 59, 59, 999);
-        return { start: startOfYear, end: endOfYear };
+    if (dateRangeType === 'period') {
+      return {
+        start: new Date(params?.dateRangeCustomStart ?? new Date()),
+        end: new Date(params?.dateRangeCustomEnd ?? new Date()),
+      };
+    }
 
-      case 'period':
-        return {
-          start: new Date(params?.dateRangeCustomStart ?? new Date()),
-          end: new Date(params?.dateRangeCustomEnd ?? new Date()),
-        };
+    return getPeriodRange(dateRangeType, referenceDate, timeZone);
+  }, [params, timeZone]);
+
+  const previousRange = useMemo<TimeRange | null>(
+    () =>
+      params?.compare
+        ? CategoryReportService.getPreviousTimeRange(
+            timeRange,
+            params.dateRangeType || 'monthly',
+            timeZone,
+            // The current period only counts events up to now
+            new Date()
+          )
+        : null,
+    [params?.compare, params?.dateRangeType, timeRange, timeZone]
+  );
 
-      default:
-        return { start: new Date(), end: new Date() };
-    }
-  }, [params]);
+  const reportOptions = useMemo<ReportOptions>(
+    () => ({
+      includeAllDayEvents: settings.includeAllDayEvents,
+      allDayHoursPerWeekday: settings.allDayHoursPerWeekday,
+      timeZone,
+      fillUnaccountedTime: settings.fillUnaccountedTime,
+      workingHours: settings.workingHours,
+    }),
+    [
+      settings.includeAllDayEvents,
+      settings.allDayHoursPerWeekday,
+      timeZone,
+      settings.fillUnaccountedTime,
+      settings.workingHours,
+    ]
+  );
 
   const loadData = useCallback(async () => {
     try {
@@ -96,13 +122,41 @@ export default function StatsScreen() {
         end: timeRange.end.toISOString(),
       });
 
-      if (params?.categoryId) {
-        // Get category report
-        const report = await reportService.getCategoryReport(
-          params.categoryId,
-          timeRange,
-          params?.isDummyParent ? false : true
+      if (isShowingTrend) {
+        // Children of the category, or the root categories
+        const { count } = TREND_PERIODS.find((period) => period.type === trendPeriod)!;
+        setTrend(
+          await reportService.getCategoryTrend(
+            trendPeriod,
+            count,
+            reportOptions,
+            params?.categoryId
+          )
         );
+        setOverlapStrategy(await reportService.getOverlapStrategy());
+      } else if (params?.categoryId) {
+        // Get category report
+        const includeDescendants = params?.isDummyParent ? false : true;
+        let report: CategoryReport | null;
+        if (previousRange) {
+          const comparison = await reportService.getCategoryReportComparison(
+            params.categoryId,
+            timeRange,
+            previousRange,
+            includeDescendants,
+            reportOptions
+          );
+          report = comparison.current;
+          setDeltas(comparison.deltas);
+        } else {
+          report = await reportService.getCategoryReport(
+            params.categoryId,
+            timeRange,
+            includeDescendants,
+            reportOptions
+          );
+          setDeltas(undefined);
+        }
         if (report) {
           if (report.children.length > 0) {
             // Show child categories
@@ -113,15 +167,30 @@ export default function StatsScreen() {
             const categoryEvents = await reportService.getEventsWithDetails({
               categoryId: params.categoryId,
               timeRange,
+              options: reportOptions,
             });
             setEvents(categoryEvents);
             setCategoryReports([]);
           }
         }
+        setOverlapStrategy(await reportService.getOverlapStrategy());
       } else {
         // Show root categories
-        const fullReport = await reportService.generateFullReport(timeRange);
-        setCategoryReports(fullReport.categoryBreakdown);
+        if (previousRange) {
+          const comparison = await reportService.generateComparisonReport(
+            timeRange,
+            previousRange,
+            reportOptions
+          );
+          setCategoryReports(comparison.current.categoryBreakdown);
+          setDeltas(comparison.deltas);
+          setOverlapStrategy(comparison.current.overlapStrategy);
+        } else {
+          const fullReport = await reportService.generateFullReport(timeRange, reportOptions);
+          setCategoryReports(fullReport.categoryBreakdown);
+          setDeltas(undefined);
+          setOverlapStrategy(fullReport.overlapStrategy);
+        }
         setEvents([]);
       }
     } catch (error) {
@@ -130,7 +199,7 @@ export default function StatsScreen() {
     } finally {
       setLoading(false);
     }
-  }, [reportService, timeRange, params]);
+  }, [reportService, timeRange, previousRange, params, reportOptions, isShowingTrend, trendPeriod]);
 
   useEffect(() => {
     // Load data when time range or category changes
@@ -164,6 +233,7 @@ export default function StatsScreen() {
       // Category Specific
       hasChildCategories: newParams.hasChildCategories ? '1' : '0',
       isDummyParent: newParams.isDummyParent ? '1' : '0',
+      compare: (newParams.compare ?? params?.compare) ? '1' : '0',
     } satisfies StatsPageParamsInputType;
 
     if (inPlace) {
@@ -188,6 +258,20 @@ export default function StatsScreen() {
     );
   };
 
+  const handleTrendBucketPress = (bucket: TrendBucket) => {
+    // The breakdown of that period, for the same category
+    updateSearchParams(
+      {
+        view: 'breakdown',
+        dateRangeType: trendPeriod,
+        dateRangeRef: bucket.range.start,
+        hasChildCategories: params?.hasChildCategories,
+        isDummyParent: params?.isDummyParent,
+      },
+      false
+    );
+  };
+
   const handleTimeRangeTypeChange = (
     type: 'daily' | 'weekly' | 'monthly' | 'annually' | 'period'
   ) => {
@@ -199,28 +283,39 @@ export default function StatsScreen() {
   };
 
   const navigateTimeRange = (direction: 'prev' | 'next') => {
-    const newDate = new Date(params?.dateRangeRef ?? new Date());
+    const referenceDate = params?.dateRangeRef ?? new Date();
+    const step = direction === 'next' ? 1 : -1;
 
+    let newDate = referenceDate;
     switch (params?.dateRangeType || 'monthly') {
       case 'daily':
-        newDate.setDate(newDate.getDate() + (direction === 'next' ? 1 : -1));
+        newDate = addToDate(referenceDate, { days: step }, timeZone);
         break;
       case 'weekly':
-        newDate.setDate(newDate.getDate() + (direction === 'next' ? 7 : -7));
+        newDate = addToDate(referenceDate, { days: 7 * step }, timeZone);
         break;
       case 'monthly':
-        newDate.setMonth(newDate.getMonth() + (direction === 'next' ? 1 : -1));
+        newDate = addToDate(referenceDate, { months: step }, timeZone);
         break;
       case 'annually':
-        newDate.setFullYear(newDate.getFullYear() + (direction === 'next' ? 1 : -1));
+        newDate = addToDate(referenceDate, { years: step }, timeZone);
         break;
     }
 
     updateSearchParams({ dateRangeRef: newDate });
   };
 
+  const formatRange = (range: TimeRange): string => {
+    const format = (date: Date) =>
+      date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone });
+    const start = format(range.start);
+    const end = format(range.end);
+    return start === end ? start : `${start} - ${end}`;
+  };
+
   const formatTimeRangeDisplay = (): string => {
-    const showYear = timeRange.start.getFullYear() !== new Date().getFullYear();
+    const yearOf = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', timeZone });
+    const showYear = yearOf(timeRange.start) !== yearOf(new Date());
 
     switch (params?.dateRangeType || 'monthly') {
       case 'daily':
@@ -228,6 +323,7 @@ export default function StatsScreen() {
           year: 'numeric',
           month: 'short',
           day: 'numeric',
+          timeZone,
         });
 
       case 'weekly':
@@ -235,11 +331,13 @@ export default function StatsScreen() {
           month: 'short',
           day: 'numeric',
           year: showYear ? 'numeric' : undefined,
+          timeZone,
         });
         const weekEnd = timeRange.end.toLocaleDateString('en-US', {
           month: 'short',
           day: 'numeric',
           year: showYear ? 'numeric' : undefined,
+          timeZone,
         });
         return `${weekStart} - ${weekEnd}`;
 
@@ -247,21 +345,24 @@ export default function StatsScreen() {
         return timeRange.start.toLocaleDateString('en-US', {
           year: showYear ? 'numeric' : undefined,
           month: 'long',
+          timeZone,
         });
 
       case 'annually':
-        return timeRange.start.getFullYear().toString();
+        return yearOf(timeRange.start);
 
       case 'period':
         const periodStart = timeRange.start.toLocaleDateString('en-US', {
           year: 'numeric',
           month: 'short',
           day: 'numeric',
+          timeZone,
         });
         const periodEnd = timeRange.end.toLocaleDateString('en-US', {
           year: 'numeric',
           month: 'short',
           day: 'numeric',
+          timeZone,
         });
         return `${periodStart} - ${periodEnd}`;
     }
@@ -280,21 +381,125 @@ export default function StatsScreen() {
     <View className="flex-1 bg-white">
       {/* Time Range Selector */}
       <View className="border-b border-gray-100 bg-white px-4 py-4">
-        <TimeRangeSelector
-          timeRangeType={params?.dateRangeType || 'monthly'}
-          displayText={formatTimeRangeDisplay()}
-          customStart={params?.dateRangeCustomStart || new Date()}
-          customEnd={params?.dateRangeCustomEnd || new Date()}
-          onTypeChange={handleTimeRangeTypeChange}
-          onNavigate={navigateTimeRange}
-          onCustomDatesChange={handleCustomDatesChange}
-        />
+        <View className="mb-3 flex-row rounded-lg bg-gray-100 p-1">
+          {(['breakdown', 'trend'] as const).map((view) => (
+            <TouchableOpacity
+              key={view}
+              onPress={() =>
+                updateSearchParams({
+                  view,
+                  hasChildCategories: params?.hasChildCategories,
+                  isDummyParent: params?.isDummyParent,
+                })
+              }
+              className={`flex-1 items-center rounded-md py-1.5 ${
+                (params?.view ?? 'breakdown') === view ? 'bg-white' : ''
+              }`}>
+              <Text className="text-sm font-medium text-gray-900">
+                {view === 'trend' ? 'Trend' : 'Breakdown'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {isShowingTrend ? (
+          <View className="flex-row items-center justify-between">
+            <Text className="text-lg font-semibold text-gray-700">Totals per</Text>
+            <View className="flex-row gap-2">
+              {TREND_PERIODS.map((period) => (
+                <TouchableOpacity
+                  key={period.type}
+                  onPress={() =>
+                    updateSearchParams({
+                      trendPeriod: period.type,
+                      hasChildCategories: params?.hasChildCategories,
+                      isDummyParent: params?.isDummyParent,
+                    })
+                  }
+                  className={`rounded-lg px-3 py-2 ${
+                    period.type === trendPeriod ? 'bg-blue-500' : 'bg-gray-50'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${
+                      period.type === trendPeriod ? 'text-white' : 'text-gray-900'
+                    }`}>
+                    {period.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ) : (
+          <TimeRangeSelector
+            timeRangeType={params?.dateRangeType || 'monthly'}
+            displayText={formatTimeRangeDisplay()}
+            customStart={params?.dateRangeCustomStart || new Date()}
+            customEnd={params?.dateRangeCustomEnd || new Date()}
+            onTypeChange={handleTimeRangeTypeChange}
+            onNavigate={navigateTimeRange}
+            onCustomDatesChange={handleCustomDatesChange}
+          />
+        )}
+        <View className="mt-3 flex-row items-center justify-between">
+          <Text className="flex-1 text-sm text-gray-600">
+            Count all-day events as {settings.allDayHoursPerWeekday}h per working day (estimated)
+          </Text>
+          <Switch
+            value={settings.includeAllDayEvents}
+            onValueChange={(value) => updateSetting('includeAllDayEvents', value)}
+          />
+        </View>
+        <View className="mt-2 flex-row items-center justify-between">
+          <Text className="flex-1 text-sm text-gray-600">
+            Show untracked working hours as Unaccounted
+          </Text>
+          <Switch
+            value={settings.fillUnaccountedTime}
+            onValueChange={(value) => updateSetting('fillUnaccountedTime', value)}
+          />
+        </View>
+        {!isShowingTrend && (
+          <View className="mt-2 flex-row items-center justify-between">
+            <Text className="flex-1 text-sm text-gray-600">
+              Compare with previous period
+              {previousRange && ` (${formatRange(previousRange)})`}
+            </Text>
+            <Switch
+              value={!!params?.compare}
+              onValueChange={(value) =>
+                updateSearchParams({
+                  compare: value,
+                  hasChildCategories: params?.hasChildCategories,
+                  isDummyParent: params?.isDummyParent,
+                })
+              }
+            />
+          </View>
+        )}
+        {overlapStrategy && (
+          <Text className="mt-1 text-xs text-gray-500">
+            Overlapping events: {OVERLAP_STRATEGY_LABELS[overlapStrategy]}
+          </Text>
+        )}
       </View>
 
-      {isShowingEvents ? (
+      {isShowingTrend ? (
+        /* Trend View */
+        <ScrollView className="flex-1">
+          {trend && (
+            <View className="px-4 py-6">
+              <CategoryTrendChart
+                trend={trend}
+                timeZone={timeZone}
+                onBucketPress={handleTrendBucketPress}
+              />
+            </View>
+          )}
+        </ScrollView>
+      ) : isShowingEvents ? (
         /* Events List View */
         <EventsList
           events={events}
+          timeZone={timeZone}
           emptyMessage={`No events found for ${currentCategoryName} in the selected time period.`}
         />
       ) : (
@@ -311,6 +516,7 @@ export default function StatsScreen() {
           <CategoryList
             categoryReports={categoryReports}
             onCategoryPress={handleCategoryPress}
+            deltas={deltas}
             emptyMessage={
               params?.categoryId
                 ? `No subcategories found for ${currentCategoryName}.`
@@ -2,6 +2,7 @@ import '../global.css';
 
 import { GoogleAuthProvider, useGoogleAuth } from '@/components/GoogleAuthProvider';
 import { CalendarSyncProvider } from '@/components/CalendarSyncProvider';
+import { SettingsProvider } from '@/components/SettingsProvider';
 import { SplashScreenHandler } from '@/components/SplashScreen';
 import { SQLiteProvider } from '@/db/SQLiteProvider';
 import { Stack } from 'expo-router';
@@ -34,14 +35,16 @@ export default function RootLayout() {
   return (
     <FiberProvider>
       <SQLiteProvider>
-        <GoogleAuthProvider>
-          <CalendarSyncProvider>
-            <GestureHandlerRootView style={{ flex: 1 }}>
-              <SplashScreenHandler />
-              <AppNavigator />
-            </GestureHandlerRootView>
-          </CalendarSyncProvider>
-        </GoogleAuthProvider>
+        <SettingsProvider>
+          <GoogleAuthProvider>
+            <CalendarSyncProvider>
+              <GestureHandlerRootView style={{ flex: 1 }}>
+                <SplashScreenHandler />
+                <AppNavigator />
+              </GestureHandlerRootView>
+            </CalendarSyncProvider>
+          </GoogleAuthProvider>
+        </SettingsProvider>
       </SQLiteProvider>
     </FiberProvider>
   );
@@ -4,10 +4,12 @@ import {
   CalendarSyncService,
   SyncProgress,
   LastSyncInfo,
+  ManualCategorizationSnapshot,
 } from '@/services/calendar/CalendarSyncService';
 import { useDrizzle } from '@/db/SQLiteProvider';
 import { useGoogleAuth } from './GoogleAuthProvider';
 import { CalendarService } from '../services/calendar/CalendarService';
+import { getDeviceTimeZone } from '../services/calendar/timezone';
 
 interface CalendarSyncContextType {
   primaryTimezone: string;
@@ -39,7 +41,7 @@ export function CalendarSyncProvider({
     percentage: 0,
   });
   const [lastSyncInfo, setLastSyncInfo] = useState<LastSyncInfo | undefined>();
-  const [primaryTimezone, setPrimaryTimezone] = useState<string>('UTC');
+  const [primaryTimezone, setPrimaryTimezone] = useState<string>(getDeviceTimeZone);
 
   // Initialize sync service when user is authenticated and database is ready
   useEffect(() => {
@@ -87,13 +89,23 @@ export function CalendarSyncProvider({
     }
 
     try {
+      let manualCategorizations: ManualCategorizationSnapshot | undefined;
       if (forceResync) {
-        // Reset existing calendars and events
+        // Reset existing calendars and events, keeping manual category assignments
+        manualCategorizations = await syncService.snapshotManualCategorizations();
         await syncService.resetCalendarsAndEvents();
       }
 
-      await syncService.syncAllCalendars();
+      try {
+        await syncService.syncAllCalendars();
+      } finally {
+        if (manualCategorizations) {
+          await syncService.restoreManualCategorizations(manualCategorizations);
+        }
+      }
       setLastSyncInfo(syncService.getLastSyncInfo());
+      // Calendars may have been added or changed their zone
+      new CalendarService(drizzle).getPrimaryTimezone().then(setPrimaryTimezone);
     } catch (error) {
       console.error('Manual sync failed:', error);
       throw error;
@@ -0,0 +1,43 @@
+import { Paint, Paragraph, Rect, Skia } from '@shopify/react-native-skia';
+import { useMemo } from 'react';
+import { SharedValue, useDerivedValue } from 'react-native-reanimated';
+import type { AllDaySegment } from './allDayLayout';
+import { ALL_DAY_PADDING, ALL_DAY_ROW_HEIGHT, DAY_HEADER_HEIGHT } from './constants';
+
+// Gap kept where the event starts or ends, continuing segments touch the next column
+const EDGE_INSET = 2;
+
+interface AllDayBlockProps {
+  segment: AllDaySegment;
+  columnWidth: SharedValue<number>;
+  isSelected: boolean;
+}
+
+export const AllDayBlock = ({ segment, columnWidth, isSelected }: AllDayBlockProps) => {
+  const { event, lane, continuesBefore, continuesAfter } = segment;
+  const y = DAY_HEADER_HEIGHT + ALL_DAY_PADDING + lane * ALL_DAY_ROW_HEIGHT;
+  const height = ALL_DAY_ROW_HEIGHT - 2;
+  const x = continuesBefore ? 0 : EDGE_INSET;
+
+  const width = useDerivedValue(() =>
+    Math.max(0, columnWidth.value - x - (continuesAfter ? 0 : EDGE_INSET))
+  );
+  const textWidth = useDerivedValue(() => Math.max(0, width.value - 8));
+
+  const paragraph = useMemo(() => {
+    const title = continuesBefore ? `← ${event.title}` : event.title;
+    return Skia.ParagraphBuilder.Make({ maxLines: 1, ellipsis: '...' })
+      .pushStyle({ fontSize: 10, color: Skia.Color('white') })
+      .addText(continuesAfter ? `${title} →` : title)
+      .build();
+  }, [event.title, continuesBefore, continuesAfter]);
+
+  return (
+    <>
+      <Rect x={x} y={y} width={width} height={height} color={event.category?.color || '#3B82F6'}>
+        {isSelected && <Paint style="stroke" strokeWidth={2} color="black" />}
+      </Rect>
+      <Paragraph paragraph={paragraph} x={x + 4} y={y + 3} width={textWidth} />
+    </>
+  );
+};
@@ -1,7 +1,10 @@
 import { SkFont } from '@shopify/react-native-skia';
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { SharedValue, useAnimatedReaction } from 'react-native-reanimated';
 import { scheduleOnRN } from 'react-native-worklets';
+import { addToDate, toDateKey } from '@/services/calendar/timezone';
+import { type AllDayLayout, layoutAllDayEvents } from './allDayLayout';
+import { useAllDayEvents, useCalendarViewData } from './CalendarViewEventsProvider';
 import { DayColumn } from './DayColumn';
 import { SCROLL_TODAY_INDEX, SCROLL_TOTAL_DAYS } from './constants';
 
@@ -11,8 +14,12 @@ interface CalendarDayColumnsProps {
   columnWidth: SharedValue<number>;
   numDays: number;
   hourHeight: SharedValue<number>;
+  // Day header plus the all-day strip
+  headerHeight: SharedValue<number>;
   font: SkFont;
   headerFont: SkFont;
+  selectedEventId?: string;
+  onAllDayLayoutChange: (layout: AllDayLayout) => void;
 }
 
 export function CalendarDayColumns({
@@ -21,9 +28,13 @@ export function CalendarDayColumns({
   columnWidth,
   numDays,
   hourHeight,
+  headerHeight,
   font,
   headerFont,
+  selectedEventId,
+  onAllDayLayoutChange,
 }: CalendarDayColumnsProps) {
+  const { timeZone } = useCalendarViewData();
   const [visibleStartIndex, setVisibleStartIndex] = useState(SCROLL_TODAY_INDEX);
 
   // Update visible index to trigger React re-renders only for this component
@@ -53,26 +64,43 @@ export function CalendarDayColumns({
     return indices;
   }, [visibleStartIndex, numDays]);
 
+  const days = React.useMemo(
+    () =>
+      renderIndices.map((index) => {
+        const date = addToDate(new Date(), { days: index - SCROLL_TODAY_INDEX }, timeZone);
+        return { index, dateKey: toDateKey(date, timeZone) };
+      }),
+    [renderIndices, timeZone]
+  );
+
+  // All-day lanes are shared by the whole window so multi-day events line up
+  const allDayEvents = useAllDayEvents(days[0].dateKey, days[days.length - 1].dateKey);
+  const allDayLayout = React.useMemo(
+    () => layoutAllDayEvents(allDayEvents, days, timeZone),
+    [allDayEvents, days, timeZone]
+  );
+
+  useEffect(() => {
+    onAllDayLayoutChange(allDayLayout);
+  }, [allDayLayout, onAllDayLayoutChange]);
+
   return (
     <>
-      {renderIndices.map((index) => {
-        const date = new Date();
-        date.setDate(date.getDate() + (index - SCROLL_TODAY_INDEX));
-        const dateKey = date.toISOString().split('T')[0];
-
-        return (
-          <DayColumn
-            key={dateKey} // React unmounts/mounts as dates leave the window
-            index={index}
-            dateKey={dateKey}
-            columnWidth={columnWidth}
-            hourHeight={hourHeight}
-            scrollY={scrollY}
-            font={font} // Pass loaded font
-            headerFont={headerFont}
-          />
-        );
-      })}
+      {days.map(({ index, dateKey }) => (
+        <DayColumn
+          key={dateKey} // React unmounts/mounts as dates leave the window
+          index={index}
+          dateKey={dateKey}
+          columnWidth={columnWidth}
+          hourHeight={hourHeight}
+          headerHeight={headerHeight}
+          scrollY={scrollY}
+          allDaySegments={allDayLayout.segmentsByIndex.get(index)}
+          selectedEventId={selectedEventId}
+          font={font} // Pass loaded font
+          headerFont={headerFont}
+        />
+      ))}
     </>
   );
 }
@@ -1,8 +1,11 @@
+import EventDetailSheet from '@/components/EventDetailSheet';
 import type { ViewMode } from '@/components/drawer/CustomDrawerContent';
+import { addToDate, atMinutesIntoDay, toDateKey } from '@/services/calendar/timezone';
 import { Canvas, Group, Path, Skia, useFont } from '@shopify/react-native-skia';
 import { useContextBridge } from 'its-fine';
-import { memo, useCallback, useEffect, useMemo, useState } from 'react';
-import { PixelRatio, StyleSheet, View } from 'react-native';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { Alert, PixelRatio, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
 import Animated, {
   clamp,
@@ -16,6 +19,12 @@ import Animated, {
   withTiming,
 } from 'react-native-reanimated';
 import { scheduleOnRN } from 'react-native-worklets';
+import {
+  type AllDayLayout,
+  EMPTY_ALL_DAY_LAYOUT,
+  findAllDaySegment,
+  getAllDayHeight,
+} from './allDayLayout';
 import { CalendarDayColumns } from './CalendarDayColumns';
 import {
   CalendarViewEventsProvider,
@@ -23,6 +32,8 @@ import {
   useCalendarViewData,
 } from './CalendarViewEventsProvider';
 import {
+  ALL_DAY_PADDING,
+  ALL_DAY_ROW_HEIGHT,
   DAY_HEADER_HEIGHT,
   DEFAULT_HOUR_HEIGHT,
   EventBlockData,
@@ -60,6 +71,10 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
   const columnWidth = useSharedValue(0);
   const scrollX = useSharedValue(0);
   const scrollY = useSharedValue(0);
+  // The day header grows with the all-day lanes of the visible days
+  const allDayHeight = useSharedValue(0);
+  const headerHeight = useDerivedValue(() => DAY_HEADER_HEIGHT + allDayHeight.value);
+  const allDayLayoutRef = useRef<AllDayLayout>(EMPTY_ALL_DAY_LAYOUT);
 
   // Pinch state values
   const startScrollY = useSharedValue(0);
@@ -68,6 +83,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
 
   // const { selectedEvent, setSelectedEvent } = useCalendarViewData();
   const [selectedEvent, setSelectedEvent] = useState<SelectedEvent | null>(null);
+  const [detailEvent, setDetailEvent] = useState<SelectedEvent['data'] | null>(null);
   const [columnWidthReact, setColumnWidthReact] = useState(0);
   const [containerWidth, setContainerWidth] = useState<number | null>(null);
   const [containerHeight, setContainerHeight] = useState<number | null>(null);
@@ -132,7 +148,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
       // Calculate time at the focal point (relative to content start)
       // timeAtFocal = (distance from top of content to finger) / totalHeight
       // But simpler: (scrollY + focalY - HEADER) is the pixel distance in the "time" area
-      const relativeYAtStart = startScrollY.value + startFocalY.value - DAY_HEADER_HEIGHT;
+      const relativeYAtStart = startScrollY.value + startFocalY.value - headerHeight.value;
 
       // Calculate the "time ratio" (how far down the day we are at the focal point)
       // using the START height
@@ -144,7 +160,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
       // The new scrollY should position that point back under the focalY
       // newScrollY + focalY - HEADER = newRelativeY
       // newScrollY = newRelativeY - focalY + HEADER
-      const targetScrollY = newRelativeY - e.focalY + DAY_HEADER_HEIGHT;
+      const targetScrollY = newRelativeY - e.focalY + headerHeight.value;
 
       scrollTo(scrollViewRef, 0, targetScrollY, false);
     })
@@ -155,7 +171,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
       hourHeight.value = withTiming(snappedHeight, { duration: 1000 });
     });
 
-  const { getEventsForDate, updateEvent } = useCalendarViewData();
+  const { getEventLayoutsForDate, updateEvent, timeZone } = useCalendarViewData();
 
   const handleEventUpdate = useCallback(
     async (id: string, start: Date, end: Date) => {
@@ -166,60 +182,45 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
         start.toTimeString(),
         end.toTimeString()
       );
-      // await updateEvent(id, start, end);
-      // Keep selected? Update local state if needed or deselect.
-      // Ideally we update the selected event data to match new position so it doesn't jump back
-      // But since the render cycle will refresh the data, we might just need to rely on that.
-      // However, if we deselect, the overlay goes away.
-      // Let's keep selected but we'd need to update the `data` in `selectedEvent`.
-      // For now, let's just log and rely on props change?
-      // Actually, if we update DB, the query hooks run, the underlying Skia view updates.
-      // The `selectedEvent` state holds a SNAPSHOT of the event at tap time.
-      // If we want the overlay to persist at the new position, we should update the snapshot.
-      // setSelectedEvent((prev) => {
-      //   if (!prev || prev.data.id !== id) return prev;
-      //   return {
-      //     ...prev,
-      //     data: {
-      //       ...prev.data,
-      //       start,
-      //       end,
-      //       // width stays same? calculated width might change if overlaps change...
-      //       // This is tricky. If we drop it, it might now overlap with something else.
-      //       // Recalculating layout is complex here.
-      //       // Simplest UX: Deselect on drop.
-      //     },
-      //   };
-      // });
-      // Actually, let's deselect for now to avoid layout sync issues until we have a better way
-      // to re-select the updated event from the fresh layout data.
-      // setSelectedEvent(null);
+
+      try {
+        await updateEvent(id, start, end);
+      } catch (error) {
+        console.error('Failed to update event:', error);
+        Alert.alert('Error', 'Failed to update the event in Google Calendar. Changes reverted.');
+      } finally {
+        // The `selectedEvent` holds a snapshot of the old layout.
+        // Deselect on drop, the fresh layout is rendered from the invalidated cache.
+        setSelectedEvent(null);
+      }
     },
     [updateEvent]
   );
 
   const checkEventClick = useCallback(
-    (dateKey: string, minutes: number, normalizedColumnX: number, dayIndex: number) => {
+    (minutes: number, normalizedColumnX: number, dayIndex: number) => {
       try {
-        const events = getEventsForDate(dateKey);
+        // Same day arithmetic as CalendarDayColumns
+        const dateKey = toDateKey(
+          addToDate(new Date(), { days: dayIndex - SCROLL_TODAY_INDEX }, timeZone),
+          timeZone
+        );
+        const events = getEventLayoutsForDate(dateKey);
         if (!events) return;
 
-        // Create base date for the clicked day to match usage in CalendarViewEventsProvider
-        const baseDate = new Date(dateKey);
-        baseDate.setHours(0, 0, 0, 0);
-
-        // Calculate timestamp of the tap
-        const tapTime = baseDate.getTime() + minutes * 60 * 1000;
+        // Calculate timestamp of the tap, minutes are wall-clock time in the view's zone
+        const wholeMinutes = Math.floor(minutes);
+        const tapTime =
+          atMinutesIntoDay(dateKey, wholeMinutes, timeZone).getTime() +
+          (minutes - wholeMinutes) * 60 * 1000;
 
         // Search in reverse order to find the "top-most" event (rendered last)
         let clickedEvent: EventBlockData | undefined;
         for (let i = events.length - 1; i >= 0; i--) {
           const e = events[i];
-          if (!e.start || !e.end) continue;
-
-          // Check time overlap
-          const start = e.start.getTime();
-          const end = e.end.getTime();
+          // Check time overlap with the part drawn on this day
+          const start = e.segmentStart.getTime();
+          const end = e.segmentEnd.getTime();
           const matchesTime = tapTime >= start && tapTime < end;
 
           // Check horizontal overlap
@@ -255,7 +256,43 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
         console.error('Error handling event click:', e);
       }
     },
-    [getEventsForDate, setSelectedEvent]
+    [getEventLayoutsForDate, setSelectedEvent, timeZone]
+  );
+
+  const handleAllDayLayoutChange = useCallback(
+    (layout: AllDayLayout) => {
+      allDayLayoutRef.current = layout;
+      allDayHeight.value = getAllDayHeight(layout.laneCount);
+    },
+    [allDayHeight]
+  );
+
+  const checkAllDayClick = useCallback(
+    (lane: number, dayIndex: number) => {
+      const segment = findAllDaySegment(allDayLayoutRef.current, dayIndex, lane);
+      if (!segment) {
+        setSelectedEvent(null);
+        return;
+      }
+
+      const { event, continuesBefore, continuesAfter } = segment;
+      setSelectedEvent({
+        data: {
+          ...event,
+          segmentStart: event.start!,
+          segmentEnd: event.end!,
+          continuesBefore,
+          continuesAfter,
+          width: 1,
+        },
+        dateKey: toDateKey(
+          addToDate(new Date(), { days: dayIndex - SCROLL_TODAY_INDEX }, timeZone),
+          timeZone
+        ),
+        dayIndex,
+      });
+    },
+    [timeZone]
   );
 
   const handleTap = (x: number, y: number) => {
@@ -271,40 +308,37 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
     const gridY = y + scrollY.value;
 
     // Check bounds
-    if (gridX < 0 || gridY < DAY_HEADER_HEIGHT || columnWidth.value <= 0) return;
+    if (gridX < 0 || columnWidth.value <= 0) return;
 
     // 2. Find Day Index
     const dayIndex = Math.floor(gridX / columnWidth.value);
+    if (!Number.isFinite(dayIndex)) return;
+
+    // The header is sticky, so taps on it are checked in viewport coordinates
+    if (y < headerHeight.value) {
+      const allDayY = y - DAY_HEADER_HEIGHT - ALL_DAY_PADDING;
+      if (allDayY >= 0) {
+        scheduleOnRN(checkAllDayClick, Math.floor(allDayY / ALL_DAY_ROW_HEIGHT), dayIndex);
+      }
+      return;
+    }
 
     // 3. Find normalizedColumnX
     const normalizedColumnX = (gridX % columnWidth.value) / columnWidth.value;
 
-    // Safety check for invalid calculations
-    if (!Number.isFinite(dayIndex)) return;
-
     // 4. Find Time (Minutes from start of day)
     // y = (minutes / 60) * hourHeight + HEADER
     // minutes = (y - HEADER) / hourHeight * 60
-    const minutes = ((gridY - DAY_HEADER_HEIGHT) / hourHeight.value) * 60;
+    const minutes = ((gridY - headerHeight.value) / hourHeight.value) * 60;
 
     console.log(
       `Tap at Day: ${dayIndex}, Minutes: ${minutes}, normalizedColumnX: ${normalizedColumnX}`
     );
 
-    // 5. Get Date Key
-    // Day Index 0 is "Today" (SCROLL_TODAY_INDEX)?
-    // Wait, SCROLL_TODAY_INDEX is the index of today in the huge virtual list.
-    // The loop in CalendarDayColumns does:
-    // date.setDate(date.getDate() + (index - SCROLL_TODAY_INDEX));
-    const today = new Date();
-    const targetDate = new Date(today);
-    targetDate.setDate(today.getDate() + (dayIndex - SCROLL_TODAY_INDEX));
-    const dateKey = targetDate.toISOString().split('T')[0];
-
-    // 6. Check Events
-    // accessing context needs to be done on JS thread usually?
-    // runOnJS needs to call a function.
-    scheduleOnRN(checkEventClick, dateKey, minutes, normalizedColumnX, dayIndex);
+    // 5. Check Events
+    // The date key depends on the view's time zone, it is resolved on the JS thread
+    // together with the context lookup.
+    scheduleOnRN(checkEventClick, minutes, normalizedColumnX, dayIndex);
   };
 
   const tapGesture = Gesture.Tap().onEnd((e) => {
@@ -325,7 +359,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
   }));
 
   const contentHeightStyle = useAnimatedStyle(() => ({
-    height: HOURS_IN_DAY * hourHeight.value + DAY_HEADER_HEIGHT,
+    height: HOURS_IN_DAY * hourHeight.value + headerHeight.value,
   }));
 
   // Canvas moves with both X and Y scroll
@@ -342,12 +376,12 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
     if (totalWidth <= 0) return path;
 
     for (let i = 0; i < HOURS_IN_DAY; i++) {
-      const y = i * hourHeight.value + DAY_HEADER_HEIGHT;
+      const y = i * hourHeight.value + headerHeight.value;
       path.moveTo(0, y);
       path.lineTo(totalWidth, y);
     }
     return path;
-  }, [columnWidth, hourHeight]);
+  }, [columnWidth, hourHeight, headerHeight]);
 
   // Load font once at parent level to prevent flickering during virtualization
   const font = useFont(require('@/assets/fonts/Inter.ttf'), 12);
@@ -384,8 +418,11 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
                         columnWidth={columnWidth}
                         numDays={numDays}
                         hourHeight={hourHeight}
+                        headerHeight={headerHeight}
                         font={font}
                         headerFont={headerFont}
+                        selectedEventId={selectedEvent?.data.id}
+                        onAllDayLayoutChange={handleAllDayLayoutChange}
                       />
                     </Group>
                   </Bridge>
@@ -399,7 +436,7 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
                 onScroll={onScrollY}
                 scrollEventThrottle={16}>
                 <View className="relative flex-row">
-                  <TimeAxis hourHeight={hourHeight} marginTop={DAY_HEADER_HEIGHT} />
+                  <TimeAxis hourHeight={hourHeight} headerHeight={headerHeight} />
 
                   <Animated.View style={[{ flex: 1 }, contentHeightStyle]}>
                     <Animated.ScrollView
@@ -412,13 +449,17 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
                       decelerationRate="fast"
                       snapToAlignment="start">
                       <Animated.View style={contentWidthStyle} />
-                      {selectedEvent && columnWidthReact > 0 && (
+                      {/* All-day events are selected in the strip, they cannot be moved */}
+                      {selectedEvent && !selectedEvent.data.isAllDay && columnWidthReact > 0 && (
                         <EventRescheduler
                           key={selectedEvent.data.id} // Re-mount if ID changes
                           event={selectedEvent.data}
                           dayIndex={selectedEvent.dayIndex}
+                          dateKey={selectedEvent.dateKey}
                           columnWidth={columnWidth}
                           hourHeight={hourHeight}
+                          headerHeight={headerHeight}
+                          timeZone={timeZone}
                           onUpdate={handleEventUpdate}
                           onCancel={() => setSelectedEvent(null)}
                         />
@@ -430,10 +471,32 @@ const CalendarViewContent = memo(function CalendarViewContent({ viewMode }: Cale
 
               {/* Layer 3: Fixed Overlays */}
               {/* Time Axis Header Mask - Masks the time axis when scrolling up */}
-              <TimeAxisHeaderMask />
+              <TimeAxisHeaderMask headerHeight={headerHeight} />
             </View>
           </GestureDetector>
         )}
+
+        {selectedEvent && (
+          <View className="absolute bottom-4 left-4 right-4 flex-row items-center rounded-lg bg-white px-4 py-3 shadow-md">
+            <Text className="mr-2 flex-1 text-base font-medium text-gray-900" numberOfLines={1}>
+              {selectedEvent.data.title}
+            </Text>
+            <TouchableOpacity
+              onPress={() => setDetailEvent(selectedEvent.data)}
+              className="mr-3 flex-row items-center">
+              <Ionicons name="pricetag-outline" size={18} color="#3B82F6" />
+              <Text className="ml-1 text-sm text-blue-500">Details</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setSelectedEvent(null)}>
+              <Ionicons name="close" size={20} color="#6B7280" />
+            </TouchableOpacity>
+          </View>
+        )}
+        <EventDetailSheet
+          event={detailEvent}
+          timeZone={timeZone}
+          onClose={() => setDetailEvent(null)}
+        />
       </View>
     </GestureHandlerRootView>
   );
@@ -1,8 +1,14 @@
 import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
+import { useCalendarSync } from '@/components/CalendarSyncProvider';
 import { useDrizzle } from '@/db/SQLiteProvider';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { getDayBounds } from '@/services/calendar/timezone';
 import { events, categories } from '@/db/schema';
-import { and, gte, lt, eq, asc, desc } from 'drizzle-orm';
+import { and, gt, lte, eq, asc, desc } from 'drizzle-orm';
 import type { EventWithCategory } from '@/services/events/EventsService';
+import { EventRescheduleService } from '@/services/events/EventRescheduleService';
+import { onEventsChanged } from '@/services/events/eventChanges';
+import { EventBlockData, EventSegment } from './constants';
 
 /**
  * Simple LRU Cache implementation for caching events by date key
@@ -16,6 +22,13 @@ class LRUCache<K, V> {
     this.cache = new Map();
   }
 
+  /**
+   * Read a value without touching its recency
+   */
+  peek(key: K): V | undefined {
+    return this.cache.get(key);
+  }
+
   get(key: K): V | undefined {
     if (!this.cache.has(key)) {
       return undefined;
@@ -55,22 +68,90 @@ class LRUCache<K, V> {
   size(): number {
     return this.cache.size;
   }
+
+  keys(): K[] {
+    return Array.from(this.cache.keys());
+  }
 }
 
 // Cache capacity - covers roughly a month of navigation
 const CACHE_CAPACITY = 50;
 
-import { EventBlockData } from './constants';
+// Columns of an EventWithCategory row
+const eventColumns = {
+  id: events.id,
+  calendarId: events.calendarId,
+  title: events.title,
+  description: events.description,
+  eventType: events.eventType,
+  isAllDay: events.isAllDay,
+  start: events.start,
+  end: events.end,
+  effectiveDuration: events.effectiveDuration,
+  categoryId: events.categoryId,
+  isManuallyCategorized: events.isManuallyCategorized,
+  categoryRuleMatch: events.categoryRuleMatch,
+  isBackground: events.isBackground,
+  etag: events.etag,
+  remoteUpdatedAt: events.remoteUpdatedAt,
+  recurringEventId: events.recurringEventId,
+  originalStartTime: events.originalStartTime,
+  isException: events.isException,
+  updatedAt: events.updatedAt,
+  createdAt: events.createdAt,
+  category: {
+    id: categories.id,
+    name: categories.name,
+    color: categories.color,
+    priority: categories.priority,
+    rules: categories.rules,
+    parentCategoryId: categories.parentCategoryId,
+  },
+};
+
+export interface SelectedEvent {
+  data: EventBlockData;
+  dateKey: string;
+  dayIndex: number;
+}
 
-export const groupEvents = (events: EventWithCategory[]): EventBlockData[] => {
+/**
+ * Clip events to the day of a column. Events crossing midnight are cut at the day
+ * boundaries and marked as continuing. Sorted the way groupEvents expects.
+ */
+export const toDaySegments = (
+  events: EventWithCategory[],
+  dateKey: string,
+  timeZone: string
+): EventSegment[] => {
+  const { startOfDay, endOfDay } = getDayBounds(dateKey, timeZone);
+  const nextDay = new Date(endOfDay.getTime() + 1);
+
+  return events
+    .filter((event) => event.start && event.end)
+    .map((event) => ({
+      ...event,
+      segmentStart: event.start! < startOfDay ? startOfDay : event.start!,
+      segmentEnd: event.end! > nextDay ? nextDay : event.end!,
+      continuesBefore: event.start! < startOfDay,
+      continuesAfter: event.end! > nextDay,
+    }))
+    .sort(
+      (a, b) =>
+        a.segmentStart.getTime() - b.segmentStart.getTime() ||
+        b.segmentEnd.getTime() - a.segmentEnd.getTime()
+    );
+};
+
+export const groupEvents = (events: EventSegment[]): EventBlockData[] => {
   if (!events || events.length === 0) return [];
 
-  const groupedEvents: EventWithCategory[][] = [];
-  let currentGroup: EventWithCategory[] = [];
+  const groupedEvents: EventSegment[][] = [];
+  let currentGroup: EventSegment[] = [];
   for (const event of events) {
     // Check overlap with current group
     const overlaps = currentGroup.some(
-      (e) => event.start! < e.end! && event.end! > e.start! // Overlap condition
+      (e) => event.segmentStart < e.segmentEnd && event.segmentEnd > e.segmentStart // Overlap condition
     );
 
     if (overlaps) {
@@ -81,7 +162,7 @@ export const groupEvents = (events: EventWithCategory[]): EventBlockData[] => {
     }
   }
 
-  function layDownEqualDurationEvents(group: EventWithCategory[]) {
+  function layDownEqualDurationEvents(group: EventSegment[]) {
     const _events = [];
     let width = 1;
     for (const event of group) {
@@ -106,8 +187,8 @@ export const groupEvents = (events: EventWithCategory[]): EventBlockData[] => {
       continue;
     }
 
-    const startTimes = new Set(group.map((e) => e.start!.getTime()));
-    const endTimes = new Set(group.map((e) => e.end!.getTime()));
+    const startTimes = new Set(group.map((e) => e.segmentStart.getTime()));
+    const endTimes = new Set(group.map((e) => e.segmentEnd.getTime()));
 
     // If all events have the same start and end times, lay them out side by side
     if (startTimes.size === 1 && endTimes.size === 1) {
@@ -118,8 +199,8 @@ export const groupEvents = (events: EventWithCategory[]): EventBlockData[] => {
     const eventIdToWidthMap: Map<string, number> = new Map();
     const boundaryMap: Map<string, { start: string[]; end: string[] }> = new Map();
     for (const event of group) {
-      const start = event.start!.toISOString();
-      const end = event.end!.toISOString();
+      const start = event.segmentStart.toISOString();
+      const end = event.segmentEnd.toISOString();
       if (!boundaryMap.has(start)) {
         boundaryMap.set(start, { start: [], end: [] });
       }
@@ -172,8 +253,13 @@ interface CalendarViewEventsContextValue {
   getEventsForDate: (dateKey: string) => EventWithCategory[] | undefined;
   getEventLayoutsForDate: (dateKey: string) => EventBlockData[] | undefined;
   fetchEventsForDate: (dateKey: string) => Promise<EventWithCategory[]>;
+  fetchAllDayEvents: (startDateKey: string, endDateKey: string) => Promise<EventWithCategory[]>;
   invalidate: (dateKey?: string) => void;
+  updateEvent: (id: string, start: Date, end: Date) => Promise<void>;
   isLoading: (dateKey: string) => boolean;
+  cacheVersion: number;
+  // Zone whose days the columns show
+  timeZone: string;
 }
 
 const CalendarViewEventsContext = createContext<CalendarViewEventsContextValue | null>(null);
@@ -184,9 +270,23 @@ interface CalendarViewEventsProviderProps {
 
 export function CalendarViewEventsProvider({ children }: CalendarViewEventsProviderProps) {
   const { drizzle: db } = useDrizzle();
+  const { syncService } = useCalendarSync();
+  const timeZone = usePrimaryTimezone();
   const cacheRef = useRef(new LRUCache<string, EventWithCategory[]>(CACHE_CAPACITY));
   const loadingRef = useRef(new Set<string>());
   const [, forceUpdate] = useState({});
+  // Bumped on every invalidation so mounted columns know to re-fetch
+  const [cacheVersion, setCacheVersion] = useState(0);
+
+  // Cached days were cut at the old zone's midnights
+  const cachedTimeZoneRef = useRef(timeZone);
+  useEffect(() => {
+    if (cachedTimeZoneRef.current !== timeZone) {
+      cachedTimeZoneRef.current = timeZone;
+      cacheRef.current.clear();
+      setCacheVersion((v) => v + 1);
+    }
+  }, [timeZone]);
 
   const getEventsForDate = useCallback((dateKey: string): EventWithCategory[] | undefined => {
     return cacheRef.current.get(dateKey);
@@ -196,9 +296,9 @@ export function CalendarViewEventsProvider({ children }: CalendarViewEventsProvi
     (dateKey: string): EventBlockData[] | undefined => {
       const events = cacheRef.current.get(dateKey);
       if (!events) return undefined;
-      return groupEvents(events);
+      return groupEvents(toDaySegments(events, dateKey, timeZone));
     },
-    []
+    [timeZone]
   );
 
   const isLoading = useCallback((dateKey: string): boolean => {
@@ -237,44 +337,21 @@ export function CalendarViewEventsProvider({ children }: CalendarViewEventsProvi
 
       try {
         // Parse date key to get start and end of day
-        const startOfDay = new Date(dateKey);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(dateKey);
-        endOfDay.setHours(23, 59, 59, 999);
+        const { startOfDay, endOfDay } = getDayBounds(dateKey, timeZone);
 
         // console.info('[CalendarViewEventsProvider] Fetching events for:', dateKey);
 
         const results = await db
-          .select({
-            id: events.id,
-            calendarId: events.calendarId,
-            title: events.title,
-            description: events.description,
-            eventType: events.eventType,
-            isAllDay: events.isAllDay,
-            start: events.start,
-            end: events.end,
-            effectiveDuration: events.effectiveDuration,
-            categoryId: events.categoryId,
-            isManuallyCategorized: events.isManuallyCategorized,
-            updatedAt: events.updatedAt,
-            createdAt: events.createdAt,
-            category: {
-              id: categories.id,
-              name: categories.name,
-              color: categories.color,
-              priority: categories.priority,
-              rules: categories.rules,
-              parentCategoryId: categories.parentCategoryId,
-            },
-          })
+          .select(eventColumns)
           .from(events)
           .leftJoin(categories, eq(events.categoryId, categories.id))
           .where(
             and(
-              gte(events.start, startOfDay),
-              lt(events.start, endOfDay),
-              eq(events.isAllDay, false) // TODO: handle all-day events
+              // Events overlapping the day, including ones crossing midnight
+              lte(events.start, endOfDay),
+              gt(events.end, startOfDay),
+              // All-day events are fetched per window, see fetchAllDayEvents
+              eq(events.isAllDay, false)
             )
           )
           // Sort by start ASC, end DESC, createdAt ASC
@@ -289,7 +366,30 @@ export function CalendarViewEventsProvider({ children }: CalendarViewEventsProvi
         forceUpdate({});
       }
     },
-    [db]
+    [db, timeZone]
+  );
+
+  /**
+   * All-day events overlapping the days from `startDateKey` to `endDateKey`.
+   * Not cached, the lane layout depends on the whole window anyway.
+   */
+  const fetchAllDayEvents = useCallback(
+    async (startDateKey: string, endDateKey: string): Promise<EventWithCategory[]> => {
+      const { startOfDay } = getDayBounds(startDateKey, timeZone);
+      const { endOfDay } = getDayBounds(endDateKey, timeZone);
+
+      const results = await db
+        .select(eventColumns)
+        .from(events)
+        .leftJoin(categories, eq(events.categoryId, categories.id))
+        .where(
+          and(eq(events.isAllDay, true), lte(events.start, endOfDay), gt(events.end, startOfDay))
+        )
+        .orderBy(asc(events.start), desc(events.end), asc(events.createdAt));
+
+      return results as EventWithCategory[];
+    },
+    [db, timeZone]
   );
 
   const invalidate = useCallback((dateKey?: string) => {
@@ -298,18 +398,81 @@ export function CalendarViewEventsProvider({ children }: CalendarViewEventsProvi
     } else {
       cacheRef.current.clear();
     }
-    forceUpdate({});
+    setCacheVersion((v) => v + 1);
   }, []);
 
+  /**
+   * Drop every cached day that shows one of the events or overlaps one of the given time ranges
+   */
+  const invalidateEvents = useCallback(
+    (eventIds: string[], ranges: { start: Date; end: Date }[]) => {
+      const ids = new Set(eventIds);
+      for (const dateKey of cacheRef.current.keys()) {
+        const { startOfDay, endOfDay } = getDayBounds(dateKey, timeZone);
+        const containsEvent = cacheRef.current.peek(dateKey)?.some((e) => ids.has(e.id));
+        const overlapsRange = ranges.some(
+          (range) => range.start <= endOfDay && range.end > startOfDay
+        );
+
+        if (containsEvent || overlapsRange) {
+          cacheRef.current.delete(dateKey);
+        }
+      }
+      setCacheVersion((v) => v + 1);
+    },
+    [timeZone]
+  );
+
+  const updateEvent = useCallback(
+    async (id: string, start: Date, end: Date): Promise<void> => {
+      const googleClient = syncService?.getGoogleClient();
+      if (!googleClient) {
+        throw new Error('Calendar sync is not initialized');
+      }
+
+      const rescheduleService = new EventRescheduleService(db, googleClient);
+      try {
+        const { status } = await rescheduleService.rescheduleEvent(id, start, end);
+        if (status === 'queued') {
+          console.info(`Event ${id} saved locally, it will be pushed on the next sync`);
+        }
+      } finally {
+        // Invalidate even on failure, the local row was written and then rolled back
+        invalidateEvents([id], [{ start, end }]);
+      }
+    },
+    [db, syncService, invalidateEvents]
+  );
+
+  // Categories assigned from the events list or here show up without a reload
+  useEffect(
+    () => onEventsChanged((eventIds) => invalidateEvents(eventIds, [])),
+    [invalidateEvents]
+  );
+
   const contextValue = React.useMemo<CalendarViewEventsContextValue>(
     () => ({
       getEventsForDate,
       getEventLayoutsForDate,
       fetchEventsForDate,
+      fetchAllDayEvents,
       invalidate,
+      updateEvent,
       isLoading,
+      cacheVersion,
+      timeZone,
     }),
-    [getEventsForDate, getEventLayoutsForDate, fetchEventsForDate, invalidate, isLoading]
+    [
+      getEventsForDate,
+      getEventLayoutsForDate,
+      fetchEventsForDate,
+      fetchAllDayEvents,
+      invalidate,
+      updateEvent,
+      isLoading,
+      cacheVersion,
+      timeZone,
+    ]
   );
 
   return (
@@ -334,7 +497,7 @@ export function useCalendarViewEvents(dateKey: string): UseCalendarViewEventsRes
     throw new Error('useCalendarViewEvents must be used within a CalendarViewEventsProvider');
   }
 
-  const { getEventsForDate, fetchEventsForDate, isLoading } = context;
+  const { getEventsForDate, fetchEventsForDate, isLoading, cacheVersion } = context;
   const [localEvents, setLocalEvents] = useState<EventWithCategory[]>(() => {
     return getEventsForDate(dateKey) ?? [];
   });
@@ -350,7 +513,7 @@ export function useCalendarViewEvents(dateKey: string): UseCalendarViewEventsRes
     fetchEventsForDate(dateKey).then((events) => {
       setLocalEvents(events);
     });
-  }, [dateKey, getEventsForDate, fetchEventsForDate]);
+  }, [dateKey, getEventsForDate, fetchEventsForDate, cacheVersion]);
 
   return {
     events: localEvents,
@@ -358,6 +521,34 @@ export function useCalendarViewEvents(dateKey: string): UseCalendarViewEventsRes
   };
 }
 
+/**
+ * Hook to get the all-day events of a window of days, refetched when the window
+ * moves or the cache is invalidated.
+ */
+export function useAllDayEvents(startDateKey: string, endDateKey: string): EventWithCategory[] {
+  const context = useContext(CalendarViewEventsContext);
+  if (!context) {
+    throw new Error('useAllDayEvents must be used within a CalendarViewEventsProvider');
+  }
+
+  const { fetchAllDayEvents, cacheVersion } = context;
+  const [allDayEvents, setAllDayEvents] = useState<EventWithCategory[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAllDayEvents(startDateKey, endDateKey)
+      .then((events) => {
+        if (!cancelled) setAllDayEvents(events);
+      })
+      .catch((error) => console.error('Failed to load all-day events:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [startDateKey, endDateKey, fetchAllDayEvents, cacheVersion]);
+
+  return allDayEvents;
+}
+
 /**
  * Hook to access the invalidation function for cache busting
  */
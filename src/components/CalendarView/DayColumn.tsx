@@ -1,8 +1,15 @@
 import { Circle, Group, Rect, SkFont, Text as SkiaText } from '@shopify/react-native-skia';
 import { memo, useMemo } from 'react';
 import { SharedValue, useDerivedValue } from 'react-native-reanimated';
-import { groupEvents, useCalendarViewEvents } from './CalendarViewEventsProvider';
-import { DAY_HEADER_HEIGHT } from './constants';
+import { getDayBounds, toDateKey } from '@/services/calendar/timezone';
+import {
+  groupEvents,
+  toDaySegments,
+  useCalendarViewData,
+  useCalendarViewEvents,
+} from './CalendarViewEventsProvider';
+import { AllDayBlock } from './AllDayBlock';
+import type { AllDaySegment } from './allDayLayout';
 import { EventBlock } from './EventBlock';
 
 interface DayColumnProps {
@@ -10,7 +17,10 @@ interface DayColumnProps {
   dateKey: string;
   columnWidth: SharedValue<number>;
   hourHeight: SharedValue<number>;
+  headerHeight: SharedValue<number>;
   scrollY: SharedValue<number>;
+  allDaySegments?: AllDaySegment[];
+  selectedEventId?: string;
   font: SkFont;
   headerFont: SkFont;
 }
@@ -20,13 +30,20 @@ export const DayColumn = memo(function DayColumn({
   dateKey,
   columnWidth,
   hourHeight,
+  headerHeight,
   scrollY,
+  allDaySegments,
+  selectedEventId,
   font,
   headerFont,
 }: DayColumnProps) {
   // Hook only runs for visible/buffered days
   const { events: rawEvents } = useCalendarViewEvents(dateKey);
-  const events = useMemo(() => groupEvents(rawEvents), [rawEvents]);
+  const { timeZone } = useCalendarViewData();
+  const events = useMemo(
+    () => groupEvents(toDaySegments(rawEvents, dateKey, timeZone)),
+    [rawEvents, dateKey, timeZone]
+  );
 
   // Font is passed from parent to avoid loading on mount (flicker)
   const transform = useDerivedValue(() => [{ translateX: index * columnWidth.value }]);
@@ -38,10 +55,10 @@ export const DayColumn = memo(function DayColumn({
   const headerTransform = useDerivedValue(() => [{ translateY: scrollY.value }]);
   const rectWidth = useDerivedValue(() => columnWidth.value);
 
-  const date = new Date(dateKey);
-  const dayName = date.toLocaleDateString('en-US', { weekday: 'short' });
-  const dayDate = date.getDate().toString();
-  const isToday = dateKey === new Date().toISOString().split('T')[0];
+  const { startOfDay } = getDayBounds(dateKey, timeZone);
+  const dayName = startOfDay.toLocaleDateString('en-US', { weekday: 'short', timeZone });
+  const dayDate = parseInt(dateKey.split('-')[2], 10).toString();
+  const isToday = dateKey === toDateKey(new Date(), timeZone);
 
   return (
     <Group transform={transform}>
@@ -50,15 +67,17 @@ export const DayColumn = memo(function DayColumn({
           key={event.id}
           event={event}
           hourHeight={hourHeight}
+          headerHeight={headerHeight}
           columnWidth={columnWidth}
           font={font}
+          timeZone={timeZone}
         />
       ))}
 
       {/* Header (Sticky) - Rendered last to be on top */}
       <Group transform={headerTransform}>
         {/* Header Background */}
-        <Rect x={-5} y={0} width={rectWidth} height={DAY_HEADER_HEIGHT} color="white" />
+        <Rect x={-5} y={0} width={rectWidth} height={headerHeight} color="white" />
 
         {/* Header Content */}
         <Group>
@@ -79,6 +98,16 @@ export const DayColumn = memo(function DayColumn({
             color={isToday ? 'white' : 'black'}
           />
         </Group>
+
+        {/* All-day strip */}
+        {allDaySegments?.map((segment) => (
+          <AllDayBlock
+            key={segment.event.id}
+            segment={segment}
+            columnWidth={columnWidth}
+            isSelected={segment.event.id === selectedEventId}
+          />
+        ))}
       </Group>
     </Group>
   );
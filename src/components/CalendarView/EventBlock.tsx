@@ -1,21 +1,32 @@
 import { Group, Paint, Paragraph, Rect, SkFont, Skia } from '@shopify/react-native-skia';
 import { useMemo } from 'react';
 import { SharedValue, useDerivedValue } from 'react-native-reanimated';
-import { DAY_HEADER_HEIGHT, EventBlockData } from './constants';
+import { getMinutesIntoDay } from '@/services/calendar/timezone';
+import { EventBlockData } from './constants';
 
 export interface SkiaEventBlockProps {
   event: EventBlockData;
   hourHeight: SharedValue<number>;
+  headerHeight: SharedValue<number>;
   columnWidth: SharedValue<number>;
   font: SkFont;
+  timeZone: string;
 }
 
-export const EventBlock = ({ event, hourHeight, columnWidth, font }: SkiaEventBlockProps) => {
-  const startMin = event.start!.getHours() * 60 + event.start!.getMinutes();
-  const duration = (event.end!.getTime() - event.start!.getTime()) / 60000;
+export const EventBlock = ({
+  event,
+  hourHeight,
+  headerHeight,
+  columnWidth,
+  font,
+  timeZone,
+}: SkiaEventBlockProps) => {
+  // Only the part of the event on this day is drawn
+  const startMin = getMinutesIntoDay(event.segmentStart, timeZone);
+  const duration = (event.segmentEnd.getTime() - event.segmentStart.getTime()) / 60000;
   const width = useDerivedValue(() => columnWidth.value * event.width);
 
-  const y = useDerivedValue(() => (startMin / 60) * hourHeight.value + DAY_HEADER_HEIGHT);
+  const y = useDerivedValue(() => (startMin / 60) * hourHeight.value + headerHeight.value);
   const height = useDerivedValue(() => (duration / 60) * hourHeight.value);
   const rectWidth = useDerivedValue(() => Math.min(width.value, columnWidth.value - 2));
   const x = useDerivedValue(() => columnWidth.value - rectWidth.value - 2);
@@ -38,9 +49,20 @@ export const EventBlock = ({ event, hourHeight, columnWidth, font }: SkiaEventBl
     };
     return Skia.ParagraphBuilder.Make(paragraphStyle)
       .pushStyle(textStyle)
-      .addText(event.title)
+      .addText(event.continuesBefore ? `↑ ${event.title}` : event.title)
       .build();
-  }, [event.title, font]);
+  }, [event.title, event.continuesBefore, font]);
+
+  // Marks an event that goes on past midnight
+  const continuationMarker = useMemo(() => {
+    if (!event.continuesAfter) return null;
+    return Skia.ParagraphBuilder.Make({ maxLines: 1 })
+      .pushStyle({ fontSize: 10, color: Skia.Color('white') })
+      .addText('↓')
+      .build();
+  }, [event.continuesAfter]);
+  const markerX = useDerivedValue(() => x.value + rectWidth.value - 12);
+  const markerY = useDerivedValue(() => y.value + height.value - 14);
 
   return (
     <>
@@ -59,6 +81,9 @@ export const EventBlock = ({ event, hourHeight, columnWidth, font }: SkiaEventBl
         y={useDerivedValue(() => y.value + 4)}
         width={useDerivedValue(() => rectWidth.value - 8)}
       />
+      {continuationMarker && (
+        <Paragraph paragraph={continuationMarker} x={markerX} y={markerY} width={10} />
+      )}
       <Group clip={clipPath}></Group>
     </>
   );
@@ -8,14 +8,20 @@ import Animated, {
   type SharedValue,
 } from 'react-native-reanimated';
 import { scheduleOnRN } from 'react-native-worklets';
-import { DAY_HEADER_HEIGHT, EventBlockData } from './constants';
+import { EventBlockData } from './constants';
 import { useCallback } from 'react';
+import { atMinutesIntoDay, getMinutesFromDayStart } from '@/services/calendar/timezone';
 
 interface EventReschedulerProps {
   event: EventBlockData;
   dayIndex: number;
+  // Day of the column the event was selected in, minutes are relative to its midnight
+  dateKey: string;
   columnWidth: SharedValue<number>;
   hourHeight: SharedValue<number>;
+  headerHeight: SharedValue<number>;
+  // Zone of the calendar view, minutes are wall-clock time in it
+  timeZone: string;
   onUpdate: (id: string, start: Date, end: Date) => void;
   onCancel: () => void;
 }
@@ -23,18 +29,26 @@ interface EventReschedulerProps {
 const HANDLE_SIZE = 24;
 const SNAP_MINUTES = 5;
 const MIN_DURATION = 0;
+const MINUTES_IN_DAY = 24 * 60;
 
 export function EventRescheduler({
   event,
   dayIndex,
+  dateKey,
   columnWidth,
   hourHeight,
+  headerHeight,
+  timeZone,
   onUpdate,
   onCancel,
 }: EventReschedulerProps) {
   // Initialize shared values with event time
-  const startMinutes = useSharedValue(event.start!.getHours() * 60 + event.start!.getMinutes());
-  const durationMinutes = useSharedValue(event.effectiveDuration || 60);
+  // Negative when the event started the day before
+  const startMinutes = useSharedValue(getMinutesFromDayStart(event.start!, dateKey, timeZone));
+  // Use the scheduled duration, effectiveDuration is shortened by overlapping events
+  const durationMinutes = useSharedValue(
+    (event.end!.getTime() - event.start!.getTime()) / (1000 * 60) || 60
+  );
 
   // Track drag state
   const isDragging = useSharedValue(false);
@@ -42,12 +56,18 @@ export function EventRescheduler({
 
   // Derived layout values
   // These stay in sync with pinch-to-zoom because they depend on hourHeight
+  // Only the part on this day is shown, the rest is in the neighbouring column
+  const visibleStart = useDerivedValue(() => Math.max(0, startMinutes.value));
+  const visibleEnd = useDerivedValue(() =>
+    Math.min(MINUTES_IN_DAY, startMinutes.value + durationMinutes.value)
+  );
+
   const top = useDerivedValue(() => {
-    return (startMinutes.value / 60) * hourHeight.value + DAY_HEADER_HEIGHT;
+    return (visibleStart.value / 60) * hourHeight.value + headerHeight.value;
   });
 
   const height = useDerivedValue(() => {
-    return (durationMinutes.value / 60) * hourHeight.value;
+    return (Math.max(0, visibleEnd.value - visibleStart.value) / 60) * hourHeight.value;
   });
 
   const width = useDerivedValue(() => {
@@ -75,16 +95,13 @@ export function EventRescheduler({
 
   const triggerUpdate = useCallback(
     (startMinutes: number, durationMinutes: number) => {
-      const newStartDate = new Date(event.start!);
-      newStartDate.setHours(Math.floor(startMinutes / 60), startMinutes % 60, 0, 0);
-
-      const newEndDate = new Date(newStartDate);
-      const endMinutes = startMinutes + durationMinutes;
-      newEndDate.setHours(Math.floor(endMinutes / 60), endMinutes % 60, 0, 0);
+      // Minutes outside 0..1440 roll over into the previous or next day
+      const newStartDate = atMinutesIntoDay(dateKey, startMinutes, timeZone);
+      const newEndDate = atMinutesIntoDay(dateKey, startMinutes + durationMinutes, timeZone);
 
       onUpdate(event.id, newStartDate, newEndDate);
     },
-    [event.start, event.id, onUpdate]
+    [dateKey, event.id, timeZone, onUpdate]
   );
 
   // Gestures
@@ -111,7 +128,11 @@ export function EventRescheduler({
     .onEnd(() => {
       // Snap to nearest SNAP_MINUTES
       const snappedStart = Math.round(startMinutes.value / SNAP_MINUTES) * SNAP_MINUTES;
-      const validStart = Math.max(0, Math.min(24 * 60 - durationMinutes.value, snappedStart));
+      // The event may cross midnight, but part of it stays on this day
+      const validStart = Math.max(
+        SNAP_MINUTES - durationMinutes.value,
+        Math.min(MINUTES_IN_DAY - SNAP_MINUTES, snappedStart)
+      );
 
       startMinutes.value = withTiming(validStart, {}, () => {
         isDragging.value = false;
@@ -204,18 +225,22 @@ export function EventRescheduler({
         </Animated.View>
       </GestureDetector>
 
-      {/* Resize Handles */}
-      <GestureDetector gesture={resizeTopGesture}>
-        <View className="absolute left-0 right-0 top-[-10] flex h-[20] flex-row items-center justify-start">
-          <View className="ms-[4] h-[12] w-[12] rounded-full bg-blue-500" />
-        </View>
-      </GestureDetector>
-
-      <GestureDetector gesture={resizeBottomGesture}>
-        <View className="absolute bottom-[-10] left-0 right-0 flex h-[20] flex-row items-center justify-end">
-          <View className="me-[4] h-[12] w-[12] rounded-full bg-blue-500" />
-        </View>
-      </GestureDetector>
+      {/* Resize Handles, only on the edges that fall on this day */}
+      {!event.continuesBefore && (
+        <GestureDetector gesture={resizeTopGesture}>
+          <View className="absolute left-0 right-0 top-[-10] flex h-[20] flex-row items-center justify-start">
+            <View className="ms-[4] h-[12] w-[12] rounded-full bg-blue-500" />
+          </View>
+        </GestureDetector>
+      )}
+
+      {!event.continuesAfter && (
+        <GestureDetector gesture={resizeBottomGesture}>
+          <View className="absolute bottom-[-10] left-0 right-0 flex h-[20] flex-row items-center justify-end">
+            <View className="me-[4] h-[12] w-[12] rounded-full bg-blue-500" />
+          </View>
+        </GestureDetector>
+      )}
 
       {/* Close/Deselect Button could be external or a small x here */}
     </Animated.View>
@@ -1,24 +1,27 @@
 import React, { memo, useMemo } from 'react';
-import { View, Text } from 'react-native';
+import { Text } from 'react-native';
 import Animated, { useAnimatedStyle, SharedValue } from 'react-native-reanimated';
-import { TIME_AXIS_WIDTH, DAY_HEADER_HEIGHT } from './constants';
+import { TIME_AXIS_WIDTH } from './constants';
 
 interface TimeAxisProps {
   hourHeight: SharedValue<number>;
-  marginTop: number;
+  // Day header plus the all-day strip
+  headerHeight: SharedValue<number>;
 }
 
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
 
-export const TimeAxis = memo(function TimeAxis({ hourHeight, marginTop }: TimeAxisProps) {
+export const TimeAxis = memo(function TimeAxis({ hourHeight, headerHeight }: TimeAxisProps) {
+  const marginStyle = useAnimatedStyle(() => ({ marginTop: headerHeight.value }));
+
   return (
-    <View
-      style={{ width: TIME_AXIS_WIDTH, marginTop }}
+    <Animated.View
+      style={[{ width: TIME_AXIS_WIDTH }, marginStyle]}
       className="border-r border-gray-200 bg-gray-50">
       {HOURS.map((hour) => (
         <TimeSlot key={hour} hour={hour} hourHeight={hourHeight} />
       ))}
-    </View>
+    </Animated.View>
   );
 });
 
@@ -46,18 +49,22 @@ function TimeSlot({ hour, hourHeight }: TimeSlotProps) {
   );
 }
 
-export function TimeAxisHeaderMask() {
+export function TimeAxisHeaderMask({ headerHeight }: { headerHeight: SharedValue<number> }) {
   /* Time Axis Header Mask - Masks the time axis when scrolling up */
+  const heightStyle = useAnimatedStyle(() => ({ height: headerHeight.value }));
+
   return (
-    <View
-      style={{
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        width: TIME_AXIS_WIDTH,
-        height: DAY_HEADER_HEIGHT,
-        zIndex: 50,
-      }}
+    <Animated.View
+      style={[
+        {
+          position: 'absolute',
+          top: 0,
+          left: 0,
+          width: TIME_AXIS_WIDTH,
+          zIndex: 50,
+        },
+        heightStyle,
+      ]}
       className="border-r border-gray-200 bg-white"
     />
   );
@@ -0,0 +1,100 @@
+import { addToDate, getDayBounds, toDateKey } from '@/services/calendar/timezone';
+import type { EventWithCategory } from '@/services/events/EventsService';
+import { ALL_DAY_PADDING, ALL_DAY_ROW_HEIGHT } from './constants';
+
+export interface AllDaySegment {
+  event: EventWithCategory;
+  lane: number;
+  // The event also covers the previous / next day
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export interface AllDayLayout {
+  segmentsByIndex: Map<number, AllDaySegment[]>;
+  laneCount: number;
+}
+
+export const EMPTY_ALL_DAY_LAYOUT: AllDayLayout = { segmentsByIndex: new Map(), laneCount: 0 };
+
+/**
+ * Height of the all-day strip below the day header
+ */
+export const getAllDayHeight = (laneCount: number) =>
+  laneCount > 0 ? laneCount * ALL_DAY_ROW_HEIGHT + 2 * ALL_DAY_PADDING : 0;
+
+/**
+ * All-day events start and end at midnight in the zone of their calendar, which may differ
+ * from the view's zone. An event belongs to a day when it covers most of it, so a holiday
+ * from a calendar a few hours away still lands on exactly one column.
+ */
+const coversDay = (event: EventWithCategory, dateKey: string, timeZone: string): boolean => {
+  const { startOfDay, endOfDay } = getDayBounds(dateKey, timeZone);
+  const dayLength = endOfDay.getTime() + 1 - startOfDay.getTime();
+  const overlap =
+    Math.min(event.end!.getTime(), endOfDay.getTime() + 1) -
+    Math.max(event.start!.getTime(), startOfDay.getTime());
+  return overlap * 2 > dayLength;
+};
+
+const shiftDateKey = (dateKey: string, days: number, timeZone: string) =>
+  toDateKey(addToDate(getDayBounds(dateKey, timeZone).startOfDay, { days }, timeZone), timeZone);
+
+/**
+ * Assign all-day events to lanes across consecutive columns, so that an event spanning
+ * several days keeps the same row in each of them.
+ */
+export function layoutAllDayEvents(
+  allDayEvents: EventWithCategory[],
+  days: { index: number; dateKey: string }[],
+  timeZone: string
+): AllDayLayout {
+  const spans = allDayEvents
+    .filter((event) => event.start && event.end)
+    .map((event) => {
+      const covered = days.filter((day) => coversDay(event, day.dateKey, timeZone));
+      return { event, covered };
+    })
+    .filter((span) => span.covered.length > 0)
+    // Earlier events first, longer ones above shorter ones starting the same day
+    .sort((a, b) => a.covered[0].index - b.covered[0].index || b.covered.length - a.covered.length);
+
+  // Last column index used by each lane
+  const laneEnds: number[] = [];
+  const segmentsByIndex = new Map<number, AllDaySegment[]>();
+
+  for (const { event, covered } of spans) {
+    const firstIndex = covered[0].index;
+    const lastIndex = covered[covered.length - 1].index;
+
+    let lane = laneEnds.findIndex((end) => end < firstIndex);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = lastIndex;
+
+    for (const day of covered) {
+      const segments = segmentsByIndex.get(day.index) ?? [];
+      segments.push({
+        event,
+        lane,
+        continuesBefore: coversDay(event, shiftDateKey(day.dateKey, -1, timeZone), timeZone),
+        continuesAfter: coversDay(event, shiftDateKey(day.dateKey, 1, timeZone), timeZone),
+      });
+      segmentsByIndex.set(day.index, segments);
+    }
+  }
+
+  return { segmentsByIndex, laneCount: laneEnds.length };
+}
+
+/**
+ * The all-day segment drawn in a lane of a column, for hit testing
+ */
+export function findAllDaySegment(
+  layout: AllDayLayout,
+  dayIndex: number,
+  lane: number
+): AllDaySegment | undefined {
+  return layout.segmentsByIndex.get(dayIndex)?.find((segment) => segment.lane === lane);
+}
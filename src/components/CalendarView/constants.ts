@@ -2,6 +2,9 @@ import { EventWithCategory } from '@/services/events/EventsService';
 
 const HOURS_IN_DAY = 24;
 const DAY_HEADER_HEIGHT = 60;
+// All-day strip below the day header, grows by one row per stacked event
+const ALL_DAY_ROW_HEIGHT = 20;
+const ALL_DAY_PADDING = 4;
 const TIME_AXIS_WIDTH = 50;
 
 const DEFAULT_HOUR_HEIGHT = 60;
@@ -11,13 +14,26 @@ const MAX_HOUR_HEIGHT = 340;
 const SCROLL_TOTAL_DAYS = 1000; // Total scrollable range
 const SCROLL_TODAY_INDEX = 500;
 
-export type EventBlockData = EventWithCategory & {
+/**
+ * The part of an event that falls on one day column.
+ * `start`/`end` keep the full event times, events crossing midnight get one segment per day.
+ */
+export type EventSegment = EventWithCategory & {
+  segmentStart: Date;
+  segmentEnd: Date;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+};
+
+export type EventBlockData = EventSegment & {
   width: number;
 };
 
 export {
   HOURS_IN_DAY,
   DAY_HEADER_HEIGHT,
+  ALL_DAY_ROW_HEIGHT,
+  ALL_DAY_PADDING,
   TIME_AXIS_WIDTH,
   DEFAULT_HOUR_HEIGHT,
   MIN_HOUR_HEIGHT,
@@ -6,9 +6,23 @@ import {
 } from '@/services/category/CategoryService';
 import { CategoryExportService } from '@/services/category/import-export/CategoryExportService';
 import { CategoryImportService } from '@/services/category/import-export/CategoryImportService';
-import { type CategoryRule } from '@/types/category_rule';
+import {
+  CATEGORY_RULE_VERSION,
+  RuleNodeSchema,
+  isRuleGroup,
+  normalizeCategoryRules,
+  type CategoryRule,
+  type CategoryRuleType,
+  type RuleField,
+  type RuleGroup,
+  type RuleNode,
+  type TextCategoryRule,
+} from '@/types/category_rule';
+import { CalendarService } from '@/services/calendar/CalendarService';
+import { EventCategorizationService } from '@/services/events/EventCategorizationService';
+import type { DBCalendar } from '@/db/schema';
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Modal,
@@ -22,6 +36,7 @@ import {
 } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import { useDrizzle } from '../db/SQLiteProvider';
+import CategoryRulePreview from './CategoryRulePreview';
 
 interface CategoryFormProps {
   visible: boolean;
@@ -31,49 +46,273 @@ interface CategoryFormProps {
   parentCategory?: CategoryWithChildren;
 }
 
+interface OptionPickerProps<T extends string> {
+  options: readonly { label: string; value: T }[];
+  selectedValue: T;
+  onChange: (value: T) => void;
+  placeholder?: string;
+}
+
+// Action sheet on iOS, dropdown on Android
+const OptionPicker = <T extends string>({
+  options,
+  selectedValue,
+  onChange,
+  placeholder = 'Select',
+}: OptionPickerProps<T>) => {
+  const showActionSheet = () => {
+    ActionSheetIOS.showActionSheetWithOptions(
+      {
+        options: ['Cancel', ...options.map((option) => option.label)],
+        cancelButtonIndex: 0,
+      },
+      (buttonIndex) => {
+        if (buttonIndex > 0) {
+          onChange(options[buttonIndex - 1].value);
+        }
+      }
+    );
+  };
+
+  const selectedLabel =
+    options.find((option) => option.value === selectedValue)?.label || placeholder;
+
+  return Platform.OS === 'ios' ? (
+    <TouchableOpacity
+      onPress={showActionSheet}
+      className="flex-row items-center justify-between rounded-lg border border-gray-300 px-3 py-3">
+      <Text className="flex-1 text-base" numberOfLines={1}>
+        {selectedLabel}
+      </Text>
+      <Ionicons name="chevron-down" size={20} color="#666" />
+    </TouchableOpacity>
+  ) : (
+    <View className="rounded-lg border border-gray-300">
+      <Picker selectedValue={selectedValue} onValueChange={onChange} style={{ height: 50 }}>
+        {options.map((option) => (
+          <Picker.Item key={option.value} label={option.label} value={option.value} />
+        ))}
+      </Picker>
+    </View>
+  );
+};
+
+const ruleTypes = [
+  { label: 'Contains', value: 'CONTAINS' },
+  { label: 'Starts with', value: 'STARTS_WITH' },
+  { label: 'Ends with', value: 'ENDS_WITH' },
+  { label: 'Equals', value: 'EQUALS' },
+  { label: 'Regex pattern', value: 'REGEX' },
+  { label: 'Duration', value: 'DURATION' },
+  { label: 'Start time', value: 'TIME_OF_DAY' },
+] as const satisfies readonly { label: string; value: CategoryRuleType }[];
+
+const ruleFields = [
+  { label: 'Title', value: 'title' },
+  { label: 'Description', value: 'description' },
+  { label: 'Calendar', value: 'calendarId' },
+  { label: 'Event type', value: 'eventType' },
+] as const satisfies readonly { label: string; value: RuleField }[];
+
+/**
+ * An empty text rule, trimming spaces unless it's a regex pattern
+ */
+const createTextRule = (type: TextCategoryRule['type'] = 'CONTAINS'): TextCategoryRule => ({
+  version: CATEGORY_RULE_VERSION,
+  type,
+  field: 'title',
+  content: '',
+  caseSensitive: false,
+  trimWhitespace: type !== 'REGEX',
+});
+
+/**
+ * A rule of another type, keeping the text settings when switching between text matches
+ */
+const changeRuleType = (rule: CategoryRule, type: CategoryRuleType): CategoryRule => {
+  const version = CATEGORY_RULE_VERSION;
+  switch (type) {
+    case 'DURATION':
+      return { version, type, minMinutes: 60 };
+    case 'TIME_OF_DAY':
+      return { version, type, from: '09:00', to: '17:00' };
+    case 'REGEX':
+      // Collapsed spaces would change what a pattern like `\s{2}` matches
+      return 'field' in rule ? { ...rule, type, trimWhitespace: false } : createTextRule(type);
+    default:
+      return 'field' in rule ? { ...rule, type } : createTextRule(type);
+  }
+};
+
+const textOptions = [
+  { label: 'Match case', key: 'caseSensitive' },
+  { label: 'Trim spaces', key: 'trimWhitespace' },
+  { label: 'Ignore accents', key: 'normalizeUnicode' },
+  { label: 'Whole words', key: 'wholeWord' },
+] as const satisfies readonly { label: string; key: keyof TextCategoryRule }[];
+
+const textPlaceholders: Record<TextCategoryRule['type'], string> = {
+  CONTAINS: 'e.g., meeting',
+  STARTS_WITH: 'e.g., Work:',
+  ENDS_WITH: 'e.g., | Personal',
+  EQUALS: 'e.g., Gym',
+  REGEX: 'e.g., ^(Meeting|Call).*$',
+};
+
+const parseMinutesInput = (text: string): number | undefined => {
+  const minutes = parseInt(text, 10);
+  return Number.isNaN(minutes) ? undefined : minutes;
+};
+
 interface RuleItemProps {
   rule: CategoryRule;
   index: number;
+  calendars: DBCalendar[];
   onUpdate: (index: number, rule: CategoryRule) => void;
   onRemove: (index: number) => void;
 }
 
-const RuleItem: React.FC<RuleItemProps> = ({ rule, index, onUpdate, onRemove }) => {
-  const ruleTypes = [
-    { label: 'Contains', value: 'CONTAINS' },
-    { label: 'Starts with', value: 'STARTS_WITH' },
-    { label: 'Ends with', value: 'ENDS_WITH' },
-    { label: 'Equals', value: 'EQUALS' },
-    { label: 'Regex pattern', value: 'REGEX' },
-  ] as const;
-
-  const updateRuleType = (type: CategoryRule['type']) => {
-    onUpdate(index, { ...rule, type });
-  };
+const RuleItem: React.FC<RuleItemProps> = ({ rule, index, calendars, onUpdate, onRemove }) => {
+  const renderConditions = () => {
+    switch (rule.type) {
+      case 'DURATION':
+        return (
+          <View>
+            <Text className="mb-2 text-sm font-medium text-gray-700">Duration in Minutes</Text>
+            <View className="flex-row items-center">
+              <TextInput
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                value={rule.minMinutes?.toString() ?? ''}
+                onChangeText={(text) =>
+                  onUpdate(index, { ...rule, minMinutes: parseMinutesInput(text) })
+                }
+                placeholder="At least"
+                keyboardType="number-pad"
+              />
+              <Text className="mx-2 text-gray-500">to</Text>
+              <TextInput
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                value={rule.maxMinutes?.toString() ?? ''}
+                onChangeText={(text) =>
+                  onUpdate(index, { ...rule, maxMinutes: parseMinutesInput(text) })
+                }
+                placeholder="At most"
+                keyboardType="number-pad"
+              />
+            </View>
+            <Text className="mt-1 text-xs text-gray-500">
+              Leave one side empty for an open range. All-day events last 1440 minutes per day.
+            </Text>
+          </View>
+        );
 
-  const updateRuleContent = (content: string) => {
-    onUpdate(index, { ...rule, content });
-  };
+      case 'TIME_OF_DAY':
+        return (
+          <View>
+            <Text className="mb-2 text-sm font-medium text-gray-700">Starts Between</Text>
+            <View className="flex-row items-center">
+              <TextInput
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                value={rule.from}
+                onChangeText={(from) => onUpdate(index, { ...rule, from })}
+                placeholder="09:00"
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text className="mx-2 text-gray-500">and</Text>
+              <TextInput
+                className="flex-1 rounded-lg border border-gray-300 px-3 py-2"
+                value={rule.to}
+                onChangeText={(to) => onUpdate(index, { ...rule, to })}
+                placeholder="17:00"
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+            <Text className="mt-1 text-xs text-gray-500">
+              24-hour times in the calendar&apos;s time zone. A range like 22:00 to 06:00 spans
+              midnight.
+            </Text>
+          </View>
+        );
 
-  const showRuleTypeActionSheet = () => {
-    if (Platform.OS === 'ios') {
-      ActionSheetIOS.showActionSheetWithOptions(
-        {
-          options: ['Cancel', ...ruleTypes.map((type) => type.label)],
-          cancelButtonIndex: 0,
-        },
-        (buttonIndex) => {
-          if (buttonIndex > 0) {
-            updateRuleType(ruleTypes[buttonIndex - 1].value);
-          }
-        }
-      );
+      default:
+        return (
+          <>
+            <View className="mb-3">
+              <Text className="mb-2 text-sm font-medium text-gray-700">Field</Text>
+              <OptionPicker
+                options={ruleFields}
+                selectedValue={rule.field}
+                onChange={(field) => onUpdate(index, { ...rule, field })}
+              />
+            </View>
+
+            <View>
+              <Text className="mb-2 text-sm font-medium text-gray-700">
+                {rule.type === 'REGEX' ? 'Regex Pattern' : 'Text to Match'}
+              </Text>
+              {rule.field === 'calendarId' && rule.type === 'EQUALS' ? (
+                <OptionPicker
+                  options={calendars.map((calendar) => ({
+                    label: calendar.title,
+                    value: calendar.id,
+                  }))}
+                  selectedValue={rule.content}
+                  onChange={(content) => onUpdate(index, { ...rule, content })}
+                  placeholder="Select calendar"
+                />
+              ) : (
+                <TextInput
+                  className="rounded-lg border border-gray-300 px-3 py-2"
+                  value={rule.content}
+                  onChangeText={(content) => onUpdate(index, { ...rule, content })}
+                  placeholder={
+                    rule.field === 'eventType' ? 'e.g., focusTime' : textPlaceholders[rule.type]
+                  }
+                  autoCapitalize={rule.field === 'eventType' ? 'none' : 'sentences'}
+                  multiline={rule.type === 'REGEX'}
+                />
+              )}
+              {rule.type === 'REGEX' && (
+                <Text className="mt-1 text-xs text-gray-500">
+                  Use JavaScript regex syntax. Events with a matching field will be categorized.
+                </Text>
+              )}
+              {rule.field === 'eventType' && (
+                <Text className="mt-1 text-xs text-gray-500">
+                  Google Calendar types: default, focusTime, outOfOffice, workingLocation.
+                </Text>
+              )}
+            </View>
+
+            <View className="mt-3 flex-row flex-wrap">
+              {textOptions
+                // Whole words only narrows partial matches
+                .filter((option) => option.key !== 'wholeWord' || rule.type !== 'EQUALS')
+                .map((option) => {
+                  const enabled =
+                    option.key === 'caseSensitive'
+                      ? (rule.caseSensitive ?? rule.type !== 'REGEX')
+                      : !!rule[option.key];
+                  return (
+                    <TouchableOpacity
+                      key={option.key}
+                      onPress={() => onUpdate(index, { ...rule, [option.key]: !enabled })}
+                      className="mb-2 mr-4 flex-row items-center">
+                      <Ionicons
+                        name={enabled ? 'checkbox' : 'square-outline'}
+                        size={18}
+                        color={enabled ? '#3B82F6' : '#9CA3AF'}
+                      />
+                      <Text className="ml-1 text-sm text-gray-700">{option.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+            </View>
+          </>
+        );
     }
   };
 
-  const selectedRuleTypeLabel =
-    ruleTypes.find((type) => type.value === rule.type)?.label || 'Select type';
-
   return (
     <View className="mb-3 rounded-lg border border-gray-300 p-3">
       <View className="mb-3 flex-row items-center justify-between">
@@ -85,50 +324,139 @@ const RuleItem: React.FC<RuleItemProps> = ({ rule, index, onUpdate, onRemove })
 
       <View className="mb-3">
         <Text className="mb-2 text-sm font-medium text-gray-700">Match Type</Text>
-        {Platform.OS === 'ios' ? (
-          <TouchableOpacity
-            onPress={showRuleTypeActionSheet}
-            className="flex-row items-center justify-between rounded-lg border border-gray-300 px-3 py-3">
-            <Text className="text-base">{selectedRuleTypeLabel}</Text>
-            <Ionicons name="chevron-down" size={20} color="#666" />
-          </TouchableOpacity>
+        <OptionPicker
+          options={ruleTypes}
+          selectedValue={rule.type}
+          onChange={(type) => onUpdate(index, changeRuleType(rule, type))}
+          placeholder="Select type"
+        />
+      </View>
+
+      {renderConditions()}
+    </View>
+  );
+};
+
+const groupOperators = [
+  { label: 'All of these (AND)', value: 'AND' },
+  { label: 'Any of these (OR)', value: 'OR' },
+  { label: 'None of these (NOT)', value: 'NOT' },
+] as const satisfies readonly { label: string; value: RuleGroup['operator'] }[];
+
+// Deeper nesting gets too narrow to edit on a phone
+const MAX_GROUP_DEPTH = 3;
+
+const createRuleGroup = (): RuleGroup => ({
+  operator: 'AND',
+  children: [createTextRule()],
+});
+
+interface RuleNodeListProps {
+  nodes: RuleNode[];
+  depth: number;
+  calendars: DBCalendar[];
+  onChange: (nodes: RuleNode[]) => void;
+}
+
+const RuleNodeList: React.FC<RuleNodeListProps> = ({ nodes, depth, calendars, onChange }) => {
+  const updateNode = (index: number, node: RuleNode) => {
+    onChange(nodes.map((current, i) => (i === index ? node : current)));
+  };
+
+  const removeNode = (index: number) => {
+    onChange(nodes.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {nodes.map((node, index) =>
+        isRuleGroup(node) ? (
+          <RuleGroupItem
+            key={index}
+            group={node}
+            index={index}
+            depth={depth}
+            calendars={calendars}
+            onUpdate={updateNode}
+            onRemove={removeNode}
+          />
         ) : (
-          <View className="rounded-lg border border-gray-300">
-            <Picker selectedValue={rule.type} onValueChange={updateRuleType} style={{ height: 50 }}>
-              {ruleTypes.map((type) => (
-                <Picker.Item key={type.value} label={type.label} value={type.value} />
-              ))}
-            </Picker>
-          </View>
-        )}
+          <RuleItem
+            key={index}
+            rule={node}
+            index={index}
+            calendars={calendars}
+            onUpdate={updateNode}
+            onRemove={removeNode}
+          />
+        )
+      )}
+    </>
+  );
+};
+
+interface RuleGroupItemProps {
+  group: RuleGroup;
+  index: number;
+  depth: number;
+  calendars: DBCalendar[];
+  onUpdate: (index: number, group: RuleGroup) => void;
+  onRemove: (index: number) => void;
+}
+
+const RuleGroupItem: React.FC<RuleGroupItemProps> = ({
+  group,
+  index,
+  depth,
+  calendars,
+  onUpdate,
+  onRemove,
+}) => {
+  const updateChildren = (children: RuleNode[]) => {
+    onUpdate(index, { ...group, children });
+  };
+
+  return (
+    <View className="mb-3 rounded-lg border border-blue-200 bg-blue-50 p-3">
+      <View className="mb-3 flex-row items-center justify-between">
+        <Text className="font-medium text-gray-700">Group {index + 1}</Text>
+        <TouchableOpacity onPress={() => onRemove(index)} className="p-1">
+          <Ionicons name="close" size={20} color="#EF4444" />
+        </TouchableOpacity>
       </View>
 
-      <View>
-        <Text className="mb-2 text-sm font-medium text-gray-700">
-          {rule.type === 'REGEX' ? 'Regex Pattern' : 'Text to Match'}
-        </Text>
-        <TextInput
-          className="rounded-lg border border-gray-300 px-3 py-2"
-          value={rule.content}
-          onChangeText={updateRuleContent}
-          placeholder={
-            rule.type === 'CONTAINS'
-              ? 'e.g., meeting'
-              : rule.type === 'STARTS_WITH'
-                ? 'e.g., Work:'
-                : rule.type === 'ENDS_WITH'
-                  ? 'e.g., | Personal'
-                  : rule.type === 'EQUALS'
-                    ? 'e.g., Gym'
-                    : 'e.g., ^(Meeting|Call).*$'
-          }
-          multiline={rule.type === 'REGEX'}
+      <View className="mb-3 bg-white">
+        <OptionPicker
+          options={groupOperators}
+          selectedValue={group.operator}
+          onChange={(operator) => onUpdate(index, { ...group, operator })}
         />
-        {rule.type === 'REGEX' && (
-          <Text className="mt-1 text-xs text-gray-500">
-            Use JavaScript regex syntax. Events with titles matching this pattern will be
-            categorized.
-          </Text>
+      </View>
+
+      <RuleNodeList
+        nodes={group.children}
+        depth={depth + 1}
+        calendars={calendars}
+        onChange={updateChildren}
+      />
+      {group.children.length === 0 && (
+        <Text className="mb-3 text-sm text-gray-500">Add at least one rule to this group.</Text>
+      )}
+
+      <View className="flex-row">
+        <TouchableOpacity
+          onPress={() => updateChildren([...group.children, createTextRule()])}
+          className="mr-2 flex-row items-center rounded-lg border border-blue-500 px-3 py-1">
+          <Ionicons name="add" size={16} color="#3B82F6" />
+          <Text className="ml-1 text-sm text-blue-500">Rule</Text>
+        </TouchableOpacity>
+        {depth + 1 < MAX_GROUP_DEPTH && (
+          <TouchableOpacity
+            onPress={() => updateChildren([...group.children, createRuleGroup()])}
+            className="flex-row items-center rounded-lg border border-blue-500 px-3 py-1">
+            <Ionicons name="add" size={16} color="#3B82F6" />
+            <Text className="ml-1 text-sm text-blue-500">Group</Text>
+          </TouchableOpacity>
         )}
       </View>
     </View>
@@ -148,9 +476,10 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
   const [name, setName] = useState('');
   const [color, setColor] = useState('#3B82F6');
   const [priority, setPriority] = useState('0');
-  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [rules, setRules] = useState<RuleNode[]>([]);
   const [selectedParentId, setSelectedParentId] = useState<string | null>(null);
   const [allCategories, setAllCategories] = useState<CategoryWithChildren[]>([]);
+  const [calendars, setCalendars] = useState<DBCalendar[]>([]);
 
   const colors = [
     '#3B82F6',
@@ -202,7 +531,7 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
       setName(category.name);
       setColor(category.color);
       setPriority((category.priority ?? 0).toString());
-      setRules(category.rules || []);
+      setRules(normalizeCategoryRules(category.rules));
       setSelectedParentId(category.parentCategoryId || null);
     } else {
       setName('');
@@ -228,23 +557,34 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
     }
   }, [visible, category]);
 
-  const addRule = () => {
-    const newRule: CategoryRule = {
-      type: 'CONTAINS',
-      content: '',
-    };
-    setRules([...rules, newRule]);
-  };
+  // Calendars for rules matching on the calendar
+  useEffect(() => {
+    if (visible) {
+      new CalendarService(drizzleDB)
+        .getCalendars()
+        .then(setCalendars)
+        .catch((error) => console.error('Failed to load calendars for rules:', error));
+    }
+  }, [visible, drizzleDB]);
 
-  const updateRule = (index: number, updatedRule: CategoryRule) => {
-    const newRules = [...rules];
-    newRules[index] = updatedRule;
-    setRules(newRules);
+  // Unsaved form state for the live preview
+  const draft = useMemo(
+    () => ({
+      id: category?.id,
+      name: name.trim(),
+      color,
+      priority: parseInt(priority) || 0,
+      rules,
+    }),
+    [category?.id, name, color, priority, rules]
+  );
+
+  const addRule = () => {
+    setRules([...rules, createTextRule()]);
   };
 
-  const removeRule = (index: number) => {
-    const newRules = rules.filter((_, i) => i !== index);
-    setRules(newRules);
+  const addRuleGroup = () => {
+    setRules([...rules, createRuleGroup()]);
   };
 
   // Helper function to flatten categories tree for picker display
@@ -328,6 +668,16 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
       return;
     }
 
+    const invalidRule = rules.findIndex((rule) => !RuleNodeSchema.safeParse(rule).success);
+    if (invalidRule !== -1) {
+      Alert.alert(
+        'Error',
+        `${isRuleGroup(rules[invalidRule]) ? 'Group' : 'Rule'} ${invalidRule + 1} is incomplete. ` +
+          'Check times, duration limits and that no group is empty.'
+      );
+      return;
+    }
+
     const data = {
       name: name.trim(),
       color,
@@ -444,29 +794,37 @@ const CategoryForm: React.FC<CategoryFormProps> = ({
           <View className="mb-4">
             <View className="mb-3 flex-row items-center justify-between">
               <Text className="text-lg font-medium">Rules</Text>
-              <TouchableOpacity
-                onPress={addRule}
-                className="flex-row items-center rounded-lg bg-blue-500 px-3 py-2">
-                <Ionicons name="add" size={16} color="white" />
-                <Text className="ml-1 text-sm font-semibold text-white">Add Rule</Text>
-              </TouchableOpacity>
+              <View className="flex-row">
+                <TouchableOpacity
+                  onPress={addRuleGroup}
+                  className="mr-2 flex-row items-center rounded-lg border border-blue-500 px-3 py-2">
+                  <Ionicons name="add" size={16} color="#3B82F6" />
+                  <Text className="ml-1 text-sm font-semibold text-blue-500">Add Group</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={addRule}
+                  className="flex-row items-center rounded-lg bg-blue-500 px-3 py-2">
+                  <Ionicons name="add" size={16} color="white" />
+                  <Text className="ml-1 text-sm font-semibold text-white">Add Rule</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             {rules.length === 0 ? (
               <Text className="text-gray-500">
                 No rules defined. Events won&apos;t be automatically categorized.
               </Text>
             ) : (
-              rules.map((rule, index) => (
-                <RuleItem
-                  key={index}
-                  rule={rule}
-                  index={index}
-                  onUpdate={updateRule}
-                  onRemove={removeRule}
-                />
-              ))
+              <>
+                <Text className="mb-3 text-sm text-gray-600">
+                  The category applies when any rule or group matches. Use groups to combine rules
+                  with AND, OR and NOT.
+                </Text>
+                <RuleNodeList nodes={rules} depth={0} calendars={calendars} onChange={setRules} />
+              </>
             )}
           </View>
+
+          {visible && (rules.length > 0 || category) && <CategoryRulePreview draft={draft} />}
         </ScrollView>
       </View>
     </Modal>
@@ -546,11 +904,33 @@ const CategoryItem: React.FC<CategoryItemProps> = ({
   );
 };
 
-export const CategoriesManagement: React.FC = () => {
+const findCategoryById = (
+  categoryId: string,
+  categories: CategoryWithChildren[]
+): CategoryWithChildren | undefined => {
+  for (const category of categories) {
+    if (category.id === categoryId) return category;
+    const found = findCategoryById(categoryId, category.children);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+interface CategoriesManagementProps {
+  // Open the form for this category once categories are loaded
+  editCategoryId?: string;
+  onEditCategoryOpened?: () => void;
+}
+
+export const CategoriesManagement: React.FC<CategoriesManagementProps> = ({
+  editCategoryId,
+  onEditCategoryOpened,
+}) => {
   const { drizzle: drizzleDB } = useDrizzle();
   const [categoryService] = useState(() => new CategoryService(drizzleDB));
   const [categoryExportService] = useState(() => new CategoryExportService(drizzleDB));
   const [categoryImportService] = useState(() => new CategoryImportService(drizzleDB));
+  const [categorizationService] = useState(() => new EventCategorizationService(drizzleDB));
   const [categories, setCategories] = useState<CategoryWithChildren[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
@@ -575,20 +955,50 @@ export const CategoriesManagement: React.FC = () => {
     loadCategories();
   }, [loadCategories]);
 
+  // Opened from elsewhere to edit a specific category
+  useEffect(() => {
+    if (!editCategoryId) return;
+
+    const category = findCategoryById(editCategoryId, categories);
+    if (category) {
+      setEditingCategory(category);
+      setParentCategory(undefined);
+      setShowForm(true);
+      onEditCategoryOpened?.();
+    }
+  }, [editCategoryId, categories, onEditCategoryOpened]);
+
   const handleSave = async (
     data: CreateCategoryInput | { id: string; data: UpdateCategoryInput }
   ) => {
+    let savedId: string;
+    let priorityChanged = false;
     try {
       if ('id' in data) {
+        const previous = findCategoryById(data.id, categories);
+        priorityChanged = (previous?.priority ?? 0) !== (data.data.priority ?? 0);
         await categoryService.updateCategory(data.id, data.data);
+        savedId = data.id;
       } else {
-        await categoryService.createCategory(data);
+        savedId = (await categoryService.createCategory(data)).id;
       }
       await loadCategories();
       setEditingCategory(undefined);
       setParentCategory(undefined);
     } catch (error) {
       Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save category');
+      return;
+    }
+
+    // Only events the changed rules or priority can affect are evaluated again
+    try {
+      await categorizationService.recategorizeEventsForCategory(savedId);
+      if (priorityChanged) {
+        // Events that stay in the category win or lose overlapping time with it
+        await categorizationService.recalculateDurationsForCategory(savedId);
+      }
+    } catch (error) {
+      console.error('Failed to re-categorize events:', error);
     }
   };
 
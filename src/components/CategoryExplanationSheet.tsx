@@ -0,0 +1,237 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import type { Category } from '@/db/schema';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { CategoryService } from '@/services/category/CategoryService';
+import {
+  CategorySuggestionService,
+  type CategorySuggestion,
+} from '@/services/events/CategorySuggestionService';
+import {
+  EventCategorizationService,
+  type CategoryExplanation,
+} from '@/services/events/EventCategorizationService';
+import { describeRuleNode, isRuleGroup, type RuleNode } from '@/types/category_rule';
+
+interface CategoryExplanationSheetProps {
+  // The sheet is shown while an event is set
+  event: { id: string; title: string } | null;
+  onClose: () => void;
+}
+
+const CategoryLabel = ({ category }: { category: Category }) => (
+  <View className="flex-row items-center">
+    <View className="mr-2 h-3 w-3 rounded-full" style={{ backgroundColor: category.color }} />
+    <Text className="text-base font-medium text-gray-900">{category.name}</Text>
+  </View>
+);
+
+const RuleLine = ({ rule, index }: { rule: RuleNode; index: number }) => (
+  <Text className="mt-1 text-sm text-gray-600">
+    {isRuleGroup(rule) ? 'Group' : 'Rule'} {index + 1}: {describeRuleNode(rule)}
+  </Text>
+);
+
+const CategoryExplanationSheet = ({ event, onClose }: CategoryExplanationSheetProps) => {
+  const { drizzle: db } = useDrizzle();
+  const [service] = useState(() => new EventCategorizationService(db));
+  const [suggestionService] = useState(() => new CategorySuggestionService(db));
+  const [categoryService] = useState(() => new CategoryService(db));
+  const [explanation, setExplanation] = useState<CategoryExplanation | null>(null);
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
+  const [isCreatingRule, setIsCreatingRule] = useState(false);
+  // Bumped to explain the event again after it changed
+  const [revision, setRevision] = useState(0);
+  const eventId = event?.id;
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let isCurrent = true;
+    setExplanation(null);
+    setSuggestion(null);
+    service
+      .explainCategory(eventId)
+      .then(async (result) => {
+        if (!isCurrent) return;
+        setExplanation(result);
+        if (result.kind === 'none') {
+          suggestionService.reset();
+          const suggested = await suggestionService.suggestCategory(eventId);
+          if (isCurrent) setSuggestion(suggested);
+        }
+      })
+      .catch((error) => console.error('Failed to explain category:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [service, suggestionService, eventId, revision]);
+
+  const handleCreateRule = async ({ category, rule }: CategorySuggestion) => {
+    if (!rule) return;
+
+    setIsCreatingRule(true);
+    try {
+      await categoryService.addRule(category.id, rule);
+      await service.recategorizeEventsForCategory(category.id);
+      setRevision((current) => current + 1);
+    } catch (error) {
+      console.error('Failed to create rule:', error);
+      Alert.alert('Error', 'Failed to create the rule');
+    } finally {
+      setIsCreatingRule(false);
+    }
+  };
+
+  const renderSuggestion = () => {
+    if (!suggestion) return null;
+
+    return (
+      <View className="mb-4 rounded-lg border border-blue-200 bg-blue-50 p-3">
+        <Text className="mb-2 text-sm font-medium text-blue-800">
+          Suggested · {Math.round(suggestion.confidence * 100)}% confident
+        </Text>
+        <CategoryLabel category={suggestion.category} />
+        <Text className="mt-1 text-sm text-gray-600">
+          Based on {suggestion.supportCount} similar event
+          {suggestion.supportCount === 1 ? '' : 's'} you categorized manually.
+        </Text>
+        {suggestion.rule ? (
+          <>
+            <Text className="mt-2 text-sm text-gray-700">
+              Rule: {describeRuleNode(suggestion.rule)}
+            </Text>
+            <TouchableOpacity
+              onPress={() => handleCreateRule(suggestion)}
+              disabled={isCreatingRule}
+              className={`mt-3 items-center rounded-lg py-2 ${
+                isCreatingRule ? 'bg-gray-300' : 'bg-blue-500'
+              }`}>
+              <Text className="font-medium text-white">
+                {isCreatingRule ? 'Creating rule...' : 'Create a rule from this'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <Text className="mt-2 text-xs text-gray-500">
+            No title word or calendar is typical enough of this category for a rule yet.
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderExplanation = () => {
+    if (!explanation) {
+      return <ActivityIndicator className="mt-8" size="large" color="#3B82F6" />;
+    }
+
+    switch (explanation.kind) {
+      case 'manual':
+        return (
+          <View>
+            <View className="mb-2 flex-row items-center">
+              <Ionicons name="hand-left-outline" size={18} color="#6B7280" />
+              <Text className="ml-2 text-base text-gray-900">Assigned manually</Text>
+            </View>
+            {explanation.category ? (
+              <CategoryLabel category={explanation.category} />
+            ) : (
+              <Text className="text-gray-600">Marked as uncategorized.</Text>
+            )}
+            <Text className="mt-3 text-sm text-gray-500">
+              Category rules never change a manual assignment.
+            </Text>
+          </View>
+        );
+
+      case 'rule':
+        return (
+          <View>
+            <Text className="mb-2 text-base text-gray-900">Assigned by a rule of</Text>
+            <CategoryLabel category={explanation.category} />
+            {explanation.match ? (
+              <>
+                {explanation.match.rules.map((rule, i) => (
+                  <RuleLine
+                    key={explanation.match!.ruleIndexes[i]}
+                    rule={rule}
+                    index={explanation.match!.ruleIndexes[i]}
+                  />
+                ))}
+                {explanation.isRecorded && (
+                  <Text className="mt-3 text-xs text-gray-400">
+                    Categorized {new Date(explanation.match.categorizedAt).toLocaleString()}
+                  </Text>
+                )}
+              </>
+            ) : (
+              <Text className="mt-2 text-sm text-amber-600">
+                None of the current rules match this event any more. Use &quot;ReApply
+                Categories&quot; to update it.
+              </Text>
+            )}
+          </View>
+        );
+
+      case 'none':
+        return (
+          <View>
+            <Text className="mb-3 text-base text-gray-900">No category rule matched.</Text>
+            {renderSuggestion()}
+            {explanation.nearMisses.length === 0 ? (
+              <Text className="text-sm text-gray-500">No rule came close either.</Text>
+            ) : (
+              <>
+                <Text className="mb-2 text-sm font-medium text-gray-700">Near misses</Text>
+                {explanation.nearMisses.map((nearMiss) => (
+                  <View
+                    key={`${nearMiss.category.id}-${nearMiss.ruleIndex}`}
+                    className="mb-3 rounded-lg border border-gray-200 p-3">
+                    <CategoryLabel category={nearMiss.category} />
+                    <RuleLine rule={nearMiss.rule} index={nearMiss.ruleIndex} />
+                    <Text className="mt-1 text-sm text-amber-600">{nearMiss.reason}</Text>
+                  </View>
+                ))}
+              </>
+            )}
+          </View>
+        );
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!event}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="flex-row items-center justify-between border-b border-gray-200 p-4">
+          <Text className="text-xl font-semibold">Why this category?</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text className="text-lg text-blue-500">Done</Text>
+          </TouchableOpacity>
+        </View>
+        <ScrollView className="flex-1 p-4">
+          <Text className="mb-4 text-lg font-medium text-gray-900" numberOfLines={2}>
+            {event?.title}
+          </Text>
+          {renderExplanation()}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+export default CategoryExplanationSheet;
@@ -0,0 +1,85 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState, type ReactNode } from 'react';
+import { ActivityIndicator, Modal, ScrollView, Text, TouchableOpacity, View } from 'react-native';
+import type { Category } from '@/db/schema';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { CategoryService, type CategoryWithChildren } from '@/services/category/CategoryService';
+
+interface CategoryPickerProps {
+  visible: boolean;
+  title?: string;
+  selectedCategoryId?: string | null;
+  onSelect: (category: Category) => void;
+  onClose: () => void;
+}
+
+const CategoryPicker = ({
+  visible,
+  title = 'Choose Category',
+  selectedCategoryId,
+  onSelect,
+  onClose,
+}: CategoryPickerProps) => {
+  const { drizzle: db } = useDrizzle();
+  const [categoryService] = useState(() => new CategoryService(db));
+  const [tree, setTree] = useState<CategoryWithChildren[] | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    categoryService
+      .getCategoriesTree()
+      .then(setTree)
+      .catch((error) => console.error('Failed to load categories:', error));
+  }, [categoryService, visible]);
+
+  const renderCategory = (category: CategoryWithChildren, depth: number): ReactNode => {
+    const isSelected = category.id === selectedCategoryId;
+    // Hand back a plain category, without the nested children
+    const { children, ...plain } = category;
+
+    return (
+      <View key={category.id}>
+        <TouchableOpacity
+          onPress={() => onSelect(plain)}
+          className={`flex-row items-center border-b border-gray-100 py-3 pr-4 ${
+            isSelected ? 'bg-blue-50' : ''
+          }`}
+          style={{ paddingLeft: 16 + depth * 20 }}>
+          <View className="mr-3 h-4 w-4 rounded-full" style={{ backgroundColor: category.color }} />
+          <Text className="flex-1 text-base text-gray-900">{category.name}</Text>
+          {isSelected && <Ionicons name="checkmark" size={20} color="#3B82F6" />}
+        </TouchableOpacity>
+        {children.map((child) => renderCategory(child, depth + 1))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="flex-row items-center justify-between border-b border-gray-200 p-4">
+          <Text className="text-xl font-semibold">{title}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text className="text-lg text-blue-500">Cancel</Text>
+          </TouchableOpacity>
+        </View>
+        {!tree ? (
+          <ActivityIndicator className="mt-8" size="large" color="#3B82F6" />
+        ) : tree.length === 0 ? (
+          <Text className="p-4 text-gray-600">Create a category first.</Text>
+        ) : (
+          <ScrollView className="flex-1">
+            {tree.map((category) => renderCategory(category, 0))}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+export default CategoryPicker;
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Text, TouchableOpacity, View } from 'react-native';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { usePrimaryTimezone } from '@/hooks/usePrimaryTimezone';
+import { addToDate } from '@/services/calendar/timezone';
+import {
+  EventCategorizationService,
+  type CategoryDraft,
+  type RulePreview,
+} from '@/services/events/EventCategorizationService';
+import type { DBEvent } from '@/db/schema';
+import { RuleNodeSchema } from '@/types/category_rule';
+
+const periods = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+] as const;
+
+const SAMPLE_SIZE = 5;
+// Wait for a pause in typing before running the rules over all events
+const PREVIEW_DEBOUNCE_MS = 400;
+
+interface CategoryRulePreviewProps {
+  draft: CategoryDraft;
+}
+
+const CategoryRulePreview = ({ draft }: CategoryRulePreviewProps) => {
+  const { drizzle: db } = useDrizzle();
+  const timeZone = usePrimaryTimezone();
+  const [service] = useState(() => new EventCategorizationService(db));
+  const [days, setDays] = useState<number>(30);
+  // Events of the chosen period, the draft's rules are matched against them on every edit
+  const [candidates, setCandidates] = useState<DBEvent[] | null>(null);
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Only the latest run may update the preview
+  const runRef = useRef(0);
+
+  const isValid = draft.rules.every((rule) => RuleNodeSchema.safeParse(rule).success);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setCandidates(null);
+
+    const end = new Date();
+    const start = addToDate(end, { days: -days }, timeZone);
+    service
+      .getPreviewEvents({ start, end })
+      .then((loaded) => {
+        if (isCurrent) setCandidates(loaded);
+      })
+      .catch((error) => console.error('Failed to load events for the preview:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [service, days, timeZone]);
+
+  useEffect(() => {
+    if (!isValid || !candidates) return;
+
+    const run = ++runRef.current;
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const result = await service.previewRules(draft, candidates);
+        if (run === runRef.current) setPreview(result);
+      } catch (error) {
+        console.error('Failed to preview category rules:', error);
+      } finally {
+        if (run === runRef.current) setIsLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [service, draft, candidates, isValid]);
+
+  const formatDate = (date: Date | null) =>
+    date?.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone }) ?? '';
+
+  return (
+    <View className="mb-8 rounded-lg bg-gray-50 p-3">
+      <View className="mb-3 flex-row items-center justify-between">
+        <Text className="text-lg font-medium">Preview</Text>
+        {(isLoading || !candidates) && <ActivityIndicator size="small" />}
+      </View>
+
+      <View className="mb-3 flex-row">
+        {periods.map((period) => (
+          <TouchableOpacity
+            key={period.days}
+            onPress={() => setDays(period.days)}
+            className={`mr-2 rounded-full px-3 py-1 ${
+              days === period.days ? 'bg-blue-500' : 'border border-gray-300 bg-white'
+            }`}>
+            <Text className={`text-sm ${days === period.days ? 'text-white' : 'text-gray-700'}`}>
+              Last {period.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {!isValid ? (
+        <Text className="text-sm text-gray-500">Finish editing the rules to see a preview.</Text>
+      ) : !preview ? (
+        <Text className="text-sm text-gray-500">Checking events...</Text>
+      ) : (
+        <View>
+          <Text className="text-sm text-gray-700">
+            {preview.matching} of {preview.total} events would be in this category.
+          </Text>
+          <Text className="mt-1 text-sm text-gray-700">
+            {preview.newlyMatching.length} newly matched
+            {preview.leaving.length > 0 && `, ${preview.leaving.length} would no longer match`}.
+          </Text>
+
+          {preview.movedFrom.map(({ category, count }) => (
+            <View key={category.id} className="mt-1 flex-row items-center">
+              <View
+                className="mr-2 h-3 w-3 rounded-full"
+                style={{ backgroundColor: category.color }}
+              />
+              <Text className="text-sm text-gray-600">
+                {count} taken from {category.name}
+              </Text>
+            </View>
+          ))}
+
+          {preview.newlyMatching.length > 0 && (
+            <View className="mt-3">
+              <Text className="mb-1 text-sm font-medium text-gray-700">Newly matched</Text>
+              {preview.newlyMatching.slice(0, SAMPLE_SIZE).map(({ event, fromCategory }) => (
+                <View key={event.id} className="flex-row justify-between py-1">
+                  <Text className="mr-2 flex-1 text-sm text-gray-900" numberOfLines={1}>
+                    {event.title}
+                  </Text>
+                  <Text className="text-xs text-gray-500">
+                    {formatDate(event.start)} · {fromCategory?.name ?? 'uncategorized'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {preview.leaving.length > 0 && (
+            <View className="mt-3">
+              <Text className="mb-1 text-sm font-medium text-gray-700">No longer matched</Text>
+              {preview.leaving.slice(0, SAMPLE_SIZE).map(({ event, toCategory }) => (
+                <View key={event.id} className="flex-row justify-between py-1">
+                  <Text className="mr-2 flex-1 text-sm text-gray-900" numberOfLines={1}>
+                    {event.title}
+                  </Text>
+                  <Text className="text-xs text-gray-500">
+                    {formatDate(event.start)} → {toCategory?.name ?? 'uncategorized'}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+export default CategoryRulePreview;
@@ -0,0 +1,263 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  Switch,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import CategoryExplanationSheet from '@/components/CategoryExplanationSheet';
+import CategoryPicker from '@/components/CategoryPicker';
+import type { Category } from '@/db/schema';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import {
+  EventCategorizationService,
+  type ManualAssignmentScope,
+} from '@/services/events/EventCategorizationService';
+import { EventDurationService } from '@/services/events/EventDurationService';
+import { EventsService, type EventWithCategory } from '@/services/events/EventsService';
+
+interface EventDetailSheetProps {
+  // The sheet is shown while an event is set
+  event: EventWithCategory | null;
+  // Zone the times are shown in, the device zone when omitted
+  timeZone?: string;
+  onClose: () => void;
+}
+
+const formatWhen = (event: EventWithCategory, timeZone?: string) => {
+  if (!event.start) return '';
+
+  const date = event.start.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone,
+  });
+  if (event.isAllDay || !event.end) {
+    return `${date} · All Day`;
+  }
+
+  const formatTime = (time: Date) =>
+    time.toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone,
+    });
+  return `${date} · ${formatTime(event.start)} - ${formatTime(event.end)}`;
+};
+
+const EventDetailSheet = ({ event, timeZone, onClose }: EventDetailSheetProps) => {
+  const { drizzle: db } = useDrizzle();
+  const [service] = useState(() => new EventCategorizationService(db));
+  const [eventsService] = useState(() => new EventsService(db));
+  const [durationService] = useState(() => new EventDurationService(db));
+  // Refreshed after every change, the given event is a snapshot
+  const [current, setCurrent] = useState<EventWithCategory | null>(event);
+  const [isPickerVisible, setIsPickerVisible] = useState(false);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrent(event);
+  }, [event]);
+
+  // Instances of a recurring event can be changed one by one or all together
+  const chooseScope = (
+    title: string,
+    message: string,
+    onChoose: (scope: ManualAssignmentScope) => void
+  ) => {
+    if (!current?.recurringEventId) {
+      onChoose('instance');
+      return;
+    }
+
+    Alert.alert(title, `${message} only this event or every event of the series?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'This event', onPress: () => onChoose('instance') },
+      { text: 'All events', onPress: () => onChoose('series') },
+    ]);
+  };
+
+  const applyChange = async (
+    eventId: string,
+    change: () => Promise<unknown>,
+    errorMessage = 'Failed to change the category'
+  ) => {
+    setIsSaving(true);
+    try {
+      await change();
+      const [fresh] = await eventsService.getEventsByIds([eventId]);
+      if (fresh) setCurrent(fresh);
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      Alert.alert('Error', errorMessage);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePick = (category: Category) => {
+    setIsPickerVisible(false);
+    if (!current) return;
+
+    const eventId = current.id;
+    chooseScope('Assign Category', `Assign ${category.name} to`, (scope) =>
+      applyChange(eventId, () => service.manuallyAssignCategory(eventId, category.id, scope))
+    );
+  };
+
+  const handleResetToAutomatic = () => {
+    if (!current) return;
+
+    const eventId = current.id;
+    chooseScope('Reset to Automatic', 'Let the category rules decide for', (scope) =>
+      applyChange(eventId, () => service.resetToAutomatic(eventId, scope))
+    );
+  };
+
+  const handleBackgroundChange = (isBackground: boolean) => {
+    if (!current) return;
+
+    const eventId = current.id;
+    chooseScope(
+      'Background Event',
+      isBackground ? 'Let other events take the time of' : 'Stop yielding time for',
+      (scope) =>
+        applyChange(
+          eventId,
+          () => durationService.setBackground(eventId, isBackground, scope),
+          'Failed to update the event'
+        )
+    );
+  };
+
+  const renderCategory = (shown: EventWithCategory) => (
+    <View className="mb-4 rounded-lg border border-gray-200 p-3">
+      <View className="flex-row items-center">
+        {shown.category ? (
+          <>
+            <View
+              className="mr-2 h-3 w-3 rounded-full"
+              style={{ backgroundColor: shown.category.color }}
+            />
+            <Text className="flex-1 text-base font-medium text-gray-900">
+              {shown.category.name}
+            </Text>
+          </>
+        ) : (
+          <Text className="flex-1 text-base text-gray-500">Uncategorized</Text>
+        )}
+        {isSaving && <ActivityIndicator size="small" color="#3B82F6" />}
+      </View>
+      {shown.category && (
+        <View className="mt-1 flex-row items-center">
+          <Ionicons
+            name={shown.isManuallyCategorized ? 'hand-left-outline' : 'git-branch-outline'}
+            size={14}
+            color="#6B7280"
+          />
+          <Text className="ml-1 text-sm text-gray-600">
+            {shown.isManuallyCategorized ? 'Assigned manually' : 'Assigned by category rules'}
+          </Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        onPress={() => setIsPickerVisible(true)}
+        disabled={isSaving}
+        className={`mt-3 items-center rounded-lg py-2 ${isSaving ? 'bg-gray-300' : 'bg-blue-500'}`}>
+        <Text className="font-medium text-white">Change category</Text>
+      </TouchableOpacity>
+      {shown.isManuallyCategorized && (
+        <TouchableOpacity
+          onPress={handleResetToAutomatic}
+          disabled={isSaving}
+          className="mt-2 items-center rounded-lg border border-blue-500 py-2">
+          <Text className="font-medium text-blue-500">Reset to automatic</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        onPress={() => setIsExplaining(true)}
+        className="mt-3 flex-row items-center justify-center">
+        <Ionicons name="information-circle-outline" size={16} color="#3B82F6" />
+        <Text className="ml-1 text-sm text-blue-500">Why this category?</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={!!event}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}>
+      <View className="flex-1 bg-white">
+        <View className="flex-row items-center justify-between border-b border-gray-200 p-4">
+          <Text className="text-xl font-semibold">Event</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text className="text-lg text-blue-500">Done</Text>
+          </TouchableOpacity>
+        </View>
+        {current && (
+          <ScrollView className="flex-1 p-4">
+            <Text className="text-lg font-medium text-gray-900">{current.title}</Text>
+            <View className="mb-4 mt-1">
+              <View className="flex-row items-center">
+                <Ionicons name="time-outline" size={14} color="#6B7280" />
+                <Text className="ml-1 text-sm text-gray-600">{formatWhen(current, timeZone)}</Text>
+              </View>
+              {current.recurringEventId && (
+                <View className="mt-1 flex-row items-center">
+                  <Ionicons name="repeat-outline" size={14} color="#6B7280" />
+                  <Text className="ml-1 text-sm text-gray-600">Part of a recurring series</Text>
+                </View>
+              )}
+            </View>
+
+            {renderCategory(current)}
+
+            <View className="mb-4 flex-row items-center rounded-lg border border-gray-200 p-3">
+              <View className="mr-3 flex-1">
+                <Text className="text-base text-gray-900">Background event</Text>
+                <Text className="text-sm text-gray-500">
+                  Overlapping events take its time, e.g. working hours
+                </Text>
+              </View>
+              <Switch
+                value={current.isBackground}
+                disabled={isSaving}
+                onValueChange={handleBackgroundChange}
+              />
+            </View>
+
+            {current.description && (
+              <Text className="mb-8 text-sm text-gray-600">{current.description}</Text>
+            )}
+          </ScrollView>
+        )}
+      </View>
+
+      <CategoryPicker
+        visible={isPickerVisible}
+        title="Assign Category"
+        selectedCategoryId={current?.categoryId}
+        onSelect={handlePick}
+        onClose={() => setIsPickerVisible(false)}
+      />
+      <CategoryExplanationSheet
+        event={isExplaining ? current : null}
+        onClose={() => setIsExplaining(false)}
+      />
+    </Modal>
+  );
+};
+
+export default EventDetailSheet;
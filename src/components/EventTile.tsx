@@ -5,10 +5,15 @@ import type { EventWithCategory } from '@/services/events/EventsService';
 
 interface EventTileProps {
   event: EventWithCategory;
+  // Zone the times are shown in, the device zone when omitted
+  timeZone?: string;
   onPress?: (event: EventWithCategory) => void;
+  // Shows a "why this category?" button on the category label
+  onExplainCategory?: (event: EventWithCategory) => void;
 }
 
-export const EventTile: React.FC<EventTileProps> = React.memo(({ event, onPress }) => {
+export const EventTile: React.FC<EventTileProps> = React.memo((props) => {
+  const { event, timeZone, onPress, onExplainCategory } = props;
   const formattedTime = useMemo((): string => {
     if (event.isAllDay) {
       return 'All Day';
@@ -22,16 +27,18 @@ export const EventTile: React.FC<EventTileProps> = React.memo(({ event, onPress
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone,
     });
 
     const endTime = event.end.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone,
     });
 
     return `${startTime} - ${endTime}`;
-  }, [event.isAllDay, event.start, event.end]);
+  }, [event.isAllDay, event.start, event.end, timeZone]);
 
   const categoryStyle = useMemo(() => {
     if (event.category) {
@@ -53,6 +60,10 @@ export const EventTile: React.FC<EventTileProps> = React.memo(({ event, onPress
     }
   }, [onPress, event]);
 
+  const handleExplainCategory = useCallback(() => {
+    onExplainCategory?.(event);
+  }, [onExplainCategory, event]);
+
   return (
     <TouchableOpacity
       onPress={handlePress}
@@ -89,22 +100,36 @@ export const EventTile: React.FC<EventTileProps> = React.memo(({ event, onPress
         </View>
 
         <View className="items-end">
-          {event.category ? (
-            <View className="flex-row items-center">
-              <View
-                className="mr-2 h-3 w-3 rounded-full"
-                style={{ backgroundColor: event.category.color }}
+          <TouchableOpacity
+            onPress={handleExplainCategory}
+            disabled={!onExplainCategory}
+            accessibilityLabel="Why this category?"
+            className="flex-row items-center">
+            {event.category ? (
+              <>
+                <View
+                  className="mr-2 h-3 w-3 rounded-full"
+                  style={{ backgroundColor: event.category.color }}
+                />
+                <Text className="text-xs text-gray-600" numberOfLines={1}>
+                  {event.category.name}
+                </Text>
+              </>
+            ) : (
+              <>
+                <Ionicons name="help-circle-outline" size={14} color="#9CA3AF" />
+                <Text className="ml-1 text-xs text-gray-400">Uncategorized</Text>
+              </>
+            )}
+            {onExplainCategory && (
+              <Ionicons
+                name="information-circle-outline"
+                size={14}
+                color="#9CA3AF"
+                style={{ marginLeft: 4 }}
               />
-              <Text className="text-xs text-gray-600" numberOfLines={1}>
-                {event.category.name}
-              </Text>
-            </View>
-          ) : (
-            <View className="flex-row items-center">
-              <Ionicons name="help-circle-outline" size={14} color="#9CA3AF" />
-              <Text className="ml-1 text-xs text-gray-400">Uncategorized</Text>
-            </View>
-          )}
+            )}
+          </TouchableOpacity>
 
           {event.effectiveDuration > 0 && (
             <Text className="mt-1 text-xs text-gray-400">
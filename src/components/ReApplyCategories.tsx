@@ -8,6 +8,8 @@ import {
 
 const ReApplyCategories = () => {
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [categorizationStats, setCategorizationStats] = useState<CategorizationStats | null>(null);
   const { drizzle: db } = useDrizzle();
   const eventCategorizationService = useRef(new EventCategorizationService(db));
@@ -25,14 +27,30 @@ const ReApplyCategories = () => {
   }, [isLoading]);
 
   const reApplyCategories = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsLoading(true);
+    setProgress(null);
     await new Promise((r) => setTimeout(r, 10));
-    const service = eventCategorizationService.current;
-    await service.getCategories(true);
-    await service.categorizeEvents();
-    setIsLoading(false);
+    try {
+      const service = eventCategorizationService.current;
+      await service.getCategories(true);
+      await service.categorizeEvents(undefined, {
+        signal: abortController.signal,
+        onProgress: (completed, total) => setProgress({ completed, total }),
+      });
+    } catch (error) {
+      console.error('Failed to re-apply categories:', error);
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+      setIsLoading(false);
+    }
   };
 
+  // Batches already written stay categorized
+  const cancel = () => abortControllerRef.current?.abort();
+
   return (
     <View className="mb-6">
       <Text className="mb-2 text-base font-bold">Event Categorization</Text>
@@ -42,6 +60,24 @@ const ReApplyCategories = () => {
         title={isLoading ? 'Loading...' : 'ReApply Categories'}
         onPress={reApplyCategories}
       />
+      {isLoading && (
+        <View className="mt-3">
+          <View className="h-2 overflow-hidden rounded-full bg-gray-200">
+            <View
+              className="h-full bg-blue-500"
+              style={{
+                width: `${progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%`,
+              }}
+            />
+          </View>
+          <View className="mt-1 flex-row items-center justify-between">
+            <Text className="text-xs text-gray-600">
+              {progress ? `${progress.completed} of ${progress.total} events` : 'Starting...'}
+            </Text>
+            <Button title="Cancel" onPress={cancel} />
+          </View>
+        </View>
+      )}
       {categorizationStats && (
         <View className="mt-3 rounded bg-gray-100 p-2">
           <Text className="text-sm font-medium">Stats:</Text>
@@ -0,0 +1,58 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import { useDrizzle } from '@/db/SQLiteProvider';
+import { SettingsService } from '@/services/settings/SettingsService';
+import { DEFAULT_SETTINGS, type SettingKey, type Settings } from '@/types/settings';
+
+interface SettingsContextType {
+  settings: Settings;
+  isLoaded: boolean;
+  updateSetting: <K extends SettingKey>(key: K, value: Settings[K]) => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { drizzle, isReady: dbReady } = useDrizzle();
+  const [settingsService] = useState(() => new SettingsService(drizzle));
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!dbReady) return;
+
+    settingsService
+      .getSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Failed to load settings:', error))
+      .finally(() => setIsLoaded(true));
+  }, [dbReady, settingsService]);
+
+  const updateSetting = useCallback(
+    async <K extends SettingKey>(key: K, value: Settings[K]): Promise<void> => {
+      await settingsService.updateSetting(key, value);
+      setSettings((prev) => ({ ...prev, [key]: value }));
+    },
+    [settingsService]
+  );
+
+  return (
+    <SettingsContext.Provider value={{ settings, isLoaded, updateSetting }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings(): SettingsContextType {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
@@ -82,6 +82,24 @@ const SyncCalendarsButton = () => {
               <Text className="text-xs text-gray-600">
                 Calendars: {lastSyncInfo.calendarsSynced}, Events: {lastSyncInfo.eventsSynced}
               </Text>
+              {lastSyncInfo.manualCategorizations && (
+                <Text className="text-xs text-gray-600">
+                  Manual categories restored: {lastSyncInfo.manualCategorizations.restored}
+                  {lastSyncInfo.manualCategorizations.unrestored > 0 &&
+                    `, not restored: ${lastSyncInfo.manualCategorizations.unrestored}`}
+                </Text>
+              )}
+              {!!lastSyncInfo.outbox?.conflicts && (
+                <Text className="text-xs text-gray-600">
+                  Local edits replaced by remote changes: {lastSyncInfo.outbox.conflicts}
+                </Text>
+              )}
+              {!!lastSyncInfo.unresolvedConflicts && (
+                <Text className="text-xs text-red-600">
+                  Conflicting edits not resolved yet: {lastSyncInfo.unresolvedConflicts}, retried on
+                  the next sync
+                </Text>
+              )}
               {lastSyncInfo.errors.length > 0 && (
                 <Text className="text-xs text-red-600">Errors: {lastSyncInfo.errors.length}</Text>
               )}
@@ -3,6 +3,7 @@ import { View, Text, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import {
   CategoryReportService,
+  type CategoryDelta,
   type CategoryReport,
 } from '@/services/reporting/CategoryReportService';
 
@@ -10,16 +11,39 @@ interface CategoryListProps {
   categoryReports: CategoryReport[];
   onCategoryPress: (categoryReport: CategoryReport) => void;
   emptyMessage: string;
+  // Change from the previous range by category id, shown when comparing
+  deltas?: Record<string, CategoryDelta>;
 }
 
 interface CategoryListItemProps {
   categoryReport: CategoryReport;
   onPress: () => void;
   rank: number;
+  delta?: CategoryDelta;
 }
 
-function CategoryListItem({ categoryReport, onPress, rank }: CategoryListItemProps) {
-  const { category, totalDuration, totalEventCount } = categoryReport;
+function DeltaText({ delta }: { delta: CategoryDelta }) {
+  const { change, percentChange } = delta;
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '±';
+  const percentage =
+    percentChange === null
+      ? change > 0
+        ? 'new'
+        : null
+      : `${percentChange > 0 ? '+' : ''}${Math.round(percentChange)}%`;
+  const color = change > 0 ? 'text-emerald-600' : change < 0 ? 'text-rose-600' : 'text-gray-500';
+
+  return (
+    <Text className={`text-sm ${color}`}>
+      {sign}
+      {CategoryReportService.formatDuration(Math.abs(change))}
+      {percentage && ` (${percentage})`}
+    </Text>
+  );
+}
+
+function CategoryListItem({ categoryReport, onPress, rank, delta }: CategoryListItemProps) {
+  const { category, totalDuration, totalEventCount, estimatedDuration } = categoryReport;
   const hasChildren = categoryReport.children.length > 0;
 
   // Calculate percentage based on all siblings
@@ -48,7 +72,14 @@ function CategoryListItem({ categoryReport, onPress, rank }: CategoryListItemPro
           <Text className="text-sm text-gray-500">
             {totalEventCount} {totalEventCount === 1 ? 'event' : 'events'}
           </Text>
+          {delta && <DeltaText delta={delta} />}
         </View>
+        {estimatedDuration > 0 && (
+          <Text className="mt-1 text-xs text-amber-600">
+            incl. ~{CategoryReportService.formatDuration(estimatedDuration)} estimated from all-day
+            events
+          </Text>
+        )}
       </View>
 
       {/* Arrow Icon */}
@@ -61,10 +92,15 @@ export function CategoryList({
   categoryReports,
   onCategoryPress,
   emptyMessage,
+  deltas,
 }: CategoryListProps) {
-  // Filter out categories with zero duration and sort by duration descending
+  // Filter out categories with zero duration, unless they had time in the compared range,
+  // and sort by duration descending
   const sortedReports = categoryReports
-    .filter((report) => report.totalDuration > 0)
+    .filter(
+      (report) =>
+        report.totalDuration > 0 || (deltas?.[report.category.id]?.previousDuration ?? 0) > 0
+    )
     .sort((a, b) => {
       if (a.isDummyParent && !b.isDummyParent) return -1; // a comes first
       if (!a.isDummyParent && b.isDummyParent) return 1; // b comes first
@@ -86,6 +122,7 @@ export function CategoryList({
       categoryReport={item}
       onPress={() => onCategoryPress(item)}
       rank={index + 1}
+      delta={deltas?.[item.category.id]}
     />
   );
 
@@ -93,6 +130,21 @@ export function CategoryList({
     return sortedReports.reduce((sum, report) => sum + report.totalDuration, 0);
   };
 
+  const getEstimatedDuration = () => {
+    return sortedReports.reduce((sum, report) => sum + report.estimatedDuration, 0);
+  };
+
+  const getTotalDelta = (comparedDeltas: Record<string, CategoryDelta>): CategoryDelta => {
+    const changes = Object.values(comparedDeltas);
+    const previousDuration = changes.reduce((sum, delta) => sum + delta.previousDuration, 0);
+    const change = changes.reduce((sum, delta) => sum + delta.change, 0);
+    return {
+      previousDuration,
+      change,
+      percentChange: previousDuration > 0 ? (change / previousDuration) * 100 : null,
+    };
+  };
+
   return (
     <View className="flex-1 bg-white">
       {/* Header */}
@@ -102,6 +154,18 @@ export function CategoryList({
           Total: {CategoryReportService.formatDuration(getTotalDuration())} across{' '}
           {sortedReports.length} {sortedReports.length === 1 ? 'category' : 'categories'}
         </Text>
+        {deltas && (
+          <View className="mt-1 flex-row items-center">
+            <Text className="text-sm text-gray-600">vs previous period: </Text>
+            <DeltaText delta={getTotalDelta(deltas)} />
+          </View>
+        )}
+        {getEstimatedDuration() > 0 && (
+          <Text className="mt-1 text-xs text-amber-600">
+            Includes ~{CategoryReportService.formatDuration(getEstimatedDuration())} estimated from
+            all-day events
+          </Text>
+        )}
       </View>
 
       {/* Category List */}
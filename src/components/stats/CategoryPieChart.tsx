@@ -56,11 +56,20 @@ export function CategoryPieChart({ categoryReports }: CategoryPieChartProps) {
     return CategoryReportService.formatDuration(getTotalDuration());
   };
 
+  const estimatedDuration = filteredReports.reduce(
+    (sum, report) => sum + report.estimatedDuration,
+    0
+  );
+
   return (
     <View className="items-center">
       {/* Chart Title */}
       <Text className="mb-2 text-lg font-semibold text-gray-900">Time Distribution</Text>
-      <Text className="mb-4 text-sm text-gray-600">Total: {formatTotalDuration()}</Text>
+      <Text className="mb-4 text-sm text-gray-600">
+        Total: {formatTotalDuration()}
+        {estimatedDuration > 0 &&
+          ` (~${CategoryReportService.formatDuration(estimatedDuration)} estimated)`}
+      </Text>
 
       {/* Pie Chart */}
       <PieChart
@@ -0,0 +1,101 @@
+import { View, Text, TouchableOpacity } from 'react-native';
+import {
+  CategoryReportService,
+  type CategoryTrend,
+  type TrendBucket,
+} from '@/services/reporting/CategoryReportService';
+
+interface CategoryTrendChartProps {
+  trend: CategoryTrend;
+  timeZone: string;
+  onBucketPress: (bucket: TrendBucket) => void;
+}
+
+const CHART_HEIGHT = 180;
+
+const PERIOD_NAMES = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+} as const;
+
+export function CategoryTrendChart({ trend, timeZone, onBucketPress }: CategoryTrendChartProps) {
+  const maxDuration = Math.max(...trend.buckets.map((bucket) => bucket.totalDuration), 0);
+
+  const formatLabel = (date: Date) => {
+    switch (trend.type) {
+      case 'daily':
+        return date.toLocaleDateString('en-US', { day: 'numeric', timeZone });
+      case 'weekly':
+        return date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', timeZone });
+      case 'monthly':
+        return date.toLocaleDateString('en-US', { month: 'short', timeZone });
+    }
+  };
+
+  const total = trend.buckets.reduce((sum, bucket) => sum + bucket.totalDuration, 0);
+
+  return (
+    <View>
+      {/* Chart Title */}
+      <Text className="mb-2 text-center text-lg font-semibold text-gray-900">
+        Last {trend.buckets.length} {PERIOD_NAMES[trend.type]}
+      </Text>
+      <Text className="mb-4 text-center text-sm text-gray-600">
+        Total: {CategoryReportService.formatDuration(total)}, tap a bar to see that period
+      </Text>
+
+      {maxDuration === 0 ? (
+        <View className="items-center py-8">
+          <Text className="text-base text-gray-500">No data to display</Text>
+        </View>
+      ) : (
+        /* Stacked Bars, the largest series at the bottom */
+        <View className="flex-row items-end" style={{ height: CHART_HEIGHT + 20 }}>
+          {trend.buckets.map((bucket) => (
+            <TouchableOpacity
+              key={bucket.range.start.toISOString()}
+              onPress={() => onBucketPress(bucket)}
+              className="flex-1 items-center"
+              activeOpacity={0.7}>
+              <View className="w-3/4 flex-col-reverse overflow-hidden rounded-t">
+                {trend.series.map(({ category }) => {
+                  const duration = bucket.durations[category.id] ?? 0;
+                  if (duration === 0) return null;
+
+                  return (
+                    <View
+                      key={category.id}
+                      style={{
+                        height: (duration / maxDuration) * CHART_HEIGHT,
+                        backgroundColor: category.color,
+                      }}
+                    />
+                  );
+                })}
+              </View>
+              <Text className="mt-1 text-xs text-gray-500" numberOfLines={1}>
+                {formatLabel(bucket.range.start)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Legend */}
+      <View className="mt-4 flex-row flex-wrap">
+        {trend.series.map(({ category, totalDuration }) => (
+          <View key={category.id} className="mb-2 mr-4 flex-row items-center">
+            <View
+              className="mr-2 h-3 w-3 rounded-full"
+              style={{ backgroundColor: category.color }}
+            />
+            <Text className="text-sm text-gray-700">
+              {category.name} · {CategoryReportService.formatDuration(totalDuration)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
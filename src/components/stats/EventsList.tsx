@@ -8,20 +8,23 @@ import {
 
 interface EventsListProps {
   events: EventWithCategory[];
+  timeZone: string;
   emptyMessage: string;
 }
 
 interface EventListItemProps {
   event: EventWithCategory;
   index: number;
+  timeZone: string;
 }
 
-function EventListItem({ event, index }: EventListItemProps) {
+function EventListItem({ event, index, timeZone }: EventListItemProps) {
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone,
     });
   };
 
@@ -30,10 +33,13 @@ function EventListItem({ event, index }: EventListItemProps) {
       month: 'short',
       day: 'numeric',
       weekday: 'short',
+      timeZone,
     });
   };
 
-  const duration = CategoryReportService.formatDuration(event.effectiveDuration);
+  const duration = event.isEstimated
+    ? `~${CategoryReportService.formatDuration(event.effectiveDuration)}`
+    : CategoryReportService.formatDuration(event.effectiveDuration);
 
   return (
     <View className="border-b border-gray-100 bg-white px-4 py-4">
@@ -42,7 +48,13 @@ function EventListItem({ event, index }: EventListItemProps) {
         <Text className="mr-3 flex-1 text-base font-medium text-gray-900" numberOfLines={2}>
           {event.title || 'Untitled Event'}
         </Text>
-        <Text className="text-sm font-medium text-blue-600">{duration}</Text>
+        <View className="items-end">
+          <Text
+            className={`text-sm font-medium ${event.isEstimated ? 'text-amber-600' : 'text-blue-600'}`}>
+            {duration}
+          </Text>
+          {event.isEstimated && <Text className="text-xs text-amber-600">estimated</Text>}
+        </View>
       </View>
 
       {/* Event Time */}
@@ -95,7 +107,7 @@ function EventListItem({ event, index }: EventListItemProps) {
   );
 }
 
-export function EventsList({ events, emptyMessage }: EventsListProps) {
+export function EventsList({ events, timeZone, emptyMessage }: EventsListProps) {
   // Sort events by start time descending (most recent first)
   const sortedEvents = [...events].sort(
     (a, b) => (b.start?.getTime() || 0) - (a.start?.getTime() || 0)
@@ -111,21 +123,33 @@ export function EventsList({ events, emptyMessage }: EventsListProps) {
   }
 
   const renderItem = ({ item, index }: { item: EventWithCategory; index: number }) => (
-    <EventListItem event={item} index={index} />
+    <EventListItem event={item} index={index} timeZone={timeZone} />
   );
 
   const getTotalDuration = () => {
     return sortedEvents.reduce((sum, event) => sum + event.effectiveDuration, 0);
   };
 
+  const estimatedDuration = sortedEvents
+    .filter((event) => event.isEstimated)
+    .reduce((sum, event) => sum + event.effectiveDuration, 0);
+
   const getDateRange = () => {
     if (sortedEvents.length === 0) return '';
 
     const earliest = new Date(Math.min(...sortedEvents.map((e) => e.start?.getTime() || 0)));
     const latest = new Date(Math.max(...sortedEvents.map((e) => e.end?.getTime() || 0)));
 
-    const earliestStr = earliest.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-    const latestStr = latest.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    const earliestStr = earliest.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone,
+    });
+    const latestStr = latest.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      timeZone,
+    });
 
     return earliestStr === latestStr ? earliestStr : `${earliestStr} - ${latestStr}`;
   };
@@ -140,6 +164,12 @@ export function EventsList({ events, emptyMessage }: EventsListProps) {
           {CategoryReportService.formatDuration(getTotalDuration())} total
           {getDateRange() && ` • ${getDateRange()}`}
         </Text>
+        {estimatedDuration > 0 && (
+          <Text className="mt-1 text-xs text-amber-600">
+            Includes ~{CategoryReportService.formatDuration(estimatedDuration)} estimated from
+            all-day events
+          </Text>
+        )}
       </View>
 
       {/* Events List */}
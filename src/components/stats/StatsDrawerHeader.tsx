@@ -35,6 +35,17 @@ export const StatsPageParams = zod.object({
     .optional()
     .transform((val) => val === '1')
     .optional(),
+
+  // Totals of the last periods as a chart instead of the breakdown of one range
+  view: zod.enum(['breakdown', 'trend']).optional(),
+  trendPeriod: zod.enum(['daily', 'weekly', 'monthly']).optional(),
+
+  // Show the change from the previous range next to each category
+  compare: zod
+    .enum(['0', '1'])
+    .optional()
+    .transform((val) => val === '1')
+    .optional(),
 });
 
 export type StatsPageParamsType = zod.infer<typeof StatsPageParams>;
@@ -42,12 +53,14 @@ export type StatsPageParamsInputType = Omit<
   StatsPageParamsType,
   | 'hasChildCategories'
   | 'isDummyParent'
+  | 'compare'
   | 'dateRangeRef'
   | 'dateRangeCustomStart'
   | 'dateRangeCustomEnd'
 > & {
   hasChildCategories: '0' | '1';
   isDummyParent: '0' | '1';
+  compare: '0' | '1';
   dateRangeRef: string;
   dateRangeCustomStart?: string;
   dateRangeCustomEnd?: string;
@@ -0,0 +1,20 @@
+CREATE TABLE `outbox` (
+	`id` text PRIMARY KEY NOT NULL,
+	`operation` text NOT NULL,
+	`eventId` text NOT NULL,
+	`calendarId` text NOT NULL,
+	`payload` text,
+	`baseEtag` text,
+	`baseUpdatedAt` integer,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`nextAttemptAt` integer,
+	`lastError` text,
+	`updatedAt` integer DEFAULT (unixepoch()),
+	`createdAt` integer DEFAULT (unixepoch())
+);
+--> statement-breakpoint
+CREATE INDEX `outbox_event_idx` ON `outbox` (`eventId`);--> statement-breakpoint
+CREATE INDEX `outbox_status_idx` ON `outbox` (`status`);--> statement-breakpoint
+ALTER TABLE `events` ADD `etag` text;--> statement-breakpoint
+ALTER TABLE `events` ADD `remoteUpdatedAt` integer;
\ No newline at end of file
@@ -0,0 +1,30 @@
+CREATE TABLE `event_series` (
+	`id` text PRIMARY KEY NOT NULL,
+	`calendarId` text NOT NULL,
+	`title` text NOT NULL,
+	`description` text,
+	`eventType` text,
+	`isAllDay` integer,
+	`start` integer NOT NULL,
+	`end` integer NOT NULL,
+	`timeZone` text NOT NULL,
+	`recurrence` text NOT NULL,
+	`cancelledInstanceIds` text DEFAULT '[]' NOT NULL,
+	`expandedUntil` integer,
+	`categoryId` text,
+	`isManuallyCategorized` integer,
+	`etag` text,
+	`remoteUpdatedAt` integer,
+	`updatedAt` integer DEFAULT (unixepoch()),
+	`createdAt` integer DEFAULT (unixepoch()),
+	FOREIGN KEY (`calendarId`) REFERENCES `calendars`(`id`) ON UPDATE restrict ON DELETE restrict,
+	FOREIGN KEY (`categoryId`) REFERENCES `categories`(`id`) ON UPDATE restrict ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `event_series_calendar_idx` ON `event_series` (`calendarId`);--> statement-breakpoint
+ALTER TABLE `events` ADD `recurringEventId` text;--> statement-breakpoint
+ALTER TABLE `events` ADD `originalStartTime` integer;--> statement-breakpoint
+ALTER TABLE `events` ADD `isException` integer;--> statement-breakpoint
+CREATE INDEX `events_recurring_event_idx` ON `events` (`recurringEventId`);--> statement-breakpoint
+-- Series masters were stored as single events before, a full listing re-syncs them as series
+UPDATE `calendars` SET `syncToken` = NULL;
\ No newline at end of file
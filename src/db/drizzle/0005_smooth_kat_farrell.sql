@@ -0,0 +1,9 @@
+CREATE TABLE `settings` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text,
+	`updatedAt` integer DEFAULT (unixepoch()),
+	`createdAt` integer DEFAULT (unixepoch())
+);
+--> statement-breakpoint
+-- All-day events were stored at midnight in the device zone, a full listing re-parses them
+UPDATE `calendars` SET `syncToken` = NULL;
\ No newline at end of file
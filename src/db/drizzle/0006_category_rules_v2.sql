@@ -0,0 +1,12 @@
+-- Category rules v2: title-only rules get an explicit version and field
+UPDATE `categories` SET `rules` = (
+	SELECT json_group_array(
+		CASE
+			WHEN json_extract(`value`, '$.version') IS NULL
+				THEN json_set(`value`, '$.version', 2, '$.field', 'title')
+			ELSE json(`value`)
+		END
+	)
+	FROM json_each(`categories`.`rules`)
+)
+WHERE `rules` IS NOT NULL AND json_valid(`rules`);
@@ -0,0 +1 @@
+ALTER TABLE `events` ADD `categoryRuleMatch` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `event_series` ADD `isBackground` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `events` ADD `isBackground` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -4,6 +4,12 @@ import journal from './meta/_journal.json';
 import m0000 from './0000_freezing_mesmero.sql';
 import m0001 from './0001_flat_darwin.sql';
 import m0002 from './0002_funny_omega_sentinel.sql';
+import m0003 from './0003_dark_william_stryker.sql';
+import m0004 from './0004_lying_alex_power.sql';
+import m0005 from './0005_smooth_kat_farrell.sql';
+import m0006 from './0006_category_rules_v2.sql';
+import m0007 from './0007_event_category_rule_match.sql';
+import m0008 from './0008_event_background.sql';
 
 export default {
   journal,
@@ -11,5 +17,11 @@ export default {
     m0000,
     m0001,
     m0002,
+    m0003,
+    m0004,
+    m0005,
+    m0006,
+    m0007,
+    m0008,
   },
 };
@@ -1,7 +1,8 @@
 import { nanoid } from 'nanoid';
 import { sql, relations } from 'drizzle-orm';
 import { sqliteTable as table, text, integer, index } from 'drizzle-orm/sqlite-core';
-import { type CategoryRule } from '@/types/category_rule';
+import { type CategoryRuleMatch, type RuleNode } from '@/types/category_rule';
+import type { GoogleCalendarEventPatch } from '@/integrations/google_calendar';
 
 const timestamps = {
   updatedAt: integer({ mode: 'timestamp' })
@@ -41,17 +42,65 @@ export const events = table(
       onUpdate: 'restrict',
     }),
     isManuallyCategorized: integer({ mode: 'boolean' }),
+    // The rules that assigned the category, null for manual or no assignment
+    categoryRuleMatch: text({ mode: 'json' }).$type<CategoryRuleMatch>(),
+    // Yields overlapping time to other events, e.g. a "Working hours" block
+    isBackground: integer({ mode: 'boolean' }).notNull().default(false),
+    // Google's version markers, used to detect remote changes before pushing local edits
+    etag: text(),
+    remoteUpdatedAt: integer({ mode: 'timestamp' }),
+    // Instances of a recurring series, generated locally or modified remotely (exceptions)
+    recurringEventId: text(),
+    originalStartTime: integer({ mode: 'timestamp' }),
+    isException: integer({ mode: 'boolean' }),
     ...timestamps,
   },
   (t) => [
     index('events_start_idx').on(t.start),
     index('events_end_idx').on(t.end),
     index('events_category_idx').on(t.categoryId),
+    index('events_recurring_event_idx').on(t.recurringEventId),
     // Add composite index if necessary
     // index('events_calendar_start_idx').on(t.calendarId, t.start),
   ]
 );
 
+// Recurring series masters, their instances are expanded into `events`
+export const eventSeries = table(
+  'event_series',
+  {
+    id: text().primaryKey(),
+    calendarId: text()
+      .notNull()
+      .references(() => calendars.id, { onDelete: 'restrict', onUpdate: 'restrict' }),
+    title: text().notNull(),
+    description: text(),
+    eventType: text(),
+    isAllDay: integer({ mode: 'boolean' }),
+    // First instance
+    start: integer({ mode: 'timestamp' }).notNull(),
+    end: integer({ mode: 'timestamp' }).notNull(),
+    timeZone: text().notNull(),
+    recurrence: text({ mode: 'json' }).$type<string[]>().notNull(),
+    // Instances deleted remotely, kept so re-expansion doesn't bring them back
+    cancelledInstanceIds: text({ mode: 'json' }).$type<string[]>().notNull().default([]),
+    // Instances exist up to here, pushed forward as time passes
+    expandedUntil: integer({ mode: 'timestamp' }),
+    // Series-wide manual category, inherited by newly expanded instances
+    categoryId: text().references(() => categories.id, {
+      onDelete: 'set null',
+      onUpdate: 'restrict',
+    }),
+    isManuallyCategorized: integer({ mode: 'boolean' }),
+    // Series-wide background flag, inherited by newly expanded instances
+    isBackground: integer({ mode: 'boolean' }).notNull().default(false),
+    etag: text(),
+    remoteUpdatedAt: integer({ mode: 'timestamp' }),
+    ...timestamps,
+  },
+  (t) => [index('event_series_calendar_idx').on(t.calendarId)]
+);
+
 export const categories = table('categories', {
   id: text()
     .primaryKey()
@@ -59,13 +108,46 @@ export const categories = table('categories', {
   name: text().notNull(),
   color: text().notNull(),
   priority: integer().default(0),
-  rules: text({ mode: 'json' }).$type<CategoryRule[]>(),
+  // Any matching rule or group applies the category
+  rules: text({ mode: 'json' }).$type<RuleNode[]>(),
   parentCategoryId: text().references((): any => categories.id, {
     onDelete: 'restrict',
     onUpdate: 'restrict',
   }),
 });
 
+// Local edits waiting to be pushed to Google Calendar
+export const outbox = table(
+  'outbox',
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => nanoid(12)),
+    operation: text({ enum: ['patch', 'delete'] }).notNull(),
+    eventId: text().notNull(),
+    calendarId: text().notNull(),
+    payload: text({ mode: 'json' }).$type<GoogleCalendarEventPatch>(),
+    // Remote version the edit was based on
+    baseEtag: text(),
+    baseUpdatedAt: integer({ mode: 'timestamp' }),
+    status: text({ enum: ['pending', 'conflict', 'failed'] })
+      .notNull()
+      .default('pending'),
+    attempts: integer().notNull().default(0),
+    nextAttemptAt: integer({ mode: 'timestamp' }),
+    lastError: text(),
+    ...timestamps,
+  },
+  (t) => [index('outbox_event_idx').on(t.eventId), index('outbox_status_idx').on(t.status)]
+);
+
+// App preferences, one JSON value per key, validated by SettingsService
+export const settings = table('settings', {
+  key: text().primaryKey(),
+  value: text({ mode: 'json' }),
+  ...timestamps,
+});
+
 export const eventsRelations = relations(events, ({ one }) => ({
   calendar: one(calendars, {
     fields: [events.calendarId],
@@ -102,3 +184,5 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
 export type DBCalendar = typeof calendars.$inferSelect;
 export type DBEvent = typeof events.$inferSelect;
 export type Category = typeof categories.$inferSelect;
+export type OutboxEntry = typeof outbox.$inferSelect;
+export type DBEventSeries = typeof eventSeries.$inferSelect;
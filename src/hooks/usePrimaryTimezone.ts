@@ -1 +1,13 @@
-export const usePrimaryTimezone = () => {};
+import { useCalendarSync } from '@/components/CalendarSyncProvider';
+import { useSettings } from '@/components/SettingsProvider';
+
+/**
+ * Zone that day boundaries follow in reports and the calendar view:
+ * the reporting time zone setting, or the zone shared by most calendars when unset.
+ */
+export const usePrimaryTimezone = (): string => {
+  const { settings } = useSettings();
+  const { primaryTimezone } = useCalendarSync();
+
+  return settings.reportingTimeZone ?? primaryTimezone;
+};
@@ -7,7 +7,7 @@ interface GoogleCalendar {
   timeZone?: string;
 }
 
-interface GoogleCalendarEvent {
+export interface GoogleCalendarEvent {
   id: string;
   summary?: string;
   description?: string;
@@ -23,9 +23,24 @@ interface GoogleCalendarEvent {
   };
   eventType?: string;
   status?: string;
+  // Set on series masters: RRULE, RDATE and EXDATE lines
+  recurrence?: string[];
+  // Set on instances of a series that were modified or cancelled
+  recurringEventId?: string;
+  originalStartTime?: {
+    dateTime?: string;
+    date?: string;
+    timeZone?: string;
+  };
+  etag?: string;
+  updated?: string;
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
 }
 
-interface CalendarEventsResponse {
+export interface CalendarEventsResponse {
   items: GoogleCalendarEvent[];
   nextPageToken?: string;
   nextSyncToken?: string;
@@ -36,13 +51,40 @@ interface CalendarList {
   list: () => Promise<GoogleCalendar[]>;
 }
 
+export type GoogleCalendarEventPatch = Partial<
+  Pick<GoogleCalendarEvent, 'summary' | 'description' | 'start' | 'end' | 'extendedProperties'>
+>;
+
+/**
+ * Error for non-2xx responses, keeps the HTTP status so callers can react to it
+ * (e.g. 412 when an `If-Match` etag no longer matches).
+ */
+export class GoogleCalendarApiError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'GoogleCalendarApiError';
+  }
+}
+
 interface Events {
   list: (params: {
     calendarId: string;
     pageToken?: string;
     syncToken?: string;
     maxResults?: number;
+    singleEvents?: boolean;
   }) => Promise<CalendarEventsResponse>;
+  get: (params: { calendarId: string; eventId: string }) => Promise<GoogleCalendarEvent>;
+  patch: (params: {
+    calendarId: string;
+    eventId: string;
+    requestBody: GoogleCalendarEventPatch;
+    ifMatch?: string;
+  }) => Promise<GoogleCalendarEvent>;
+  delete: (params: { calendarId: string; eventId: string; ifMatch?: string }) => Promise<void>;
 }
 
 interface CalendarNamespace {
@@ -68,6 +110,9 @@ export class GoogleCalendarClient {
         },
         events: {
           list: this.listEvents.bind(this),
+          get: this.getEvent.bind(this),
+          patch: this.patchEvent.bind(this),
+          delete: this.deleteEvent.bind(this),
         },
       },
     };
@@ -100,8 +145,9 @@ export class GoogleCalendarClient {
       });
 
       if (!response.ok) {
-        throw new Error(
-          `Failed to fetch calendars: ${response.status} ${response.statusText} ${await response.text()}`
+        throw new GoogleCalendarApiError(
+          `Failed to fetch calendars: ${response.status} ${response.statusText} ${await response.text()}`,
+          response.status
         );
       }
 
@@ -119,17 +165,19 @@ export class GoogleCalendarClient {
     pageToken?: string;
     syncToken?: string;
     maxResults?: number;
+    singleEvents?: boolean;
   }): Promise<CalendarEventsResponse> {
     if (!this.accessToken) {
       throw new Error('Client not initialized. Call initialize() first.');
     }
 
-    const { calendarId, pageToken, syncToken, maxResults = 2500 } = params;
+    const { calendarId, pageToken, syncToken, maxResults = 2500, singleEvents } = params;
 
     const urlParams = new URLSearchParams();
     if (pageToken) urlParams.set('pageToken', pageToken);
     if (syncToken) urlParams.set('syncToken', syncToken);
     if (maxResults) urlParams.set('maxResults', maxResults.toString());
+    if (singleEvents !== undefined) urlParams.set('singleEvents', String(singleEvents));
 
     const url = `${this.baseURL}/calendars/${encodeURIComponent(calendarId)}/events${urlParams.toString() ? `?${urlParams.toString()}` : ''}`;
 
@@ -144,8 +192,9 @@ export class GoogleCalendarClient {
       });
 
       if (!response.ok) {
-        throw new Error(
-          `Failed to fetch events for calendar ${calendarId}: ${response.status} ${response.statusText} ${await response.text()}`
+        throw new GoogleCalendarApiError(
+          `Failed to fetch events for calendar ${calendarId}: ${response.status} ${response.statusText} ${await response.text()}`,
+          response.status
         );
       }
 
@@ -160,4 +209,116 @@ export class GoogleCalendarClient {
       throw error;
     }
   }
+
+  // Get a single event
+  private async getEvent(params: {
+    calendarId: string;
+    eventId: string;
+  }): Promise<GoogleCalendarEvent> {
+    if (!this.accessToken) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+
+    const { calendarId, eventId } = params;
+    const url = `${this.baseURL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new GoogleCalendarApiError(
+          `Failed to fetch event ${eventId} in calendar ${calendarId}: ${response.status} ${response.statusText} ${await response.text()}`,
+          response.status
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error(`Error fetching event ${eventId} in calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  // Patch a single event, only the fields present in requestBody are changed.
+  // With ifMatch set, Google rejects the update (412) if the event changed remotely.
+  private async patchEvent(params: {
+    calendarId: string;
+    eventId: string;
+    requestBody: GoogleCalendarEventPatch;
+    ifMatch?: string;
+  }): Promise<GoogleCalendarEvent> {
+    if (!this.accessToken) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+
+    const { calendarId, eventId, requestBody, ifMatch } = params;
+    const url = `${this.baseURL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+          ...(ifMatch && { 'If-Match': ifMatch }),
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (!response.ok) {
+        throw new GoogleCalendarApiError(
+          `Failed to patch event ${eventId} in calendar ${calendarId}: ${response.status} ${response.statusText} ${await response.text()}`,
+          response.status
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error(`Error patching event ${eventId} in calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
+
+  // Delete a single event
+  private async deleteEvent(params: {
+    calendarId: string;
+    eventId: string;
+    ifMatch?: string;
+  }): Promise<void> {
+    if (!this.accessToken) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+
+    const { calendarId, eventId, ifMatch } = params;
+    const url = `${this.baseURL}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(eventId)}`;
+
+    try {
+      const response = await fetch(url, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          Accept: 'application/json',
+          ...(ifMatch && { 'If-Match': ifMatch }),
+        },
+      });
+
+      if (!response.ok) {
+        throw new GoogleCalendarApiError(
+          `Failed to delete event ${eventId} in calendar ${calendarId}: ${response.status} ${response.statusText} ${await response.text()}`,
+          response.status
+        );
+      }
+    } catch (error) {
+      console.error(`Error deleting event ${eventId} in calendar ${calendarId}:`, error);
+      throw error;
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import { DrizzleDB } from '@/db/SQLiteProvider';
 import { calendars, type DBCalendar } from '@/db/schema';
 import { eq } from 'drizzle-orm';
+import { getDeviceTimeZone } from './timezone';
 
 export class CalendarService {
   private drizzle: DrizzleDB;
@@ -98,7 +99,7 @@ export class CalendarService {
     );
 
     if (Object.keys(timeZoneCount).length === 0) {
-      return 'UTC';
+      return getDeviceTimeZone();
     }
 
     this.primaryTimezone = Object.keys(timeZoneCount)[0];
@@ -1,13 +1,29 @@
 import { DrizzleDB } from '@/db/SQLiteProvider';
-import { calendars, events } from '@/db/schema';
-import { GoogleCalendarClient } from '@/integrations/google_calendar';
+import {
+  calendars,
+  events,
+  eventSeries,
+  outbox,
+  type DBEvent,
+  type OutboxEntry,
+} from '@/db/schema';
+import {
+  GoogleCalendarApiError,
+  GoogleCalendarClient,
+  type CalendarEventsResponse,
+  type GoogleCalendarEvent,
+} from '@/integrations/google_calendar';
 import { EventCategorizationService } from '../events/EventCategorizationService';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
 import { EventDurationService } from '../events/EventDurationService';
+import { RecurringEventService, type TimeRange } from '../events/RecurringEventService';
+import { OutboxService, type OutboxReplayStats } from './OutboxService';
+import { parseEventTime } from './timezone';
 
 export interface SyncProgress {
   status:
     | 'idle'
+    | 'replaying_outbox'
     | 'syncing_calendars'
     | 'syncing_events'
     | 'categorizing_events'
@@ -26,9 +42,35 @@ export interface LastSyncInfo {
   calendarsSynced: number;
   eventsSynced: number;
   eventsCategorized?: number;
+  outbox?: OutboxReplayStats;
+  // Conflicting local edits whose remote version could not be fetched, retried next sync
+  unresolvedConflicts?: number;
+  manualCategorizations?: ManualCategorizationRestoreStats;
   errors: string[];
 }
 
+// Event (or recurring series) id -> manually assigned category id
+export type ManualCategorizationSnapshot = Map<string, string>;
+
+export interface ManualCategorizationRestoreStats {
+  restored: number;
+  // Events that did not come back after the re-sync, e.g. deleted remotely
+  unrestored: number;
+}
+
+interface EventPagesResult {
+  eventsSynced: number;
+  earliest: Date;
+  latest: Date;
+  nextSyncToken?: string;
+  seenEventIds: Set<string>;
+  // Inserted or updated locally, including expanded instances
+  changedEventIds: Set<string>;
+}
+
+// Ids per statement, well below SQLite's bound parameter limit
+const ID_BATCH_SIZE = 500;
+
 export class CalendarSyncService {
   private googleClient: GoogleCalendarClient;
   private drizzle: DrizzleDB;
@@ -36,6 +78,8 @@ export class CalendarSyncService {
   private lastSyncInfo?: LastSyncInfo;
   private categorizationService: EventCategorizationService;
   private eventDurationService: EventDurationService;
+  private outboxService: OutboxService;
+  private recurringEventService: RecurringEventService;
   private autoCategorize: boolean = true;
 
   constructor(
@@ -49,6 +93,8 @@ export class CalendarSyncService {
     this.progressCallback = progressCallback;
     this.categorizationService = new EventCategorizationService(drizzle);
     this.eventDurationService = new EventDurationService(drizzle);
+    this.outboxService = new OutboxService(drizzle);
+    this.recurringEventService = new RecurringEventService(drizzle);
     this.autoCategorize = autoCategorize;
   }
 
@@ -72,8 +118,43 @@ export class CalendarSyncService {
     let totalEventsSynced = 0;
     let latest = new Date(0);
     let earliest = new Date(8640000000000000);
+    let outboxStats: OutboxReplayStats | undefined;
+    let unresolvedConflicts: number | undefined;
+    // Only these need their categories evaluated after the sync
+    const changedEventIds = new Set<string>();
 
     try {
+      // Push local edits first, so the pull below doesn't race them
+      this.updateProgress({
+        status: 'replaying_outbox',
+        percentage: 0,
+      });
+
+      try {
+        outboxStats = await this.outboxService.replayPending(this.googleClient);
+        if (outboxStats.conflicts > 0) {
+          errors.push(
+            `${outboxStats.conflicts} local edit(s) were not applied because the events changed remotely`
+          );
+        }
+      } catch (error) {
+        const errorMsg = `Failed to replay local edits: ${error}`;
+        console.error(errorMsg);
+        errors.push(errorMsg);
+      }
+
+      try {
+        const resolution = await this.resolveConflicts();
+        unresolvedConflicts = resolution.unresolved;
+        earliest = earliest < resolution.earliest ? earliest : resolution.earliest;
+        latest = latest > resolution.latest ? latest : resolution.latest;
+        resolution.changedEventIds.forEach((id) => changedEventIds.add(id));
+      } catch (error) {
+        const errorMsg = `Failed to resolve conflicting edits: ${error}`;
+        console.error(errorMsg);
+        errors.push(errorMsg);
+      }
+
       this.updateProgress({
         status: 'syncing_calendars',
         percentage: 0,
@@ -137,6 +218,7 @@ export class CalendarSyncService {
             totalEventsSynced += syncInfo.eventsSynced;
             earliest = earliest < syncInfo.earliest ? earliest : syncInfo.earliest;
             latest = latest > syncInfo.latest ? latest : syncInfo.latest;
+            syncInfo.changedEventIds.forEach((id) => changedEventIds.add(id));
           }
         } catch (error) {
           const errorMsg = `Failed to sync calendar ${calendar.summary}: ${error}`;
@@ -145,16 +227,48 @@ export class CalendarSyncService {
         }
       }
 
-      // Auto-categorize events if enabled
+      // Keep recurring series expanded as the horizon moves forward
+      try {
+        const pendingEventIds = await this.outboxService.getPendingEventIds();
+        const { range, writtenEventIds } =
+          await this.recurringEventService.extendExpansions(pendingEventIds);
+        if (range) {
+          earliest = earliest < range.earliest ? earliest : range.earliest;
+          latest = latest > range.latest ? latest : range.latest;
+        }
+        writtenEventIds.forEach((id) => changedEventIds.add(id));
+      } catch (error) {
+        const errorMsg = `Failed to expand recurring events: ${error}`;
+        console.error(errorMsg);
+        errors.push(errorMsg);
+      }
+
+      // Auto-categorize the events this sync changed, if enabled
       let eventsCategorized = 0;
-      if (this.autoCategorize) {
+      if (this.autoCategorize && changedEventIds.size > 0) {
         this.updateProgress({
           status: 'categorizing_events',
           percentage: 90,
         });
 
         try {
-          const categorizationStats = await this.categorizationService.categorizeEvents();
+          // Rules may have been edited since the last sync
+          await this.categorizationService.getCategories(true);
+          const categorizationStats = await this.categorizationService.categorizeEvents(
+            [...changedEventIds],
+            {
+              // The durations of the whole synced range are recalculated below
+              skipDurations: true,
+              onProgress: (completed, total) => {
+                this.updateProgress({
+                  status: 'categorizing_events',
+                  percentage: 90,
+                  processedEvents: completed,
+                  totalEvents: total,
+                });
+              },
+            }
+          );
           eventsCategorized = categorizationStats.categorized;
         } catch (error) {
           const errorMsg = `Failed to categorize events: ${error}`;
@@ -188,6 +302,8 @@ export class CalendarSyncService {
         calendarsSynced,
         eventsSynced: totalEventsSynced,
         eventsCategorized,
+        outbox: outboxStats,
+        unresolvedConflicts,
         errors,
       };
     } catch (error) {
@@ -204,6 +320,8 @@ export class CalendarSyncService {
         timestamp: new Date(),
         calendarsSynced,
         eventsSynced: totalEventsSynced,
+        outbox: outboxStats,
+        unresolvedConflicts,
         errors,
       };
 
@@ -211,9 +329,72 @@ export class CalendarSyncService {
     }
   }
 
+  /**
+   * Remember manual category assignments, so they survive resetCalendarsAndEvents()
+   */
+  async snapshotManualCategorizations(): Promise<ManualCategorizationSnapshot> {
+    const rows = await this.drizzle
+      .select({ id: events.id, categoryId: events.categoryId })
+      .from(events)
+      .where(and(eq(events.isManuallyCategorized, true), isNotNull(events.categoryId)));
+
+    // Series-wide assignments, so newly expanded instances keep inheriting them
+    const seriesRows = await this.drizzle
+      .select({ id: eventSeries.id, categoryId: eventSeries.categoryId })
+      .from(eventSeries)
+      .where(and(eq(eventSeries.isManuallyCategorized, true), isNotNull(eventSeries.categoryId)));
+
+    return new Map([...rows, ...seriesRows].map((row) => [row.id, row.categoryId!]));
+  }
+
+  /**
+   * Re-apply a snapshot taken before a reset to the events that came back.
+   * Manual assignments are only stored locally, the snapshot is all that keeps them.
+   */
+  async restoreManualCategorizations(
+    snapshot: ManualCategorizationSnapshot
+  ): Promise<ManualCategorizationRestoreStats> {
+    const idsByCategory = new Map<string, string[]>();
+    for (const [eventId, categoryId] of snapshot) {
+      idsByCategory.set(categoryId, [...(idsByCategory.get(categoryId) ?? []), eventId]);
+    }
+
+    let restored = 0;
+    for (const [categoryId, eventIds] of idsByCategory) {
+      for (let i = 0; i < eventIds.length; i += ID_BATCH_SIZE) {
+        const batch = eventIds.slice(i, i + ID_BATCH_SIZE);
+        const updated = await this.drizzle
+          .update(events)
+          .set({ categoryId, isManuallyCategorized: true })
+          .where(inArray(events.id, batch))
+          .returning({ id: events.id });
+        const updatedSeries = await this.drizzle
+          .update(eventSeries)
+          .set({ categoryId, isManuallyCategorized: true })
+          .where(inArray(eventSeries.id, batch))
+          .returning({ id: eventSeries.id });
+        restored += updated.length + updatedSeries.length;
+      }
+    }
+
+    const stats = { restored, unrestored: snapshot.size - restored };
+    if (stats.unrestored > 0) {
+      console.warn(`${stats.unrestored} manual categorizations could not be restored`);
+    }
+    if (this.lastSyncInfo) {
+      this.lastSyncInfo = { ...this.lastSyncInfo, manualCategorizations: stats };
+    }
+
+    return stats;
+  }
+
   async resetCalendarsAndEvents(): Promise<void> {
-    // Delete all Calendars and Events
+    // Queued edits were based on the rows going away, replaying them would overwrite
+    // whatever the fresh sync brings back
+    await this.drizzle.delete(outbox);
+    // Delete all Calendars, Events and recurring series
     await this.drizzle.delete(events);
+    await this.drizzle.delete(eventSeries);
     await this.drizzle.delete(calendars);
   }
 
@@ -222,23 +403,21 @@ export class CalendarSyncService {
     calendarIndex: number,
     totalCalendars: number,
     syncToken?: string
-  ): Promise<{ eventsSynced: number; earliest: Date; latest: Date }> {
-    let eventsSynced = 0;
-    let earliest = new Date(8640000000000000);
-    let latest = new Date(0);
-    let pageToken: string | undefined;
-    let nextSyncToken: string | undefined;
+  ): Promise<{ eventsSynced: number; earliest: Date; latest: Date; changedEventIds: Set<string> }> {
+    const [existingCalendar] = await this.drizzle
+      .select({ syncToken: calendars.syncToken, timeZone: calendars.timeZone })
+      .from(calendars)
+      .where(eq(calendars.id, calendarId))
+      .limit(1);
 
     // Get current sync token from database if not provided
     if (!syncToken) {
-      const existingCalendar = await this.drizzle
-        .select({ syncToken: calendars.syncToken })
-        .from(calendars)
-        .where(eq(calendars.id, calendarId))
-        .limit(1);
-
-      syncToken = existingCalendar[0]?.syncToken || undefined;
+      syncToken = existingCalendar?.syncToken || undefined;
     }
+    const timeZone = existingCalendar?.timeZone ?? 'UTC';
+
+    // Events with unpushed local edits keep their local version until the edit is replayed
+    const pendingEventIds = await this.outboxService.getPendingEventIds();
 
     this.updateProgress({
       status: 'syncing_events',
@@ -250,30 +429,276 @@ export class CalendarSyncService {
       percentage: 30 + (calendarIndex / totalCalendars) * 60,
     });
 
-    do {
-      const response = await this.googleClient.client.calendar.events.list({
+    let result: EventPagesResult;
+    try {
+      result = await this.fetchEventPages(
         calendarId,
-        pageToken,
-        syncToken: !pageToken ? syncToken : undefined, // Only use syncToken on first request
-        maxResults: 2500,
-      });
+        timeZone,
+        calendarIndex,
+        totalCalendars,
+        pendingEventIds,
+        syncToken
+      );
+    } catch (error) {
+      if (!syncToken || !(error instanceof GoogleCalendarApiError) || error.status !== 410) {
+        throw error;
+      }
+
+      // Google expired the sync token, only a full listing can tell us what changed since
+      console.warn(`Sync token for calendar ${calendarId} expired, running a full re-sync`);
+      await this.drizzle
+        .update(calendars)
+        .set({ syncToken: null })
+        .where(eq(calendars.id, calendarId));
+
+      result = await this.fetchEventPages(
+        calendarId,
+        timeZone,
+        calendarIndex,
+        totalCalendars,
+        pendingEventIds
+      );
+
+      // A full listing omits deleted events, so anything we didn't see is gone remotely
+      const removed = await this.removeUnseenEvents(
+        calendarId,
+        result.seenEventIds,
+        pendingEventIds
+      );
+      for (const event of removed) {
+        result.earliest =
+          !event.start || result.earliest < event.start ? result.earliest : event.start;
+        result.latest = !event.end || result.latest > event.end ? result.latest : event.end;
+      }
+      result.eventsSynced += removed.length;
+    }
+
+    const { eventsSynced, earliest, latest, nextSyncToken, changedEventIds } = result;
+
+    // Update calendar with new sync token and last sync timestamp
+    if (nextSyncToken) {
+      await this.drizzle
+        .update(calendars)
+        .set({
+          syncToken: nextSyncToken,
+          lastSyncAt: new Date(),
+        })
+        .where(eq(calendars.id, calendarId));
+    }
+
+    return { eventsSynced, earliest, latest, changedEventIds };
+  }
+
+  /**
+   * Pull the remote version of events whose local edit conflicted with a remote change,
+   * dropping the edit. Syncs skipped their remote changes while the edit was pending and
+   * the sync token has moved past them since. Entries whose event can't be fetched stay
+   * until the next sync.
+   */
+  private async resolveConflicts(): Promise<{
+    unresolved: number;
+    earliest: Date;
+    latest: Date;
+    changedEventIds: Set<string>;
+  }> {
+    const conflicts = await this.outboxService.getEntries('conflict');
+    const pendingEventIds = await this.outboxService.getPendingEventIds();
+    let earliest = new Date(8640000000000000);
+    let latest = new Date(0);
+    const changedEventIds = new Set<string>();
+    let unresolved = 0;
+
+    const entriesByCalendar = new Map<string, OutboxEntry[]>();
+    for (const entry of conflicts) {
+      entriesByCalendar.set(entry.calendarId, [
+        ...(entriesByCalendar.get(entry.calendarId) ?? []),
+        entry,
+      ]);
+    }
+
+    for (const [calendarId, entries] of entriesByCalendar) {
+      const [calendar] = await this.drizzle
+        .select({ timeZone: calendars.timeZone })
+        .from(calendars)
+        .where(eq(calendars.id, calendarId))
+        .limit(1);
+
+      const remoteEvents = new Map<string, GoogleCalendarEvent>();
+      for (const { eventId } of entries) {
+        if (!calendar || remoteEvents.has(eventId)) continue;
+        try {
+          remoteEvents.set(
+            eventId,
+            await this.googleClient.client.calendar.events.get({ calendarId, eventId })
+          );
+        } catch (error) {
+          if (
+            !(error instanceof GoogleCalendarApiError) ||
+            (error.status !== 404 && error.status !== 410)
+          ) {
+            console.warn(`Failed to fetch event ${eventId} to resolve its conflict:`, error);
+            continue;
+          }
+
+          // Deleted remotely, stored like a cancellation events.list reports
+          const [local] = await this.drizzle
+            .select({ recurringEventId: events.recurringEventId })
+            .from(events)
+            .where(eq(events.id, eventId))
+            .limit(1);
+          remoteEvents.set(eventId, {
+            id: eventId,
+            status: 'cancelled',
+            recurringEventId: local?.recurringEventId ?? undefined,
+          });
+        }
+      }
+
+      if (calendar && remoteEvents.size > 0) {
+        const result = await this.storeEventPages(
+          calendarId,
+          calendar.timeZone ?? 'UTC',
+          pendingEventIds,
+          async () => ({ items: [...remoteEvents.values()] })
+        );
+        earliest = earliest < result.earliest ? earliest : result.earliest;
+        latest = latest > result.latest ? latest : result.latest;
+        result.changedEventIds.forEach((id) => changedEventIds.add(id));
+      }
+
+      for (const entry of entries) {
+        // Without its calendar there is nothing left to resolve the edit against
+        if (!calendar || remoteEvents.has(entry.eventId)) {
+          await this.outboxService.removeEntry(entry.id);
+        } else {
+          unresolved++;
+        }
+      }
+    }
+
+    return { unresolved, earliest, latest, changedEventIds };
+  }
+
+  /**
+   * Page through events.list and store every returned event.
+   * Without a sync token this is a full listing of the calendar.
+   */
+  private async fetchEventPages(
+    calendarId: string,
+    timeZone: string,
+    calendarIndex: number,
+    totalCalendars: number,
+    pendingEventIds: Set<string>,
+    syncToken?: string
+  ): Promise<EventPagesResult> {
+    return await this.storeEventPages(
+      calendarId,
+      timeZone,
+      pendingEventIds,
+      // Recurring series come back as masters and are expanded locally
+      (pageToken) =>
+        this.googleClient.client.calendar.events.list({
+          calendarId,
+          pageToken,
+          syncToken: !pageToken ? syncToken : undefined, // Only use syncToken on first request
+          maxResults: 2500,
+          singleEvents: false,
+        }),
+      (eventsSynced) =>
+        this.updateProgress({
+          status: 'syncing_events',
+          currentCalendar: calendarId,
+          totalCalendars,
+          processedCalendars: calendarIndex,
+          totalEvents: eventsSynced,
+          processedEvents: eventsSynced,
+          percentage: 30 + (calendarIndex / totalCalendars) * 60,
+        })
+    );
+  }
+
+  /**
+   * Store every event of the pages `fetchPage` returns, until one has no next page token.
+   * Events with pending local edits are skipped.
+   */
+  private async storeEventPages(
+    calendarId: string,
+    timeZone: string,
+    pendingEventIds: Set<string>,
+    fetchPage: (pageToken?: string) => Promise<CalendarEventsResponse>,
+    onPage?: (eventsSynced: number) => void
+  ): Promise<EventPagesResult> {
+    let eventsSynced = 0;
+    let earliest = new Date(8640000000000000);
+    let latest = new Date(0);
+    let pageToken: string | undefined;
+    let nextSyncToken: string | undefined;
+    const seenEventIds = new Set<string>();
+    const changedEventIds = new Set<string>();
+
+    const seriesIds = await this.recurringEventService.getSeriesIds(calendarId);
+    const changedSeriesIds = new Set<string>();
+    const cancelledInstances = new Map<string, string[]>();
+    const widen = (range: TimeRange | null) => {
+      if (!range) return;
+      earliest = earliest < range.earliest ? earliest : range.earliest;
+      latest = latest > range.latest ? latest : range.latest;
+    };
+
+    do {
+      const response = await fetchPage(pageToken);
 
       // Process events in batches
       for (const googleEvent of response.items) {
-        const startTime = this.parseEventTime(googleEvent.start);
-        const endTime = this.parseEventTime(googleEvent.end);
+        seenEventIds.add(googleEvent.id);
+
+        if (pendingEventIds.has(googleEvent.id)) {
+          continue;
+        }
+
+        // Times are read in the event's own zone, all-day dates fall back to the calendar's
+        const startTime = parseEventTime(googleEvent.start, timeZone);
+        const endTime = parseEventTime(googleEvent.end, timeZone);
 
         if (googleEvent.status === 'cancelled') {
-          // Delete cancelled events
-          await this.drizzle.delete(events).where(eq(events.id, googleEvent.id));
+          if (googleEvent.recurringEventId) {
+            // Deleted instance of a series, applied once every series master is stored
+            cancelledInstances.set(googleEvent.recurringEventId, [
+              ...(cancelledInstances.get(googleEvent.recurringEventId) ?? []),
+              googleEvent.id,
+            ]);
+          } else if (seriesIds.has(googleEvent.id)) {
+            widen(await this.recurringEventService.deleteSeries(googleEvent.id));
+            seriesIds.delete(googleEvent.id);
+          } else {
+            // Delete cancelled events
+            await this.drizzle.delete(events).where(eq(events.id, googleEvent.id));
+          }
+        } else if (googleEvent.recurrence && startTime && endTime) {
+          await this.recurringEventService.upsertSeries(
+            calendarId,
+            googleEvent,
+            startTime,
+            endTime,
+            // The wall-clock zone the rule repeats in
+            googleEvent.start?.timeZone ?? timeZone
+          );
+          seriesIds.add(googleEvent.id);
+          changedSeriesIds.add(googleEvent.id);
         } else {
+          if (seriesIds.has(googleEvent.id)) {
+            // Series turned into a single event
+            widen(await this.recurringEventService.deleteSeries(googleEvent.id));
+            seriesIds.delete(googleEvent.id);
+          }
+
           // Calculate event duration
           const effectiveDuration =
             endTime && startTime
               ? Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)) // duration in minutes
               : 0;
 
-          // Upsert event
+          // Upsert event (category assignments are left untouched)
           await this.drizzle
             .insert(events)
             .values({
@@ -286,6 +711,12 @@ export class CalendarSyncService {
               start: startTime,
               end: endTime,
               effectiveDuration,
+              etag: googleEvent.etag,
+              remoteUpdatedAt: googleEvent.updated ? new Date(googleEvent.updated) : null,
+              // Modified instance of a series, replaces the locally expanded one
+              recurringEventId: googleEvent.recurringEventId,
+              originalStartTime: parseEventTime(googleEvent.originalStartTime, timeZone),
+              isException: !!googleEvent.recurringEventId,
             })
             .onConflictDoUpdate({
               target: events.id,
@@ -297,8 +728,14 @@ export class CalendarSyncService {
                 start: startTime,
                 end: endTime,
                 effectiveDuration,
+                etag: googleEvent.etag,
+                remoteUpdatedAt: googleEvent.updated ? new Date(googleEvent.updated) : null,
+                recurringEventId: googleEvent.recurringEventId ?? null,
+                originalStartTime: parseEventTime(googleEvent.originalStartTime, timeZone),
+                isException: !!googleEvent.recurringEventId,
               },
             });
+          changedEventIds.add(googleEvent.id);
         }
 
         eventsSynced++;
@@ -308,30 +745,68 @@ export class CalendarSyncService {
 
       pageToken = response.nextPageToken;
       nextSyncToken = response.nextSyncToken;
-
-      this.updateProgress({
-        status: 'syncing_events',
-        currentCalendar: calendarId,
-        totalCalendars,
-        processedCalendars: calendarIndex,
-        totalEvents: eventsSynced,
-        processedEvents: eventsSynced,
-        percentage: 30 + (calendarIndex / totalCalendars) * 60,
-      });
+      onPage?.(eventsSynced);
     } while (pageToken);
 
-    // Update calendar with new sync token and last sync timestamp
-    if (nextSyncToken) {
-      await this.drizzle
-        .update(calendars)
-        .set({
-          syncToken: nextSyncToken,
-          lastSyncAt: new Date(),
-        })
-        .where(eq(calendars.id, calendarId));
+    for (const [seriesId, instanceIds] of cancelledInstances) {
+      widen(await this.recurringEventService.cancelInstances(seriesId, instanceIds));
+      changedSeriesIds.add(seriesId);
+    }
+    for (const seriesId of changedSeriesIds) {
+      const { range, writtenEventIds } = await this.recurringEventService.expandSeries(
+        seriesId,
+        pendingEventIds
+      );
+      widen(range);
+      writtenEventIds.forEach((id) => changedEventIds.add(id));
     }
 
-    return { eventsSynced, earliest, latest };
+    return { eventsSynced, earliest, latest, nextSyncToken, seenEventIds, changedEventIds };
+  }
+
+  /**
+   * Delete the local events of a calendar that were not part of a full listing.
+   * Events with pending local edits are kept, the outbox replay decides their fate.
+   * Locally expanded instances live as long as their series does.
+   */
+  private async removeUnseenEvents(
+    calendarId: string,
+    seenEventIds: Set<string>,
+    pendingEventIds: Set<string>
+  ): Promise<Pick<DBEvent, 'id' | 'start' | 'end'>[]> {
+    const isKept = (id: string) => seenEventIds.has(id) || pendingEventIds.has(id);
+
+    const localEvents = await this.drizzle
+      .select({
+        id: events.id,
+        start: events.start,
+        end: events.end,
+        recurringEventId: events.recurringEventId,
+      })
+      .from(events)
+      .where(eq(events.calendarId, calendarId));
+
+    const unseen = localEvents.filter(
+      (event) => !isKept(event.id) && !(event.recurringEventId && isKept(event.recurringEventId))
+    );
+
+    const unseenSeriesIds = [...(await this.recurringEventService.getSeriesIds(calendarId))].filter(
+      (id) => !isKept(id)
+    );
+    if (unseenSeriesIds.length > 0) {
+      await this.drizzle.delete(eventSeries).where(inArray(eventSeries.id, unseenSeriesIds));
+    }
+
+    for (let i = 0; i < unseen.length; i += ID_BATCH_SIZE) {
+      const ids = unseen.slice(i, i + ID_BATCH_SIZE).map((event) => event.id);
+      await this.drizzle.delete(events).where(inArray(events.id, ids));
+    }
+
+    if (unseen.length > 0) {
+      console.log(`Removed ${unseen.length} events deleted remotely from calendar ${calendarId}`);
+    }
+
+    return unseen;
   }
 
   /**
@@ -344,7 +819,16 @@ export class CalendarSyncService {
     });
 
     try {
-      const stats = await this.categorizationService.categorizeEvents();
+      const stats = await this.categorizationService.categorizeEvents(undefined, {
+        onProgress: (completed, total) => {
+          this.updateProgress({
+            status: 'categorizing_events',
+            percentage: total > 0 ? Math.round((completed / total) * 100) : 100,
+            processedEvents: completed,
+            totalEvents: total,
+          });
+        },
+      });
 
       this.updateProgress({
         status: 'idle',
@@ -368,28 +852,17 @@ export class CalendarSyncService {
     }
   }
 
+  /**
+   * Get access to the Google Calendar client for write operations
+   */
+  getGoogleClient(): GoogleCalendarClient {
+    return this.googleClient;
+  }
+
   /**
    * Get access to the categorization service for advanced operations
    */
   getCategorizationService(): EventCategorizationService {
     return this.categorizationService;
   }
-
-  private parseEventTime(timeObj?: {
-    dateTime?: string;
-    date?: string;
-    timeZone?: string;
-  }): Date | null {
-    if (!timeObj) return null;
-
-    if (timeObj.dateTime) {
-      return new Date(timeObj.dateTime);
-    } else if (timeObj.date) {
-      // All-day event
-      // TODO: Handle time zone for all-day events
-      return new Date(timeObj.date + 'T00:00:00');
-    }
-
-    return null;
-  }
 }
@@ -0,0 +1,295 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { events, outbox, type DBEvent, type OutboxEntry } from '@/db/schema';
+import {
+  GoogleCalendarApiError,
+  type GoogleCalendarClient,
+  type GoogleCalendarEvent,
+  type GoogleCalendarEventPatch,
+} from '@/integrations/google_calendar';
+import { and, asc, eq, isNull, lte, or } from 'drizzle-orm';
+
+// Retry schedule: 30s, 1m, 2m, ... capped at 6h, given up after MAX_ATTEMPTS
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+export type OutboxReplayStatus = 'synced' | 'queued' | 'conflict' | 'failed';
+
+export interface OutboxReplayStats {
+  synced: number;
+  queued: number;
+  conflicts: number;
+  failed: number;
+}
+
+// Events as well as recurring series masters can be edited
+type RemoteEventVersion = Pick<DBEvent, 'id' | 'calendarId' | 'etag' | 'remoteUpdatedAt'>;
+
+export class OutboxService {
+  constructor(private db: DrizzleDB) {}
+
+  /**
+   * Queue a partial update of an event.
+   * A pending patch for the same event is merged into, so each event has at most one
+   * pending patch and it stays based on the remote version the first edit was made on.
+   */
+  async enqueuePatch(
+    event: RemoteEventVersion,
+    patch: GoogleCalendarEventPatch
+  ): Promise<OutboxEntry> {
+    const [existing] = await this.db
+      .select()
+      .from(outbox)
+      .where(
+        and(
+          eq(outbox.eventId, event.id),
+          eq(outbox.operation, 'patch'),
+          eq(outbox.status, 'pending')
+        )
+      )
+      .limit(1);
+
+    if (existing) {
+      const [merged] = await this.db
+        .update(outbox)
+        .set({
+          payload: this.mergePatches(existing.payload ?? {}, patch),
+          attempts: 0,
+          nextAttemptAt: null,
+          lastError: null,
+        })
+        .where(eq(outbox.id, existing.id))
+        .returning();
+      return merged;
+    }
+
+    const [entry] = await this.db
+      .insert(outbox)
+      .values({
+        operation: 'patch',
+        eventId: event.id,
+        calendarId: event.calendarId,
+        payload: patch,
+        baseEtag: event.etag,
+        baseUpdatedAt: event.remoteUpdatedAt,
+      })
+      .returning();
+    return entry;
+  }
+
+  /**
+   * Queue the deletion of an event, superseding any pending patch for it
+   */
+  async enqueueDelete(event: RemoteEventVersion): Promise<OutboxEntry> {
+    await this.db
+      .delete(outbox)
+      .where(and(eq(outbox.eventId, event.id), eq(outbox.status, 'pending')));
+
+    const [entry] = await this.db
+      .insert(outbox)
+      .values({
+        operation: 'delete',
+        eventId: event.id,
+        calendarId: event.calendarId,
+        baseEtag: event.etag,
+        baseUpdatedAt: event.remoteUpdatedAt,
+      })
+      .returning();
+    return entry;
+  }
+
+  async removeEntry(entryId: string): Promise<void> {
+    await this.db.delete(outbox).where(eq(outbox.id, entryId));
+  }
+
+  /**
+   * Ids of events with local edits that have not reached Google yet.
+   * Sync must not overwrite these rows with the (older) remote version.
+   */
+  async getPendingEventIds(): Promise<Set<string>> {
+    const rows = await this.db
+      .select({ eventId: outbox.eventId })
+      .from(outbox)
+      .where(eq(outbox.status, 'pending'));
+    return new Set(rows.map((row) => row.eventId));
+  }
+
+  async getEntries(status?: OutboxEntry['status']): Promise<OutboxEntry[]> {
+    const query = this.db.select().from(outbox);
+    return await (status ? query.where(eq(outbox.status, status)) : query).orderBy(
+      asc(outbox.createdAt)
+    );
+  }
+
+  /**
+   * Push every pending entry that is due.
+   * Stops at the first network failure, the remaining entries would fail the same way.
+   */
+  async replayPending(googleClient: GoogleCalendarClient): Promise<OutboxReplayStats> {
+    const stats: OutboxReplayStats = { synced: 0, queued: 0, conflicts: 0, failed: 0 };
+
+    const dueEntries = await this.db
+      .select()
+      .from(outbox)
+      .where(
+        and(
+          eq(outbox.status, 'pending'),
+          or(isNull(outbox.nextAttemptAt), lte(outbox.nextAttemptAt, new Date()))
+        )
+      )
+      .orderBy(asc(outbox.createdAt));
+
+    for (let i = 0; i < dueEntries.length; i++) {
+      const { status, offline } = await this.pushEntry(dueEntries[i], googleClient);
+
+      if (status === 'synced') stats.synced++;
+      else if (status === 'conflict') stats.conflicts++;
+      else if (status === 'failed') stats.failed++;
+      else stats.queued++;
+
+      if (offline) {
+        stats.queued += dueEntries.length - i - 1;
+        break;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Push a single entry right away, e.g. just after the user made the edit
+   */
+  async replayEntry(
+    entryId: string,
+    googleClient: GoogleCalendarClient
+  ): Promise<OutboxReplayStatus> {
+    const [entry] = await this.db.select().from(outbox).where(eq(outbox.id, entryId)).limit(1);
+    if (!entry) {
+      throw new Error(`Outbox entry with ID ${entryId} not found`);
+    }
+
+    const { status } = await this.pushEntry(entry, googleClient);
+    return status;
+  }
+
+  private async pushEntry(
+    entry: OutboxEntry,
+    googleClient: GoogleCalendarClient
+  ): Promise<{ status: OutboxReplayStatus; offline?: boolean }> {
+    const { calendarId, eventId } = entry;
+
+    try {
+      // Rows synced before etags were stored can only be checked against `updated`
+      if (!entry.baseEtag && entry.baseUpdatedAt) {
+        const remote = await googleClient.client.calendar.events.get({ calendarId, eventId });
+        if (remote.updated && new Date(remote.updated) > entry.baseUpdatedAt) {
+          await this.markConflict(entry, `Event was changed remotely at ${remote.updated}`);
+          return { status: 'conflict' };
+        }
+      }
+
+      const ifMatch = entry.baseEtag ?? undefined;
+      if (entry.operation === 'delete') {
+        await googleClient.client.calendar.events.delete({ calendarId, eventId, ifMatch });
+      } else {
+        const remote = await googleClient.client.calendar.events.patch({
+          calendarId,
+          eventId,
+          requestBody: entry.payload ?? {},
+          ifMatch,
+        });
+        await this.storeRemoteVersion(eventId, remote);
+      }
+
+      await this.removeEntry(entry.id);
+      return { status: 'synced' };
+    } catch (error) {
+      if (error instanceof GoogleCalendarApiError) {
+        if (error.status === 412) {
+          await this.markConflict(entry, 'Event was changed remotely');
+          return { status: 'conflict' };
+        }
+        if (error.status === 404 || error.status === 410) {
+          await this.markConflict(entry, 'Event no longer exists remotely');
+          return { status: 'conflict' };
+        }
+        // Auth, rate limit and server errors are worth another try
+        if (error.status === 401 || error.status === 429 || error.status >= 500) {
+          return { status: await this.scheduleRetry(entry, error) };
+        }
+
+        await this.db
+          .update(outbox)
+          .set({ status: 'failed', attempts: entry.attempts + 1, lastError: error.message })
+          .where(eq(outbox.id, entry.id));
+        return { status: 'failed' };
+      }
+
+      // fetch() rejects without a response when the device is offline
+      return { status: await this.scheduleRetry(entry, error), offline: true };
+    }
+  }
+
+  private async scheduleRetry(entry: OutboxEntry, error: unknown): Promise<OutboxReplayStatus> {
+    const attempts = entry.attempts + 1;
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (attempts >= MAX_ATTEMPTS) {
+      await this.db
+        .update(outbox)
+        .set({ status: 'failed', attempts, lastError })
+        .where(eq(outbox.id, entry.id));
+      return 'failed';
+    }
+
+    const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+    await this.db
+      .update(outbox)
+      .set({ attempts, lastError, nextAttemptAt: new Date(Date.now() + delay) })
+      .where(eq(outbox.id, entry.id));
+    return 'queued';
+  }
+
+  /**
+   * Keep the entry as a conflict, the next sync pulls the remote version and drops it
+   */
+  private async markConflict(entry: OutboxEntry, reason: string): Promise<void> {
+    console.warn(`Outbox conflict for event ${entry.eventId}: ${reason}`);
+    await this.db
+      .update(outbox)
+      .set({ status: 'conflict', attempts: entry.attempts + 1, lastError: reason })
+      .where(eq(outbox.id, entry.id));
+  }
+
+  private async storeRemoteVersion(eventId: string, remote: GoogleCalendarEvent): Promise<void> {
+    await this.db
+      .update(events)
+      .set({
+        etag: remote.etag ?? null,
+        remoteUpdatedAt: remote.updated ? new Date(remote.updated) : null,
+      })
+      .where(eq(events.id, eventId));
+  }
+
+  private mergePatches(
+    base: GoogleCalendarEventPatch,
+    patch: GoogleCalendarEventPatch
+  ): GoogleCalendarEventPatch {
+    const merged: GoogleCalendarEventPatch = { ...base, ...patch };
+
+    if (base.extendedProperties || patch.extendedProperties) {
+      merged.extendedProperties = {
+        private: {
+          ...base.extendedProperties?.private,
+          ...patch.extendedProperties?.private,
+        },
+        shared: {
+          ...base.extendedProperties?.shared,
+          ...patch.extendedProperties?.shared,
+        },
+      };
+    }
+
+    return merged;
+  }
+}
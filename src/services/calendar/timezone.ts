@@ -0,0 +1,163 @@
+import { TZDate } from '@date-fns/tz';
+
+/**
+ * Day and period arithmetic in an explicit IANA time zone.
+ * Dates stay absolute instants, the zone only decides where days, weeks and months begin.
+ */
+
+export type PeriodType = 'daily' | 'weekly' | 'monthly' | 'annually';
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Whether the runtime knows the IANA zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start or end time of a Google Calendar event.
+ * All-day dates (`2024-01-05`) start at midnight in the event's zone,
+ * falling back to the zone of its calendar.
+ */
+export function parseEventTime(
+  timeObj: { dateTime?: string; date?: string; timeZone?: string } | undefined,
+  fallbackTimeZone: string
+): Date | null {
+  if (!timeObj) return null;
+
+  if (timeObj.dateTime) {
+    // RFC 3339 values from Google always carry an offset
+    return new Date(timeObj.dateTime);
+  } else if (timeObj.date) {
+    const [year, month, day] = timeObj.date.split('-').map((part) => parseInt(part, 10));
+    return new Date(new TZDate(year, month - 1, day, timeObj.timeZone ?? fallbackTimeZone));
+  }
+
+  return null;
+}
+
+/**
+ * `YYYY-MM-DD` of the day the instant falls on in the zone
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const local = new TZDate(date.getTime(), timeZone);
+  return [
+    local.getFullYear(),
+    String(local.getMonth() + 1).padStart(2, '0'),
+    String(local.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * First and last millisecond of a `YYYY-MM-DD` day in the zone (23 or 25 hours on DST changes)
+ */
+export function getDayBounds(
+  dateKey: string,
+  timeZone: string
+): { startOfDay: Date; endOfDay: Date } {
+  const [year, month, day] = dateKey.split('-').map((part) => parseInt(part, 10));
+  const startOfDay = new TZDate(year, month - 1, day, timeZone);
+  const nextDay = new TZDate(year, month - 1, day + 1, timeZone);
+  return { startOfDay: new Date(startOfDay), endOfDay: new Date(nextDay.getTime() - 1) };
+}
+
+/**
+ * Instant at a wall-clock time of day, e.g. 540 minutes is 09:00 that day in the zone
+ */
+export function atMinutesIntoDay(dateKey: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = dateKey.split('-').map((part) => parseInt(part, 10));
+  return new Date(new TZDate(year, month - 1, day, 0, minutes, timeZone));
+}
+
+/**
+ * Wall-clock minutes since midnight in the zone
+ */
+export function getMinutesIntoDay(date: Date, timeZone: string): number {
+  const local = new TZDate(date.getTime(), timeZone);
+  return local.getHours() * 60 + local.getMinutes();
+}
+
+/**
+ * Wall-clock minutes relative to midnight of a `YYYY-MM-DD` day in the zone,
+ * negative for instants on earlier days and past 1440 for later ones
+ */
+export function getMinutesFromDayStart(date: Date, dateKey: string, timeZone: string): number {
+  const local = new TZDate(date.getTime(), timeZone);
+  const [year, month, day] = dateKey.split('-').map((part) => parseInt(part, 10));
+  const dayOffset = Math.round(
+    (Date.UTC(local.getFullYear(), local.getMonth(), local.getDate()) -
+      Date.UTC(year, month - 1, day)) /
+      (24 * 60 * 60 * 1000)
+  );
+  return dayOffset * 24 * 60 + local.getHours() * 60 + local.getMinutes();
+}
+
+/**
+ * Day of the week in the zone, 0 is Sunday
+ */
+export function getDayOfWeek(date: Date, timeZone: string): number {
+  return new TZDate(date.getTime(), timeZone).getDay();
+}
+
+/**
+ * Move by whole calendar units, keeping the wall-clock time in the zone
+ */
+export function addToDate(
+  date: Date,
+  amount: { days?: number; months?: number; years?: number },
+  timeZone: string
+): Date {
+  const local = new TZDate(date.getTime(), timeZone);
+  if (amount.years) local.setFullYear(local.getFullYear() + amount.years);
+  if (amount.months) local.setMonth(local.getMonth() + amount.months);
+  if (amount.days) local.setDate(local.getDate() + amount.days);
+  return new Date(local);
+}
+
+/**
+ * Day, week (starting Monday), month or year containing the reference date
+ */
+export function getPeriodRange(
+  type: PeriodType,
+  referenceDate: Date,
+  timeZone: string
+): { start: Date; end: Date } {
+  const local = new TZDate(referenceDate.getTime(), timeZone);
+  const year = local.getFullYear();
+  const month = local.getMonth();
+  const day = local.getDate();
+
+  let start: TZDate;
+  let next: TZDate;
+  switch (type) {
+    case 'daily':
+      start = new TZDate(year, month, day, timeZone);
+      next = new TZDate(year, month, day + 1, timeZone);
+      break;
+    case 'weekly': {
+      const mondayOffset = (local.getDay() + 6) % 7;
+      start = new TZDate(year, month, day - mondayOffset, timeZone);
+      next = new TZDate(year, month, day - mondayOffset + 7, timeZone);
+      break;
+    }
+    case 'monthly':
+      start = new TZDate(year, month, 1, timeZone);
+      next = new TZDate(year, month + 1, 1, timeZone);
+      break;
+    case 'annually':
+      start = new TZDate(year, 0, 1, timeZone);
+      next = new TZDate(year + 1, 0, 1, timeZone);
+      break;
+  }
+
+  return { start: new Date(start), end: new Date(next.getTime() - 1) };
+}
@@ -1,13 +1,13 @@
 import type { DrizzleDB } from '@/db/SQLiteProvider';
 import { categories, type Category } from '@/db/schema';
-import type { CategoryRule } from '@/types/category_rule';
+import { normalizeCategoryRules, type RuleNode } from '@/types/category_rule';
 import { desc, eq, isNull } from 'drizzle-orm';
 
 export interface CreateCategoryInput {
   name: string;
   color: string;
   priority?: number;
-  rules?: CategoryRule[];
+  rules?: RuleNode[];
   parentCategoryId?: string;
 }
 
@@ -15,7 +15,7 @@ export interface UpdateCategoryInput {
   name?: string;
   color?: string;
   priority?: number;
-  rules?: CategoryRule[];
+  rules?: RuleNode[];
   parentCategoryId?: string;
 }
 
@@ -33,6 +33,16 @@ export const UNCATEGORIZED_CATEGORY: Category = {
   parentCategoryId: null,
 };
 
+// Virtual category for working hours no event covers
+export const UNACCOUNTED_CATEGORY: Category = {
+  id: '__unaccounted__',
+  name: 'Unaccounted',
+  color: '#E5E7EB',
+  priority: -2,
+  rules: null,
+  parentCategoryId: null,
+};
+
 export class CategoryService {
   constructor(private db: DrizzleDB) {}
 
@@ -75,6 +85,18 @@ export class CategoryService {
     return category || null;
   }
 
+  /**
+   * Append a rule to a category, after the rules it already has
+   */
+  async addRule(id: string, rule: RuleNode): Promise<Category | null> {
+    const category = await this.getCategoryById(id);
+    if (!category) return null;
+
+    return await this.updateCategory(id, {
+      rules: [...normalizeCategoryRules(category.rules), rule],
+    });
+  }
+
   async deleteCategory(id: string): Promise<boolean> {
     // Check if category has children
     const children = await this.db
@@ -96,6 +118,9 @@ export class CategoryService {
     if (id === UNCATEGORIZED_CATEGORY.id) {
       return UNCATEGORIZED_CATEGORY;
     }
+    if (id === UNACCOUNTED_CATEGORY.id) {
+      return UNACCOUNTED_CATEGORY;
+    }
 
     const [category] = await this.db
       .select()
@@ -2,18 +2,18 @@ import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system';
 import type { DrizzleDB } from '@/db/SQLiteProvider';
 import { CategoryService, type CategoryWithChildren } from '../CategoryService';
-import type { CategoryRule } from '@/types/category_rule';
+import type { RuleNode } from '@/types/category_rule';
 
 export interface ExportedCategory {
   name: string;
   color: string;
   priority: number;
-  rules?: CategoryRule[];
+  rules?: RuleNode[];
   children?: ExportedCategory[];
 }
 
 export interface CategoryExportData {
-  version: '1.0';
+  version: '3.0';
   exportDate: string;
   categories: ExportedCategory[];
 }
@@ -35,7 +35,7 @@ export class CategoryExportService {
 
       // Convert to export format
       const exportData: CategoryExportData = {
-        version: '1.0',
+        version: '3.0',
         exportDate: new Date().toISOString(),
         categories: this.convertToExportFormat(categoriesTree),
       };
@@ -102,7 +102,7 @@ export class CategoryExportService {
     const categoriesTree = await this.categoryService.getCategoriesTree();
 
     return {
-      version: '1.0',
+      version: '3.0',
       exportDate: new Date().toISOString(),
       categories: this.convertToExportFormat(categoriesTree),
     };
@@ -3,21 +3,22 @@ import * as FileSystem from 'expo-file-system';
 import type { DrizzleDB } from '@/db/SQLiteProvider';
 import { categories, events } from '@/db/schema';
 import { CategoryService, type CreateCategoryInput } from '../CategoryService';
-import type { CategoryExportData, ExportedCategory } from './CategoryExportService';
+import type { ExportedCategory } from './CategoryExportService';
 import { z } from 'zod';
-import { CategoryRuleSchema } from '@/types/category_rule';
+import { RuleNodeSchema } from '@/types/category_rule';
 
 // Validation schema for imported data
 const ExportedCategorySchema: z.ZodType<ExportedCategory> = z.object({
   name: z.string(),
   color: z.string(),
   priority: z.number(),
-  rules: z.array(CategoryRuleSchema).optional(),
+  rules: z.array(RuleNodeSchema).optional(),
   children: z.lazy(() => z.array(ExportedCategorySchema).optional()),
 });
 
 const CategoryExportDataSchema = z.object({
-  version: z.literal('1.0'),
+  // 1.0 exports hold title-only rules, upgraded by CategoryRuleSchema, 2.0 has no groups
+  version: z.enum(['1.0', '2.0', '3.0']),
   exportDate: z.string(),
   categories: z.array(ExportedCategorySchema),
 });
@@ -118,7 +119,7 @@ export class CategoryImportService {
         return result;
       }
 
-      const importData: CategoryExportData = validationResult.data;
+      const importData = validationResult.data;
 
       // Clear existing categories and reset event category references
       await this.clearExistingCategories();
@@ -149,7 +150,7 @@ export class CategoryImportService {
   private async clearExistingCategories(): Promise<void> {
     try {
       // Set all event categoryId to NULL where it's not already null
-      await this.db.update(events).set({ categoryId: null });
+      await this.db.update(events).set({ categoryId: null, categoryRuleMatch: null });
 
       // Delete all categories
       await this.db.delete(categories);
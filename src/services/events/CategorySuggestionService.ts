@@ -0,0 +1,268 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { calendars, categories, events, type Category, type DBEvent } from '@/db/schema';
+import {
+  CATEGORY_RULE_VERSION,
+  type CategoryRule,
+  type RuleNode,
+  type TextCategoryRule,
+} from '@/types/category_rule';
+import { and, desc, eq, isNotNull } from 'drizzle-orm';
+import { getDeviceTimeZone, getMinutesIntoDay } from '../calendar/timezone';
+
+// Most recent manual assignments the model learns from
+const MAX_TRAINING_EVENTS = 5000;
+// Start times are grouped into blocks of this many hours
+const TIME_BUCKET_HOURS = 3;
+// Below this a suggestion is more of a guess than a pattern
+const MIN_CONFIDENCE = 0.5;
+// Share of events with a title word or calendar that must belong to the category for a rule
+const MIN_RULE_PRECISION = 0.8;
+const MIN_RULE_SUPPORT = 2;
+
+const STOP_WORDS = new Set(['the', 'and', 'with', 'for', 'of', 'to', 'in', 'on', 'at', 'an']);
+
+type TrainingEvent = Pick<DBEvent, 'title' | 'calendarId' | 'start' | 'isAllDay'>;
+
+interface SuggestionModel {
+  categories: Map<string, Category>;
+  // Manual assignments per category
+  eventCounts: Map<string, number>;
+  // Features seen per category, each counted once per event
+  featureCounts: Map<string, Map<string, number>>;
+  featureTotals: Map<string, number>;
+  // Features seen across all categories, with how many events had them
+  vocabulary: Map<string, number>;
+  totalEvents: number;
+  calendarTimeZones: Map<string, string>;
+}
+
+export interface CategorySuggestion {
+  category: Category;
+  // Between 0 and 1, how strongly past manual assignments point to the category
+  confidence: number;
+  // Manual assignments to the category sharing a title word, calendar or time with the event
+  supportCount: number;
+  // A rule capturing what the category's events have in common, null when nothing stands out
+  rule: CategoryRule | null;
+}
+
+/**
+ * Lowercased title words without accents, the same normalization rules apply with
+ * `normalizeUnicode` and case-insensitive matching
+ */
+export function tokenizeTitle(title: string | null): string[] {
+  const normalized = (title || '').normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+  const tokens = normalized
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token) && !/^\d+$/.test(token));
+  return [...new Set(tokens)];
+}
+
+/**
+ * Rule matching a title word as produced by `tokenizeTitle`, in any case, accent or spacing
+ */
+export function createTitleWordRule(token: string): TextCategoryRule {
+  return {
+    version: CATEGORY_RULE_VERSION,
+    type: 'CONTAINS',
+    field: 'title',
+    content: token,
+    caseSensitive: false,
+    trimWhitespace: true,
+    normalizeUnicode: true,
+    wholeWord: true,
+  };
+}
+
+/**
+ * Rule matching titles with all of the words, null without any
+ */
+export function createTitleWordsRule(tokens: string[]): RuleNode | null {
+  if (tokens.length === 0) return null;
+  if (tokens.length === 1) return createTitleWordRule(tokens[0]);
+  return { operator: 'AND', children: tokens.map(createTitleWordRule) };
+}
+
+/**
+ * Suggests categories for uncategorized events from the events categorized manually,
+ * using a naive Bayes model over title words, calendar and time of day. Runs on-device.
+ */
+export class CategorySuggestionService {
+  private model: SuggestionModel | null = null;
+
+  constructor(private db: DrizzleDB) {}
+
+  /**
+   * Best category for each event that has a suggestion, keyed by event id
+   */
+  async suggestCategories(eventsToSuggest: DBEvent[]): Promise<Map<string, CategorySuggestion>> {
+    const model = await this.getModel();
+    const suggestions = new Map<string, CategorySuggestion>();
+
+    for (const event of eventsToSuggest) {
+      const suggestion = this.suggest(model, event);
+      if (suggestion) {
+        suggestions.set(event.id, suggestion);
+      }
+    }
+
+    return suggestions;
+  }
+
+  async suggestCategory(eventId: string): Promise<CategorySuggestion | null> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, eventId)).limit(1);
+    if (!event) {
+      throw new Error(`Event with ID ${eventId} not found`);
+    }
+
+    return this.suggest(await this.getModel(), event);
+  }
+
+  /**
+   * Learn again from the current manual assignments on the next suggestion
+   */
+  reset() {
+    this.model = null;
+  }
+
+  private async getModel(): Promise<SuggestionModel> {
+    if (this.model) return this.model;
+
+    const categoryRows = await this.db.select().from(categories);
+    const calendarRows = await this.db
+      .select({ id: calendars.id, timeZone: calendars.timeZone })
+      .from(calendars);
+    const training = await this.db
+      .select({
+        title: events.title,
+        calendarId: events.calendarId,
+        start: events.start,
+        isAllDay: events.isAllDay,
+        categoryId: events.categoryId,
+      })
+      .from(events)
+      .where(and(eq(events.isManuallyCategorized, true), isNotNull(events.categoryId)))
+      .orderBy(desc(events.start))
+      .limit(MAX_TRAINING_EVENTS);
+
+    const model: SuggestionModel = {
+      categories: new Map(categoryRows.map((category) => [category.id, category])),
+      eventCounts: new Map(),
+      featureCounts: new Map(),
+      featureTotals: new Map(),
+      vocabulary: new Map(),
+      totalEvents: 0,
+      calendarTimeZones: new Map(calendarRows.map((row) => [row.id, row.timeZone])),
+    };
+
+    for (const { categoryId, ...event } of training) {
+      // Assignments to categories deleted since can't be suggested
+      if (!categoryId || !model.categories.has(categoryId)) continue;
+
+      const counts = model.featureCounts.get(categoryId) ?? new Map<string, number>();
+      const features = this.getFeatures(model, event);
+      for (const feature of features) {
+        counts.set(feature, (counts.get(feature) || 0) + 1);
+        model.vocabulary.set(feature, (model.vocabulary.get(feature) || 0) + 1);
+      }
+      model.featureCounts.set(categoryId, counts);
+      model.featureTotals.set(
+        categoryId,
+        (model.featureTotals.get(categoryId) || 0) + features.length
+      );
+      model.eventCounts.set(categoryId, (model.eventCounts.get(categoryId) || 0) + 1);
+      model.totalEvents++;
+    }
+
+    this.model = model;
+    return model;
+  }
+
+  private getFeatures(model: SuggestionModel, event: TrainingEvent): string[] {
+    const features = tokenizeTitle(event.title).map((token) => `title:${token}`);
+    features.push(`calendar:${event.calendarId}`);
+
+    if (event.isAllDay) {
+      features.push('time:all-day');
+    } else if (event.start) {
+      const timeZone = model.calendarTimeZones.get(event.calendarId) ?? getDeviceTimeZone();
+      const hour = Math.floor(getMinutesIntoDay(event.start, timeZone) / 60);
+      features.push(`time:${Math.floor(hour / TIME_BUCKET_HOURS)}`);
+    }
+
+    return features;
+  }
+
+  private suggest(model: SuggestionModel, event: DBEvent): CategorySuggestion | null {
+    if (model.totalEvents === 0) return null;
+
+    const features = this.getFeatures(model, event);
+    const vocabularySize = model.vocabulary.size + 1;
+
+    // Log-probabilities with add-one smoothing, features never seen before carry no evidence
+    const scores: { categoryId: string; score: number; supportCount: number }[] = [];
+    for (const [categoryId, eventCount] of model.eventCounts) {
+      const counts = model.featureCounts.get(categoryId)!;
+      const featureTotal = model.featureTotals.get(categoryId) || 0;
+      let score = Math.log(eventCount / model.totalEvents);
+      let supportCount = 0;
+
+      for (const feature of features) {
+        if (!model.vocabulary.has(feature)) continue;
+        const count = counts.get(feature) || 0;
+        score += Math.log((count + 1) / (featureTotal + vocabularySize));
+        supportCount = Math.max(supportCount, count);
+      }
+      scores.push({ categoryId, score, supportCount });
+    }
+
+    const best = scores.reduce((prev, current) => (current.score > prev.score ? current : prev));
+    // Softmax over the log scores, shifted by the best one to stay in range
+    const total = scores.reduce((sum, { score }) => sum + Math.exp(score - best.score), 0);
+    const confidence = 1 / total;
+
+    if (best.supportCount === 0 || confidence < MIN_CONFIDENCE) return null;
+
+    return {
+      category: model.categories.get(best.categoryId)!,
+      confidence,
+      supportCount: best.supportCount,
+      rule: this.suggestRule(model, event, best.categoryId),
+    };
+  }
+
+  /**
+   * The event's title word or calendar that is most typical of the category, as a rule
+   */
+  private suggestRule(
+    model: SuggestionModel,
+    event: DBEvent,
+    categoryId: string
+  ): CategoryRule | null {
+    const counts = model.featureCounts.get(categoryId)!;
+    const isTypical = (feature: string) => {
+      const count = counts.get(feature) || 0;
+      return (
+        count >= MIN_RULE_SUPPORT && count / model.vocabulary.get(feature)! >= MIN_RULE_PRECISION
+      );
+    };
+
+    const token = tokenizeTitle(event.title)
+      .filter((candidate) => isTypical(`title:${candidate}`))
+      .sort((a, b) => (counts.get(`title:${b}`) || 0) - (counts.get(`title:${a}`) || 0))[0];
+    if (token) {
+      return createTitleWordRule(token);
+    }
+
+    if (isTypical(`calendar:${event.calendarId}`)) {
+      return {
+        version: CATEGORY_RULE_VERSION,
+        type: 'EQUALS',
+        field: 'calendarId',
+        content: event.calendarId,
+      };
+    }
+
+    return null;
+  }
+}
@@ -1,7 +1,56 @@
 import type { DrizzleDB } from '@/db/SQLiteProvider';
-import { events, categories, type DBEvent, type Category } from '@/db/schema';
-import type { CategoryRule } from '@/types/category_rule';
-import { eq, isNull, desc, and, or, inArray } from 'drizzle-orm';
+import {
+  events,
+  categories,
+  calendars,
+  eventSeries,
+  type DBEvent,
+  type Category,
+} from '@/db/schema';
+import {
+  RULE_FIELDS,
+  RULE_FIELD_LABELS,
+  describeRuleNode,
+  formatTimeOfDay,
+  isRuleGroup,
+  normalizeCategoryRules,
+  parseTimeOfDay,
+  type CategoryRuleMatch,
+  type RuleNode,
+  type TextCategoryRule,
+} from '@/types/category_rule';
+import {
+  eq,
+  isNull,
+  desc,
+  and,
+  or,
+  inArray,
+  gte,
+  gt,
+  lte,
+  count,
+  max,
+  min,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import { getDeviceTimeZone, getMinutesIntoDay } from '../calendar/timezone';
+import { SettingsService } from '../settings/SettingsService';
+import { EventDurationService } from './EventDurationService';
+import { notifyEventsChanged } from './eventChanges';
+import {
+  compileCategories,
+  compileRuleNode,
+  compileTextRule,
+  getFieldValue,
+  type CompiledCategory,
+} from './ruleMatching';
+
+// Events read, matched and written per transaction before yielding to the UI
+const CATEGORIZE_BATCH_SIZE = 500;
+// Rows per UPDATE statement, keeps the bound parameters well under SQLite's limit
+const UPDATE_BATCH_SIZE = 100;
 
 export interface CategorizationResult {
   eventId: string;
@@ -9,6 +58,91 @@ export interface CategorizationResult {
   isManuallyCategorized?: boolean;
 }
 
+// For instances of a recurring series: change only this instance, or the whole series
+export type ManualAssignmentScope = 'instance' | 'series';
+
+const MAX_NEAR_MISSES = 5;
+// How far off a duration or start time may be to count as a near miss
+const NEAR_MISS_MINUTES = 15;
+
+// Stands in for the id of a category that isn't saved yet
+const DRAFT_CATEGORY_ID = '__draft__';
+
+// Unsaved state of a category form, `id` is left out for new categories
+export interface CategoryDraft {
+  id?: string;
+  name: string;
+  color: string;
+  priority: number;
+  rules: RuleNode[];
+}
+
+export interface RulePreview {
+  // Events in the range that rules may categorize
+  total: number;
+  // Events that would end up in the category
+  matching: number;
+  // Not in the category yet, with the category they would leave
+  newlyMatching: { event: DBEvent; fromCategory: Category | null }[];
+  movedFrom: { category: Category; count: number }[];
+  // In the category now, with the category they would go to instead
+  leaving: { event: DBEvent; toCategory: Category | null }[];
+}
+
+export interface CategoryMatch {
+  category: Category;
+  // Positions of the category's top-level rules or groups that matched
+  ruleIndexes: number[];
+}
+
+export interface CategorizationConflict {
+  event: DBEvent;
+  // In category priority order, highest first
+  matches: CategoryMatch[];
+  winner: Category;
+  // 'tie' when another match had the same priority as the winner
+  reason: 'priority' | 'tie';
+}
+
+export interface ConflictReport {
+  // Events in the range that rules may categorize
+  total: number;
+  conflicts: CategorizationConflict[];
+  // Categories with rules that never decided an event, and how often they matched anyway
+  neverWinning: { category: Category; matchCount: number }[];
+}
+
+export interface NearMiss {
+  category: Category;
+  // Position of the top-level rule or group in the category
+  ruleIndex: number;
+  rule: RuleNode;
+  reason: string;
+}
+
+export type CategoryExplanation =
+  | { kind: 'manual'; category: Category | null }
+  // `isRecorded` is false for events categorized before matches were stored,
+  // `match` is then worked out from the current rules, null if they no longer match
+  | { kind: 'rule'; category: Category; match: CategoryRuleMatch | null; isRecorded: boolean }
+  | { kind: 'none'; nearMisses: NearMiss[] };
+
+export interface CategorizationOptions {
+  // Called after each batch is written
+  onProgress?: (completed: number, total: number) => void;
+  // Checked between batches, batches already written are kept
+  signal?: AbortSignal;
+  // Set when the caller recalculates the durations of the range itself, e.g. a sync
+  skipDurations?: boolean;
+}
+
+// Result of running the rules over one event, written together with others in a batch
+interface CategorizationUpdate {
+  eventId: string;
+  categoryId: string | null;
+  categoryRuleMatch: CategoryRuleMatch | null;
+}
+
 export interface CategorizationStats {
   total: number;
   categorized: number;
@@ -16,23 +150,64 @@ export interface CategorizationStats {
   autoCategories: { [categoryName: string]: number };
 }
 
+export interface CategorizationRunStats extends CategorizationStats {
+  // Events whose category or matched rules were written, listeners are notified of them
+  updatedEventIds: string[];
+}
+
 export class EventCategorizationService {
   private categories: Category[] | null = null;
+  private calendarTimeZones: Map<string, string> | null = null;
+  private compiledCategories: CompiledCategory[] | null = null;
+  private durationService: EventDurationService;
+  private settingsService: SettingsService;
 
-  constructor(private db: DrizzleDB) {}
+  constructor(private db: DrizzleDB) {
+    this.durationService = new EventDurationService(db);
+    this.settingsService = new SettingsService(db);
+  }
 
   async getCategories(refresh = false) {
     if (this.categories && !refresh) return this.categories;
+    if (refresh) this.calendarTimeZones = null;
 
     // Get all categories with rules ordered by priority (highest first)
     this.categories = await this.db
       .select()
       .from(categories)
       .orderBy(desc(categories.priority), categories.name);
+    this.compiledCategories = null;
 
     return this.categories;
   }
 
+  /**
+   * Categories with their rules parsed and compiled, in `getCategories` order
+   */
+  private async getCompiledCategories() {
+    if (this.compiledCategories) return this.compiledCategories;
+
+    const categories = await this.getCategories();
+    const calendarTimeZones = await this.getCalendarTimeZones();
+    this.compiledCategories = compileCategories(categories, calendarTimeZones);
+
+    return this.compiledCategories;
+  }
+
+  /**
+   * Zone of each calendar, time-of-day rules compare against the wall clock there
+   */
+  private async getCalendarTimeZones(refresh = false) {
+    if (this.calendarTimeZones && !refresh) return this.calendarTimeZones;
+
+    const rows = await this.db
+      .select({ id: calendars.id, timeZone: calendars.timeZone })
+      .from(calendars);
+    this.calendarTimeZones = new Map(rows.map((row) => [row.id, row.timeZone]));
+
+    return this.calendarTimeZones;
+  }
+
   /**
    * Auto-categorize a single event based on category rules
    */
@@ -46,154 +221,469 @@ export class EventCategorizationService {
       };
     }
 
-    const categories = await this.getCategories();
+    const compiledCategories = await this.getCompiledCategories();
+    const winner = this.pickWinner(this.getCategoryMatches(event, compiledCategories));
+    const update = this.getCategorizationUpdate(
+      event,
+      winner,
+      compiledCategories,
+      new Date().toISOString()
+    );
+    if (update) {
+      this.writeCategorizations([update]);
+    }
 
-    // Find list of matching categories
-    const matchingCategories: typeof categories = [];
-    for (const category of categories) {
-      const rules = category.rules as CategoryRule[];
-      if (!rules || rules.length === 0) continue;
+    return {
+      eventId: event.id,
+      categoryId: winner?.category.id ?? null,
+      isManuallyCategorized: false,
+    };
+  }
 
-      for (const rule of rules) {
-        if (this.eventMatchesRule(event, rule)) {
-          matchingCategories.push(category);
+  /**
+   * Events a rule preview runs over: those in the range that rules may categorize,
+   * loaded once so edits only re-run the matching
+   */
+  async getPreviewEvents(range: { start: Date; end: Date }): Promise<DBEvent[]> {
+    // Manual assignments never change through rules
+    return await this.db
+      .select()
+      .from(events)
+      .where(
+        and(
+          lte(events.start, range.end),
+          gte(events.end, range.start),
+          or(eq(events.isManuallyCategorized, false), isNull(events.isManuallyCategorized))
+        )
+      )
+      .orderBy(desc(events.start));
+  }
+
+  /**
+   * Dry run of a category's rules over events from getPreviewEvents, nothing is written.
+   * Shows which events the draft would take over and which would fall out of it.
+   */
+  async previewRules(draft: CategoryDraft, candidates: DBEvent[]): Promise<RulePreview> {
+    const storedCategories = await this.getCategories(true);
+    const calendarTimeZones = await this.getCalendarTimeZones();
+
+    const draftId = draft.id ?? DRAFT_CATEGORY_ID;
+    const existing = storedCategories.find((category) => category.id === draftId);
+    const draftCategory: Category = {
+      id: draftId,
+      name: draft.name || existing?.name || 'New category',
+      color: draft.color || existing?.color || '#3B82F6',
+      priority: draft.priority,
+      rules: draft.rules,
+      parentCategoryId: existing?.parentCategoryId ?? null,
+    };
+    // Same order as getCategories, ties between priorities resolve like a real run.
+    // SQLite compares names by their bytes, not by locale.
+    const categoriesWithDraft = [
+      ...storedCategories.filter((category) => category.id !== draftId),
+      draftCategory,
+    ].sort(
+      (a, b) =>
+        (b.priority || 0) - (a.priority || 0) || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0)
+    );
+    const compiledCategories = compileCategories(categoriesWithDraft, calendarTimeZones);
+    const categoryById = new Map(storedCategories.map((category) => [category.id, category]));
+
+    const preview: RulePreview = {
+      total: candidates.length,
+      matching: 0,
+      newlyMatching: [],
+      movedFrom: [],
+      leaving: [],
+    };
+    const movedCounts = new Map<string, number>();
+
+    for (const event of candidates) {
+      const matched = this.pickWinner(this.getCategoryMatches(event, compiledCategories))?.category;
+      const isInDraft = matched?.id === draftId;
+      const wasInDraft = event.categoryId === draftId;
+
+      if (isInDraft) {
+        preview.matching++;
+      }
+      if (isInDraft && !wasInDraft) {
+        const fromCategory = event.categoryId ? (categoryById.get(event.categoryId) ?? null) : null;
+        preview.newlyMatching.push({ event, fromCategory });
+        if (fromCategory) {
+          movedCounts.set(fromCategory.id, (movedCounts.get(fromCategory.id) || 0) + 1);
         }
+      } else if (!isInDraft && wasInDraft) {
+        preview.leaving.push({ event, toCategory: matched ?? null });
       }
     }
 
-    // Find the one with highest priority
-    if (matchingCategories.length > 0) {
-      const appliedCategory = matchingCategories.reduce((prev, current) => {
-        return (prev.priority || 0) > (current.priority || 0) ? prev : current;
-      });
+    preview.movedFrom = [...movedCounts.entries()]
+      .map(([categoryId, count]) => ({ category: categoryById.get(categoryId)!, count }))
+      .sort((a, b) => b.count - a.count);
+
+    return preview;
+  }
+
+  /**
+   * Events in the range matched by more than one category, with every match and the winner,
+   * plus categories whose rules never decide an event
+   */
+  async findConflicts(range: { start: Date; end: Date }): Promise<ConflictReport> {
+    await this.getCategories(true);
+    const compiledCategories = await this.getCompiledCategories();
+
+    const candidates = await this.db
+      .select()
+      .from(events)
+      .where(
+        and(
+          lte(events.start, range.end),
+          gte(events.end, range.start),
+          or(eq(events.isManuallyCategorized, false), isNull(events.isManuallyCategorized))
+        )
+      )
+      .orderBy(desc(events.start));
+
+    const conflicts: CategorizationConflict[] = [];
+    const matchCounts = new Map<string, number>();
+    const winCounts = new Map<string, number>();
+
+    for (const event of candidates) {
+      const matches = this.getCategoryMatches(event, compiledCategories);
+      const winner = this.pickWinner(matches);
+      if (!winner) continue;
 
-      // Update event with the matched category
-      await this.db
-        .update(events)
-        .set({
-          categoryId: appliedCategory.id,
-          isManuallyCategorized: false,
-        })
-        .where(eq(events.id, event.id));
+      for (const match of matches) {
+        matchCounts.set(match.category.id, (matchCounts.get(match.category.id) || 0) + 1);
+      }
+      winCounts.set(winner.category.id, (winCounts.get(winner.category.id) || 0) + 1);
+
+      if (matches.length > 1) {
+        const winnerPriority = winner.category.priority || 0;
+        const isTie =
+          matches.filter((match) => (match.category.priority || 0) === winnerPriority).length > 1;
+        conflicts.push({
+          event,
+          matches,
+          winner: winner.category,
+          reason: isTie ? 'tie' : 'priority',
+        });
+      }
+    }
+
+    const neverWinning = compiledCategories
+      .filter(({ category, rules }) => rules.length > 0 && !winCounts.has(category.id))
+      .map(({ category }) => ({ category, matchCount: matchCounts.get(category.id) || 0 }));
+
+    return { total: candidates.length, conflicts, neverWinning };
+  }
+
+  /**
+   * Why an event has its category: a manual assignment, the rules that matched,
+   * or for uncategorized events the rules that almost matched
+   */
+  async explainCategory(eventId: string): Promise<CategoryExplanation> {
+    const [event] = await this.db.select().from(events).where(eq(events.id, eventId)).limit(1);
+    if (!event) {
+      throw new Error(`Event with ID ${eventId} not found`);
+    }
+
+    const categories = await this.getCategories(true);
+    const calendarTimeZones = await this.getCalendarTimeZones();
+    const category = categories.find((c) => c.id === event.categoryId) ?? null;
+
+    if (event.isManuallyCategorized) {
+      return { kind: 'manual', category };
+    }
 
+    if (category) {
+      if (event.categoryRuleMatch) {
+        return { kind: 'rule', category, match: event.categoryRuleMatch, isRecorded: true };
+      }
+
+      // Categorized before matches were recorded, check against the current rules
+      const [compiled] = compileCategories([category], calendarTimeZones);
+      const [current] = this.getCategoryMatches(event, [compiled]);
       return {
-        eventId: event.id,
-        categoryId: appliedCategory.id,
-        isManuallyCategorized: false,
+        kind: 'rule',
+        category,
+        match: current
+          ? {
+              ruleIndexes: current.ruleIndexes,
+              rules: current.ruleIndexes.map((index) => compiled.rules[index]),
+              categorizedAt: new Date().toISOString(),
+            }
+          : null,
+        isRecorded: false,
       };
     }
 
-    // No match found - clear any existing auto categorization
-    if (!event.isManuallyCategorized && event.categoryId) {
-      await this.db
-        .update(events)
-        .set({
-          categoryId: null,
-          isManuallyCategorized: null,
-        })
-        .where(eq(events.id, event.id));
+    const nearMisses: NearMiss[] = [];
+    for (const candidate of categories) {
+      normalizeCategoryRules(candidate.rules).forEach((rule, ruleIndex) => {
+        const reason = this.getNearMissReason(event, rule, calendarTimeZones);
+        if (reason) {
+          nearMisses.push({ category: candidate, ruleIndex, rule, reason });
+        }
+      });
     }
 
-    return {
-      eventId: event.id,
-      categoryId: null,
-      isManuallyCategorized: false,
-    };
+    return { kind: 'none', nearMisses: nearMisses.slice(0, MAX_NEAR_MISSES) };
   }
 
   /**
-   * Manually assign a category to an event
+   * Manually assign a category to an event, or with scope 'series' to every instance
+   * of the recurring series the event belongs to
    */
-  async manuallyAssignCategory(eventId: string, categoryId: string | null): Promise<void> {
-    await this.db
+  async manuallyAssignCategory(
+    eventId: string,
+    categoryId: string | null,
+    scope: ManualAssignmentScope = 'instance'
+  ): Promise<void> {
+    const assignedIds = await this.assignManually(eventId, categoryId, scope);
+    await this.recalculatePriorityDurations(assignedIds);
+  }
+
+  /**
+   * Write a manual assignment, returns the ids of the events assigned
+   */
+  private async assignManually(
+    eventId: string,
+    categoryId: string | null,
+    scope: ManualAssignmentScope
+  ): Promise<string[]> {
+    if (scope === 'series') {
+      const [instance] = await this.db
+        .select({ recurringEventId: events.recurringEventId })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .limit(1);
+
+      if (instance?.recurringEventId) {
+        // New instances of the series inherit the assignment
+        await this.db
+          .update(eventSeries)
+          .set({ categoryId, isManuallyCategorized: categoryId ? true : false })
+          .where(eq(eventSeries.id, instance.recurringEventId));
+
+        // Applies to every instance, including ones assigned individually before
+        const instances = await this.db
+          .update(events)
+          .set({
+            categoryId,
+            isManuallyCategorized: categoryId ? true : false,
+            categoryRuleMatch: null,
+          })
+          .where(eq(events.recurringEventId, instance.recurringEventId))
+          .returning({ id: events.id });
+
+        const instanceIds = instances.map(({ id }) => id);
+        notifyEventsChanged(instanceIds);
+        return instanceIds;
+      }
+    }
+
+    const [event] = await this.db
       .update(events)
       .set({
         categoryId,
         isManuallyCategorized: categoryId ? true : false,
+        categoryRuleMatch: null,
       })
-      .where(eq(events.id, eventId));
+      .where(eq(events.id, eventId))
+      .returning({ id: events.id });
+
+    if (event) {
+      notifyEventsChanged([event.id]);
+      return [event.id];
+    }
+    return [];
   }
 
   /**
-   * Batch categorize multiple events
+   * Manually assign a category to many events at once, e.g. groups in the inbox, with
+   * batched UPDATEs and one notification. With scope 'series' instances of a recurring series
+   * are assigned with their whole series, like manuallyAssignCategory does.
+   * Returns the number of events assigned.
    */
-  async categorizeEvents(eventIds?: string[]): Promise<CategorizationStats> {
-    let eventsToProcess: DBEvent[];
+  async manuallyAssignCategoryToEvents(
+    eventIds: string[],
+    categoryId: string | null,
+    scope: ManualAssignmentScope = 'instance'
+  ): Promise<number> {
+    const assignment = { categoryId, isManuallyCategorized: categoryId ? true : false };
 
-    if (eventIds) {
-      // Categorize specific events
-      eventsToProcess = await this.db.select().from(events).where(inArray(events.id, eventIds));
-    } else {
-      // Categorize all events that are not manually categorized
-      eventsToProcess = await this.db
-        .select()
-        .from(events)
-        .where(
-          or(
-            eq(events.isManuallyCategorized, false), // Not manually categorized
-            isNull(events.isManuallyCategorized) // Or never categorized
-          )
+    let seriesIds: string[] = [];
+    let singleIds = eventIds;
+    if (scope === 'series') {
+      const selected: Pick<DBEvent, 'id' | 'recurringEventId'>[] = [];
+      for (let i = 0; i < eventIds.length; i += CATEGORIZE_BATCH_SIZE) {
+        selected.push(
+          ...(await this.db
+            .select({ id: events.id, recurringEventId: events.recurringEventId })
+            .from(events)
+            .where(inArray(events.id, eventIds.slice(i, i + CATEGORIZE_BATCH_SIZE))))
         );
+      }
+      seriesIds = [...new Set(selected.flatMap(({ recurringEventId }) => recurringEventId ?? []))];
+      singleIds = selected.filter((row) => !row.recurringEventId).map(({ id }) => id);
     }
 
-    const stats: CategorizationStats = {
-      total: eventsToProcess.length,
-      categorized: 0,
-      uncategorized: 0,
-      autoCategories: {},
-    };
+    const updatedIds: string[] = [];
+    // The expo-sqlite driver is synchronous, so is its transaction callback
+    this.db.transaction((tx) => {
+      for (let i = 0; i < seriesIds.length; i += CATEGORIZE_BATCH_SIZE) {
+        const batch = seriesIds.slice(i, i + CATEGORIZE_BATCH_SIZE);
+        // New instances of the series inherit the assignment
+        tx.update(eventSeries).set(assignment).where(inArray(eventSeries.id, batch)).run();
+        updatedIds.push(
+          ...tx
+            .update(events)
+            .set({ ...assignment, categoryRuleMatch: null })
+            .where(inArray(events.recurringEventId, batch))
+            .returning({ id: events.id })
+            .all()
+            .map(({ id }) => id)
+        );
+      }
+      for (let i = 0; i < singleIds.length; i += CATEGORIZE_BATCH_SIZE) {
+        updatedIds.push(
+          ...tx
+            .update(events)
+            .set({ ...assignment, categoryRuleMatch: null })
+            .where(inArray(events.id, singleIds.slice(i, i + CATEGORIZE_BATCH_SIZE)))
+            .returning({ id: events.id })
+            .all()
+            .map(({ id }) => id)
+        );
+      }
+    });
 
-    // Process each event
-    for (const event of eventsToProcess) {
-      const result = await this.categorizeEvent(event);
+    notifyEventsChanged(updatedIds);
+    await this.recalculatePriorityDurations(updatedIds);
+    return updatedIds.length;
+  }
 
-      if (result.categoryId) {
-        stats.categorized++;
-        stats.autoCategories[result.categoryId] =
-          (stats.autoCategories[result.categoryId] || 0) + 1;
-      } else {
-        stats.uncategorized++;
-      }
+  /**
+   * Drop the manual category of an event, or with scope 'series' of its whole recurring
+   * series, and categorize it by the rules again
+   */
+  async resetToAutomatic(eventId: string, scope: ManualAssignmentScope = 'instance') {
+    const [event] = await this.db
+      .select({ recurringEventId: events.recurringEventId })
+      .from(events)
+      .where(eq(events.id, eventId))
+      .limit(1);
+    if (!event) {
+      throw new Error(`Event with ID ${eventId} not found`);
     }
 
+    const unassignedIds = await this.assignManually(eventId, null, scope);
+
+    const eventIds =
+      scope === 'series' && event.recurringEventId
+        ? (
+            await this.db
+              .select({ id: events.id })
+              .from(events)
+              .where(eq(events.recurringEventId, event.recurringEventId))
+          ).map(({ id }) => id)
+        : [eventId];
+
+    // Rules may have changed since the categories were loaded
+    await this.getCategories(true);
+    const stats = await this.categorizeEvents(eventIds, { skipDurations: true });
+    // Events the rules leave uncategorized aren't written again, but lost their category too
+    await this.recalculatePriorityDurations([...unassignedIds, ...stats.updatedEventIds]);
     return stats;
   }
 
   /**
-   * Re-categorize events when category rules change
+   * Batch categorize multiple events, by default every event not categorized manually.
+   * Runs in batches, each written in one transaction, and yields to the UI in between.
    */
-  async recategorizeEventsForCategory(categoryId: string): Promise<number> {
-    // Get all events currently assigned to this category via auto-categorization
-    const categoryEvents = await this.db
-      .select()
-      .from(events)
-      .where(and(eq(events.categoryId, categoryId), eq(events.isManuallyCategorized, false)));
+  async categorizeEvents(
+    eventIds?: string[],
+    options: CategorizationOptions = {}
+  ): Promise<CategorizationRunStats> {
+    if (eventIds) {
+      let offset = 0;
+      return this.runCategorization(
+        eventIds.length,
+        async () => {
+          const ids = eventIds.slice(offset, offset + CATEGORIZE_BATCH_SIZE);
+          offset += CATEGORIZE_BATCH_SIZE;
+          return ids.length > 0
+            ? await this.db.select().from(events).where(inArray(events.id, ids))
+            : null;
+        },
+        options
+      );
+    }
 
-    let recategorizedCount = 0;
+    return this.runCategorizationWhere(
+      or(
+        eq(events.isManuallyCategorized, false), // Not manually categorized
+        isNull(events.isManuallyCategorized) // Or never categorized
+      ),
+      options
+    );
+  }
 
-    // Clear Categorization on all events
-    await this.db
-      .update(events)
-      .set({
-        categoryId: null,
-        isManuallyCategorized: null,
-      })
-      .where(
-        inArray(
-          events.id,
-          categoryEvents.map((e) => e.id)
-        )
-      );
+  /**
+   * Re-categorize the events a change to a category's rules or priority can affect:
+   * the events it holds now, and events its rules match that it may take over.
+   */
+  async recategorizeEventsForCategory(
+    categoryId: string,
+    options: CategorizationOptions = {}
+  ): Promise<CategorizationRunStats> {
+    await this.getCategories(true);
+    const compiledCategories = await this.getCompiledCategories();
+    const changed = compiledCategories.find(({ category }) => category.id === categoryId);
 
-    // Re-process each event
-    for (const event of categoryEvents) {
-      // Re-categorize the event
-      const updatedEvent = { ...event, categoryId: null, isManuallyCategorized: null };
-      await this.categorizeEvent(updatedEvent);
-      recategorizedCount++;
+    if (!changed || changed.rules.length === 0) {
+      // Nothing new can match, only the current events may move elsewhere
+      return await this.runCategorizationWhere(
+        and(
+          eq(events.categoryId, categoryId),
+          or(eq(events.isManuallyCategorized, false), isNull(events.isManuallyCategorized))
+        ),
+        options
+      );
     }
 
-    return recategorizedCount;
+    // Events held by a higher priority category stay there whatever this one matches
+    const priority = changed.category.priority || 0;
+    const outrankedIds = compiledCategories
+      .filter(({ category }) => (category.priority || 0) <= priority)
+      .map(({ category }) => category.id);
+
+    return await this.runCategorizationWhere(
+      and(
+        or(eq(events.isManuallyCategorized, false), isNull(events.isManuallyCategorized)),
+        or(isNull(events.categoryId), inArray(events.categoryId, outrankedIds))
+      ),
+      options,
+      (event) =>
+        event.categoryId === categoryId || changed.matchers.some((matcher) => matcher(event))
+    );
+  }
+
+  /**
+   * Recalculate the durations around a category's events after its priority changed,
+   * the events it wins or loses time against change with it under 'priority'
+   */
+  async recalculateDurationsForCategory(categoryId: string) {
+    if ((await this.settingsService.getSetting('overlapStrategy')) !== 'priority') return;
+
+    const [range] = await this.db
+      .select({ from: min(events.start), to: max(events.end) })
+      .from(events)
+      .where(and(eq(events.categoryId, categoryId), eq(events.isAllDay, false)));
+    if (range?.from && range.to) {
+      await this.durationService.recalculateDurations(range.from, range.to);
+    }
   }
 
   /**
@@ -226,36 +716,325 @@ export class EventCategorizationService {
   }
 
   /**
-   * Check if an event matches a specific rule
+   * Categorize the events matching `where`, paging through them by id.
+   * Events `isAffected` rejects are skipped without evaluating every category.
    */
-  private eventMatchesRule(event: DBEvent, rule: CategoryRule): boolean {
-    const title = event.title || '';
-    const rule_content = rule.content;
-
-    switch (rule.type) {
-      case 'EQUALS':
-        return title === rule_content;
-
-      case 'STARTS_WITH':
-        return title.startsWith(rule_content);
-
-      case 'ENDS_WITH':
-        return title.endsWith(rule_content);
-
-      case 'CONTAINS':
-        return title.includes(rule_content);
-
-      case 'REGEX':
-        try {
-          const regex = new RegExp(rule_content, 'i');
-          return regex.test(event.title || '');
-        } catch (error) {
-          console.warn(`Invalid regex in category rule: ${rule_content}`, error);
-          return false;
+  private async runCategorizationWhere(
+    where: SQL | undefined,
+    options: CategorizationOptions,
+    isAffected?: (event: DBEvent) => boolean
+  ): Promise<CategorizationRunStats> {
+    const [{ total }] = await this.db.select({ total: count() }).from(events).where(where);
+
+    let afterId: string | null = null;
+    return this.runCategorization(
+      total,
+      async () => {
+        const page = await this.db
+          .select()
+          .from(events)
+          .where(afterId ? and(where, gt(events.id, afterId)) : where)
+          .orderBy(events.id)
+          .limit(CATEGORIZE_BATCH_SIZE);
+        afterId = page.at(-1)?.id ?? afterId;
+        return page.length > 0 ? page : null;
+      },
+      options,
+      isAffected
+    );
+  }
+
+  /**
+   * Match each page of events in memory and write the changes in one transaction,
+   * until `nextPage` runs out or the run is cancelled. Listeners hear of the written events.
+   */
+  private async runCategorization(
+    total: number,
+    nextPage: () => Promise<DBEvent[] | null>,
+    { onProgress, signal, skipDurations }: CategorizationOptions,
+    isAffected?: (event: DBEvent) => boolean
+  ): Promise<CategorizationRunStats> {
+    const compiledCategories = await this.getCompiledCategories();
+    const categorizedAt = new Date().toISOString();
+
+    const stats: CategorizationRunStats = {
+      total: 0,
+      categorized: 0,
+      uncategorized: 0,
+      autoCategories: {},
+      updatedEventIds: [],
+    };
+
+    let processed = 0;
+    while (!signal?.aborted) {
+      const page = await nextPage();
+      if (!page) break;
+
+      const updates: CategorizationUpdate[] = [];
+      for (const event of page) {
+        if (isAffected && !isAffected(event)) continue;
+
+        let categoryId = event.categoryId;
+        // Manual assignments are kept, and counted as they are
+        if (!event.isManuallyCategorized) {
+          const winner = this.pickWinner(this.getCategoryMatches(event, compiledCategories));
+          const update = this.getCategorizationUpdate(
+            event,
+            winner,
+            compiledCategories,
+            categorizedAt
+          );
+          if (update) updates.push(update);
+          categoryId = winner?.category.id ?? null;
+
+          if (categoryId) {
+            stats.autoCategories[categoryId] = (stats.autoCategories[categoryId] || 0) + 1;
+          }
         }
 
-      default:
-        return false;
+        stats.total++;
+        if (categoryId) {
+          stats.categorized++;
+        } else {
+          stats.uncategorized++;
+        }
+      }
+
+      this.writeCategorizations(updates);
+      stats.updatedEventIds.push(...updates.map((update) => update.eventId));
+      processed += page.length;
+      onProgress?.(processed, total);
+      // Let the UI render and handle input before the next batch
+      await new Promise((r) => setTimeout(r, 0));
+    }
+
+    // Also after a cancelled run, the pages before it are written
+    notifyEventsChanged(stats.updatedEventIds);
+    if (!skipDurations) {
+      await this.recalculatePriorityDurations(stats.updatedEventIds);
     }
+    return stats;
+  }
+
+  /**
+   * Under the 'priority' overlap strategy an event's category decides its share of the time
+   * it overlaps, so recalculate the durations of the range the given events span
+   */
+  private async recalculatePriorityDurations(eventIds: string[]) {
+    if (eventIds.length === 0) return;
+    if ((await this.settingsService.getSetting('overlapStrategy')) !== 'priority') return;
+
+    let from: Date | null = null;
+    let to: Date | null = null;
+    for (let i = 0; i < eventIds.length; i += CATEGORIZE_BATCH_SIZE) {
+      const [range] = await this.db
+        .select({ from: min(events.start), to: max(events.end) })
+        .from(events)
+        .where(
+          and(
+            inArray(events.id, eventIds.slice(i, i + CATEGORIZE_BATCH_SIZE)),
+            eq(events.isAllDay, false)
+          )
+        );
+      if (range?.from && (!from || range.from < from)) from = range.from;
+      if (range?.to && (!to || range.to > to)) to = range.to;
+    }
+    if (from && to) {
+      await this.durationService.recalculateDurations(from, to);
+    }
+  }
+
+  /**
+   * What to write for an event after matching, null when the stored result is still right
+   */
+  private getCategorizationUpdate(
+    event: DBEvent,
+    winner: CategoryMatch | null,
+    compiledCategories: CompiledCategory[],
+    categorizedAt: string
+  ): CategorizationUpdate | null {
+    if (!winner) {
+      // No match found - clear any existing auto categorization
+      return event.categoryId || event.categoryRuleMatch
+        ? { eventId: event.id, categoryId: null, categoryRuleMatch: null }
+        : null;
+    }
+
+    const compiled = compiledCategories.find(({ category }) => category === winner.category)!;
+    const rules = winner.ruleIndexes.map((index) => compiled.rules[index]);
+    const recorded = event.categoryRuleMatch;
+    if (
+      event.categoryId === winner.category.id &&
+      event.isManuallyCategorized === false &&
+      recorded &&
+      JSON.stringify(recorded.ruleIndexes) === JSON.stringify(winner.ruleIndexes) &&
+      JSON.stringify(recorded.rules) === JSON.stringify(rules)
+    ) {
+      return null;
+    }
+
+    return {
+      eventId: event.id,
+      categoryId: winner.category.id,
+      categoryRuleMatch: { ruleIndexes: winner.ruleIndexes, rules, categorizedAt },
+    };
+  }
+
+  /**
+   * Write categorization results in one transaction, as UPDATEs with a CASE per column
+   */
+  private writeCategorizations(updates: CategorizationUpdate[]) {
+    if (updates.length === 0) return;
+
+    // The expo-sqlite driver is synchronous, so is its transaction callback
+    this.db.transaction((tx) => {
+      for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+        const batch = updates.slice(i, i + UPDATE_BATCH_SIZE);
+        const caseById = (value: (update: CategorizationUpdate) => SQL) =>
+          sql`CASE ${events.id} ${sql.join(
+            batch.map((update) => sql`WHEN ${update.eventId} THEN ${value(update)}`),
+            sql` `
+          )} END`;
+
+        tx.update(events)
+          .set({
+            categoryId: caseById((update) => sql`${update.categoryId}`),
+            isManuallyCategorized: caseById((update) => (update.categoryId ? sql`0` : sql`NULL`)),
+            categoryRuleMatch: caseById(
+              (update) =>
+                sql`${update.categoryRuleMatch ? JSON.stringify(update.categoryRuleMatch) : null}`
+            ),
+          })
+          .where(
+            inArray(
+              events.id,
+              batch.map((update) => update.eventId)
+            )
+          )
+          .run();
+      }
+    });
+  }
+
+  /**
+   * Every category with a matching rule, in the order of `compiledCategories`
+   */
+  private getCategoryMatches(
+    event: DBEvent,
+    compiledCategories: CompiledCategory[]
+  ): CategoryMatch[] {
+    const matches: CategoryMatch[] = [];
+
+    for (const { category, matchers } of compiledCategories) {
+      const ruleIndexes: number[] = [];
+      matchers.forEach((matcher, index) => {
+        if (matcher(event)) ruleIndexes.push(index);
+      });
+      if (ruleIndexes.length > 0) {
+        matches.push({ category, ruleIndexes });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * The match with the highest priority. On a tie the later one in `getCategories` order wins.
+   */
+  private pickWinner(matches: CategoryMatch[]): CategoryMatch | null {
+    if (matches.length === 0) return null;
+    return matches.reduce((prev, current) => {
+      return (prev.category.priority || 0) > (current.category.priority || 0) ? prev : current;
+    });
+  }
+
+  /**
+   * What kept a rule that doesn't match from matching, when it was close.
+   * Close means one condition of an AND group failed, a text rule would match with relaxed
+   * options or on another field, or a time or duration is a few minutes off.
+   */
+  private getNearMissReason(
+    event: DBEvent,
+    node: RuleNode,
+    calendarTimeZones: Map<string, string>
+  ): string | null {
+    if (isRuleGroup(node)) {
+      const matches = (child: RuleNode) => compileRuleNode(child, calendarTimeZones)(event);
+      switch (node.operator) {
+        case 'AND': {
+          const failing = node.children.filter((child) => !matches(child));
+          if (failing.length !== 1 || node.children.length < 2) return null;
+          return (
+            this.getNearMissReason(event, failing[0], calendarTimeZones) ??
+            `Everything matched except ${describeRuleNode(failing[0])}`
+          );
+        }
+        case 'OR':
+          for (const child of node.children) {
+            const reason = this.getNearMissReason(event, child, calendarTimeZones);
+            if (reason) return reason;
+          }
+          return null;
+        case 'NOT': {
+          const excluding = node.children.find(matches);
+          return excluding ? `Excluded by ${describeRuleNode(excluding)}` : null;
+        }
+      }
+    }
+
+    switch (node.type) {
+      case 'DURATION': {
+        if (!event.start || !event.end) return null;
+        const minutes = Math.round((event.end.getTime() - event.start.getTime()) / (1000 * 60));
+        if (node.minMinutes !== undefined && minutes < node.minMinutes) {
+          return node.minMinutes - minutes <= NEAR_MISS_MINUTES
+            ? `Lasts ${minutes} min, the rule needs at least ${node.minMinutes}`
+            : null;
+        }
+        if (node.maxMinutes !== undefined && minutes > node.maxMinutes) {
+          return minutes - node.maxMinutes <= NEAR_MISS_MINUTES
+            ? `Lasts ${minutes} min, the rule allows at most ${node.maxMinutes}`
+            : null;
+        }
+        return null;
+      }
+
+      case 'TIME_OF_DAY': {
+        if (!event.start || event.isAllDay) return null;
+        const timeZone = calendarTimeZones.get(event.calendarId) ?? getDeviceTimeZone();
+        const minutes = getMinutesIntoDay(event.start, timeZone);
+        // Distance around the clock, 23:50 is 20 minutes from 00:10
+        const distance = (boundary: number) => {
+          const diff = Math.abs(minutes - boundary);
+          return Math.min(diff, 24 * 60 - diff);
+        };
+        const closest = Math.min(
+          distance(parseTimeOfDay(node.from)),
+          distance(parseTimeOfDay(node.to))
+        );
+        return closest <= NEAR_MISS_MINUTES
+          ? `Starts at ${formatTimeOfDay(minutes)}, outside ${node.from}–${node.to}`
+          : null;
+      }
+    }
+
+    const relaxed: TextCategoryRule = {
+      ...node,
+      caseSensitive: false,
+      trimWhitespace: true,
+      normalizeUnicode: true,
+      wholeWord: false,
+    };
+    if (compileTextRule(relaxed)(getFieldValue(event, node.field))) {
+      return 'Would match ignoring case, accents, spacing or word boundaries';
+    }
+
+    const matchesText = compileTextRule(node);
+    const otherField = RULE_FIELDS.find(
+      (field) => field !== node.field && matchesText(getFieldValue(event, field))
+    );
+    return otherField
+      ? `The ${RULE_FIELD_LABELS[otherField].toLowerCase()} matches, the rule checks the ${RULE_FIELD_LABELS[node.field].toLowerCase()}`
+      : null;
   }
 }
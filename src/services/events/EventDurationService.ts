@@ -1,63 +1,313 @@
 import { DrizzleDB } from '@/db/SQLiteProvider';
+import type { OverlapStrategy } from '@/types/settings';
 import { EventCursor, EventsService, EventWithCategory } from './EventsService';
-import { DBEvent, events as eventsTable } from '~/src/db/schema';
-import { eq } from 'drizzle-orm';
+import { Category, DBEvent, eventSeries, events as eventsTable } from '~/src/db/schema';
+import { eq, inArray, max, min, sql } from 'drizzle-orm';
+import { SettingsService } from '../settings/SettingsService';
+import type { ManualAssignmentScope } from './EventCategorizationService';
+import { notifyEventsChanged } from './eventChanges';
+
+// Slices swept between progress reports and yields to the UI
+const PROGRESS_INTERVAL = 5000;
+// Rows per UPDATE statement, each row adds two parameters
+const UPDATE_BATCH_SIZE = 100;
+
+/**
+ * Fenwick tree over positions 0..size-1, for prefix sums in O(log n)
+ */
+class FenwickTree {
+  private tree: Float64Array;
+
+  constructor(size: number) {
+    this.tree = new Float64Array(size + 1);
+  }
+
+  add(position: number, delta: number) {
+    for (let i = position + 1; i < this.tree.length; i += i & -i) {
+      this.tree[i] += delta;
+    }
+  }
+
+  /**
+   * Sum of the values at positions 0..position
+   */
+  prefixSum(position: number) {
+    let sum = 0;
+    for (let i = position + 1; i > 0; i -= i & -i) {
+      sum += this.tree[i];
+    }
+    return sum;
+  }
+
+  /**
+   * First position whose prefix sum reaches `target`, values must not be negative
+   */
+  lowerBound(target: number) {
+    let position = 0;
+    let step = 1;
+    while (step * 2 < this.tree.length) step *= 2;
+
+    for (; step > 0; step = Math.floor(step / 2)) {
+      const next = position + step;
+      if (next < this.tree.length && this.tree[next] < target) {
+        position = next;
+        target -= this.tree[next];
+      }
+    }
+    return position;
+  }
+}
+
+export type DurationEvent = Pick<DBEvent, 'start' | 'end' | 'isBackground'> & {
+  category?: Pick<Category, 'priority'> | null;
+};
+
+/**
+ * Events that are equally entitled to the time they overlap, with their own share and
+ * remainder totals. Positions are local to the group.
+ */
+interface OverlapGroup {
+  active: FenwickTree;
+  remainders: FenwickTree;
+  activeCount: number;
+  shares: number;
+}
+
+/**
+ * How strongly an event claims overlapping time under the strategy, lower wins.
+ * Background events only get time no foreground event claims.
+ */
+function getClaim(event: DurationEvent, strategy: OverlapStrategy): [number, number] {
+  const background = event.isBackground ? 1 : 0;
+  switch (strategy) {
+    case 'priority':
+      // Uncategorized events lose to any category
+      return [background, event.category ? -(event.category.priority ?? 0) : Infinity];
+    case 'shortest':
+      return [background, event.end!.getTime() - event.start!.getTime()];
+    case 'even':
+    case 'full':
+      return [background, 0];
+  }
+}
+
+/**
+ * Effective duration in whole minutes of each event, in the order given. Events must be
+ * sorted by start, see docs/effective-duration-sweep-line.md.
+ *
+ * Between consecutive start/end boundaries, the slice's minutes (a started minute counts
+ * as a whole one) go to the covering events with the strongest claim. With 'even' and the
+ * other strategies on a tie, they are dealt out round-robin in the given order: each event
+ * gets an even share and the first events get one more for the remainder. With 'full'
+ * each of them gets all of the minutes.
+ * The sweep keeps running totals of the shares and Fenwick trees of the remainders,
+ * so each event is settled when it ends instead of visiting every event per slice.
+ */
+export function allocateEffectiveDurations(
+  events: DurationEvent[],
+  strategy: OverlapStrategy = 'even',
+  onSlice?: (completed: number, total: number) => void
+): number[] {
+  const times = new Set<number>();
+  for (const event of events) {
+    if (event.start) times.add(event.start.getTime());
+    if (event.end) times.add(event.end.getTime());
+  }
+  const boundaries = [...times].sort((a, b) => a - b);
+  const boundaryIndexes = new Map(boundaries.map((time, index) => [time, index]));
+
+  // Events start covering slices at the boundary of their start and stop at their end
+  const entering: number[][] = boundaries.map(() => []);
+  const leaving: number[][] = boundaries.map(() => []);
+  const claims = new Map<string, { claim: [number, number]; positions: number[] }>();
+  events.forEach((event, position) => {
+    if (!event.start || !event.end || event.start >= event.end) return;
+    entering[boundaryIndexes.get(event.start.getTime())!].push(position);
+    leaving[boundaryIndexes.get(event.end.getTime())!].push(position);
+
+    const claim = getClaim(event, strategy);
+    const key = claim.join(':');
+    const entry = claims.get(key) ?? { claim, positions: [] };
+    entry.positions.push(position);
+    claims.set(key, entry);
+  });
+
+  // Groups in order of their claim, the first group with covering events wins a slice
+  const groupOf: number[] = events.map(() => -1);
+  const localPositions: number[] = events.map(() => -1);
+  const groups: OverlapGroup[] = [...claims.values()]
+    .sort((a, b) => a.claim[0] - b.claim[0] || a.claim[1] - b.claim[1])
+    .map(({ positions }, rank) => {
+      positions.forEach((position, local) => {
+        groupOf[position] = rank;
+        localPositions[position] = local;
+      });
+      return {
+        active: new FenwickTree(positions.length),
+        remainders: new FenwickTree(positions.length),
+        activeCount: 0,
+        shares: 0,
+      };
+    });
+  const activeGroups = new FenwickTree(groups.length);
+  let activeGroupCount = 0;
+
+  const durations: number[] = events.map(() => 0);
+  const shareAtEntry: number[] = events.map(() => 0);
+  const remainderAtEntry: number[] = events.map(() => 0);
+
+  for (let i = 0; i < boundaries.length; i++) {
+    for (const position of leaving[i]) {
+      const group = groups[groupOf[position]];
+      const local = localPositions[position];
+      durations[position] =
+        group.shares -
+        shareAtEntry[position] +
+        group.remainders.prefixSum(local) -
+        remainderAtEntry[position];
+      group.active.add(local, -1);
+      if (--group.activeCount === 0) {
+        activeGroups.add(groupOf[position], -1);
+        activeGroupCount--;
+      }
+    }
+    for (const position of entering[i]) {
+      const group = groups[groupOf[position]];
+      const local = localPositions[position];
+      shareAtEntry[position] = group.shares;
+      remainderAtEntry[position] = group.remainders.prefixSum(local);
+      group.active.add(local, 1);
+      if (group.activeCount++ === 0) {
+        activeGroups.add(groupOf[position], 1);
+        activeGroupCount++;
+      }
+    }
+
+    if (i === boundaries.length - 1 || activeGroupCount === 0) continue;
+
+    const winner = groups[activeGroups.lowerBound(1)];
+    const minutes = Math.ceil((boundaries[i + 1] - boundaries[i]) / (1000 * 60));
+    if (strategy === 'full') {
+      winner.shares += minutes;
+    } else {
+      winner.shares += Math.floor(minutes / winner.activeCount);
+      const remainder = minutes % winner.activeCount;
+      if (remainder > 0) {
+        // Up to and including the position of the remainder-th covering event
+        const last = winner.active.lowerBound(remainder);
+        winner.remainders.add(0, 1);
+        winner.remainders.add(last + 1, -1);
+      }
+    }
+
+    if ((i + 1) % PROGRESS_INTERVAL === 0) {
+      onSlice?.(i + 1, boundaries.length - 1);
+    }
+  }
+
+  return durations;
+}
 
 export class EventDurationService {
   private drizzleDB: DrizzleDB;
-  private _progressCounter: number;
+  private settingsService: SettingsService;
 
   constructor(drizzleDB: DrizzleDB) {
     this.drizzleDB = drizzleDB;
-    this._progressCounter = 0;
+    this.settingsService = new SettingsService(drizzleDB);
   }
 
+  /**
+   * Recalculate the durations of the events in a range, by default with the overlap
+   * strategy of the settings
+   */
   async recalculateDurations(
     from: Date,
     to: Date,
-    onProgress?: (phase: string, completed: number, total: number) => void
+    onProgress?: (phase: string, completed: number, total: number) => void,
+    strategy?: OverlapStrategy
   ) {
     console.info('Recalculating Event Durations', {
       from: from.toISOString(),
       to: to.toISOString(),
     });
+    strategy ??= await this.settingsService.getSetting('overlapStrategy');
     ({ from, to } = this._pad_date_range(from, to));
     const events = await this._fetch_all_events(from, to);
 
-    // update duration to zero for all
-    for (const event of events) {
-      event.effectiveDuration = 0;
-    }
+    const durations = allocateEffectiveDurations(events, strategy, (completed, total) =>
+      onProgress?.('splitting_boundaries', completed, total)
+    );
 
-    const boundaries = this._getAllBoundaries(events);
+    const updates = events
+      .map((event, i) => ({ id: event.id, effectiveDuration: durations[i] }))
+      .filter((update, i) => update.effectiveDuration !== events[i].effectiveDuration);
 
-    for (let i = 0; i < boundaries.length - 1; i++) {
-      const slice_start = boundaries[i];
-      const slice_end = boundaries[i + 1];
-      const slice_events = this._get_events_in_range(events, slice_start, slice_end);
-      let slice_duration = (slice_end.getTime() - slice_start.getTime()) / (1000 * 60);
+    onProgress?.('updating_database', 0, updates.length);
+    await new Promise((r) => setTimeout(r, 0));
+    this._writeDurations(updates);
+    onProgress?.('updating_database', updates.length, updates.length);
+    notifyEventsChanged(updates.map((update) => update.id));
+  }
 
-      let eventIdx = 0;
-      do {
-        const event = slice_events[eventIdx];
-        if (!event) break;
+  /**
+   * Recalculate the durations of all timed events, e.g. after the overlap strategy changed
+   */
+  async recalculateAllDurations(
+    strategy?: OverlapStrategy,
+    onProgress?: (phase: string, completed: number, total: number) => void
+  ) {
+    const [range] = await this.drizzleDB
+      .select({ from: min(eventsTable.start), to: max(eventsTable.end) })
+      .from(eventsTable)
+      .where(eq(eventsTable.isAllDay, false));
+    if (!range?.from || !range.to) return;
 
-        event.effectiveDuration += 1;
-        slice_duration -= 1;
-        eventIdx = (eventIdx + 1) % slice_events.length;
-      } while (slice_duration > 0);
-      await this._updateProgress('splitting_boundaries', i + 1, boundaries.length - 1, onProgress);
+    await this.recalculateDurations(range.from, range.to, onProgress, strategy);
+  }
+
+  /**
+   * Mark an event, or with scope 'series' every instance of its recurring series, as
+   * background and recalculate the durations of the events it overlaps
+   */
+  async setBackground(
+    eventId: string,
+    isBackground: boolean,
+    scope: ManualAssignmentScope = 'instance'
+  ) {
+    const [event] = await this.drizzleDB
+      .select({ recurringEventId: eventsTable.recurringEventId })
+      .from(eventsTable)
+      .where(eq(eventsTable.id, eventId))
+      .limit(1);
+    if (!event) {
+      throw new Error(`Event with ID ${eventId} not found`);
     }
 
-    // TODO: Update effectiveDuration back in to the DB
-    for (let i = 0; i < events.length; i++) {
-      const event = events[i];
+    const seriesId = scope === 'series' ? event.recurringEventId : null;
+    if (seriesId) {
+      // New instances of the series inherit the flag
       await this.drizzleDB
-        .update(eventsTable)
-        .set({ effectiveDuration: event.effectiveDuration })
-        .where(eq(eventsTable.id, event.id));
-      await this._updateProgress('updating_database', i + 1, events.length, onProgress);
+        .update(eventSeries)
+        .set({ isBackground })
+        .where(eq(eventSeries.id, seriesId));
+    }
+    const changed = await this.drizzleDB
+      .update(eventsTable)
+      .set({ isBackground })
+      .where(seriesId ? eq(eventsTable.recurringEventId, seriesId) : eq(eventsTable.id, eventId))
+      .returning({ id: eventsTable.id, start: eventsTable.start, end: eventsTable.end });
+
+    const timed = changed.filter(({ start, end }) => start && end);
+    if (timed.length > 0) {
+      const from = timed.reduce(
+        (earliest, { start }) => (start! < earliest ? start! : earliest),
+        timed[0].start!
+      );
+      const to = timed.reduce((latest, { end }) => (end! > latest ? end! : latest), timed[0].end!);
+      await this.recalculateDurations(from, to);
     }
+    notifyEventsChanged(changed.map(({ id }) => id));
   }
 
   _pad_date_range(from: Date, to: Date) {
@@ -68,15 +318,6 @@ export class EventDurationService {
     };
   }
 
-  _get_events_in_range(events: DBEvent[], from: Date, to: Date) {
-    return events.filter((event) => {
-      if (!event.start || !event.end) {
-        return false;
-      }
-      return event.start <= from && event.end >= to;
-    });
-  }
-
   async _fetch_all_events(from: Date, to: Date) {
     const eventsService = new EventsService(this.drizzleDB, 500);
     const events: EventWithCategory[] = [];
@@ -102,37 +343,31 @@ export class EventDurationService {
     return events;
   }
 
-  _getAllBoundaries(events: DBEvent[]) {
-    const boundaries = new Set<string>();
-    for (const event of events) {
-      if (event.start) {
-        boundaries.add(event.start.toISOString());
-      }
-      if (event.end) {
-        boundaries.add(event.end.toISOString());
-      }
-    }
-
-    const _boundaries = Array.from(boundaries);
-    _boundaries.sort();
-
-    return _boundaries.map((date) => new Date(date));
-  }
-
-  async _updateProgress(
-    phase: string,
-    completed: number,
-    total: number,
-    onProgress?: (phase: string, completed: number, total: number) => void
-  ) {
-    if (this._progressCounter < 10) {
-      this._progressCounter++;
-      return;
-    }
+  /**
+   * Write changed durations in one transaction, a CASE update per batch of rows
+   */
+  _writeDurations(updates: { id: string; effectiveDuration: number }[]) {
+    if (updates.length === 0) return;
 
-    this._progressCounter = 0;
-
-    await new Promise((r) => setTimeout(r, 0));
-    onProgress?.(phase, completed, total);
+    // The expo-sqlite driver is synchronous, so is its transaction callback
+    this.drizzleDB.transaction((tx) => {
+      for (let i = 0; i < updates.length; i += UPDATE_BATCH_SIZE) {
+        const batch = updates.slice(i, i + UPDATE_BATCH_SIZE);
+        tx.update(eventsTable)
+          .set({
+            effectiveDuration: sql`CASE ${eventsTable.id} ${sql.join(
+              batch.map((update) => sql`WHEN ${update.id} THEN ${update.effectiveDuration}`),
+              sql` `
+            )} END`,
+          })
+          .where(
+            inArray(
+              eventsTable.id,
+              batch.map((update) => update.id)
+            )
+          )
+          .run();
+      }
+    });
   }
 }
@@ -0,0 +1,100 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { events, type DBEvent } from '@/db/schema';
+import type { GoogleCalendarClient } from '@/integrations/google_calendar';
+import { eq } from 'drizzle-orm';
+import { OutboxService, type OutboxReplayStatus } from '../calendar/OutboxService';
+import { EventDurationService } from './EventDurationService';
+
+export interface RescheduleResult {
+  previous: DBEvent;
+  updated: DBEvent;
+  // 'queued' when the change could not be pushed yet and will be replayed on the next sync
+  status: Extract<OutboxReplayStatus, 'synced' | 'queued'>;
+}
+
+export class EventRescheduleService {
+  private eventDurationService: EventDurationService;
+  private outboxService: OutboxService;
+
+  constructor(
+    private db: DrizzleDB,
+    private googleClient: GoogleCalendarClient
+  ) {
+    this.eventDurationService = new EventDurationService(db);
+    this.outboxService = new OutboxService(db);
+  }
+
+  /**
+   * Move an event to a new time range.
+   * The local row is updated first, then the change goes through the outbox to Google Calendar.
+   * Offline, the change stays queued. If Google rejects it (e.g. the event changed remotely),
+   * the local row is restored and an error is thrown.
+   */
+  async rescheduleEvent(eventId: string, start: Date, end: Date): Promise<RescheduleResult> {
+    const [previous] = await this.db.select().from(events).where(eq(events.id, eventId)).limit(1);
+
+    if (!previous) {
+      throw new Error(`Event with ID ${eventId} not found`);
+    }
+    if (previous.isAllDay || !previous.start || !previous.end) {
+      throw new Error('Only timed events can be rescheduled');
+    }
+    if (end.getTime() <= start.getTime()) {
+      throw new Error('Event end must be after its start');
+    }
+
+    // A moved instance of a series becomes an exception, later expansions leave it alone
+    const updated = await this.applyTimes(
+      previous,
+      start,
+      end,
+      previous.recurringEventId ? true : previous.isException
+    );
+
+    const entry = await this.outboxService.enqueuePatch(previous, {
+      start: { dateTime: start.toISOString() },
+      end: { dateTime: end.toISOString() },
+    });
+    const status = await this.outboxService.replayEntry(entry.id, this.googleClient);
+
+    if (status === 'conflict' || status === 'failed') {
+      console.error(`Google Calendar rejected rescheduled event ${eventId}, rolling back`);
+      await this.applyTimes(updated, previous.start, previous.end, previous.isException);
+      throw new Error(
+        status === 'conflict'
+          ? 'The event was changed in Google Calendar in the meantime'
+          : 'Google Calendar rejected the change'
+      );
+    }
+
+    return { previous, updated, status };
+  }
+
+  /**
+   * Write new times for an event and redistribute effective durations
+   * across both the old and the new time window.
+   */
+  private async applyTimes(
+    event: DBEvent,
+    start: Date,
+    end: Date,
+    isException: boolean | null
+  ): Promise<DBEvent> {
+    const [updated] = await this.db
+      .update(events)
+      .set({
+        start,
+        end,
+        isException,
+        effectiveDuration: Math.round((end.getTime() - start.getTime()) / (1000 * 60)),
+      })
+      .where(eq(events.id, event.id))
+      .returning();
+
+    const from = new Date(Math.min(event.start!.getTime(), start.getTime()));
+    const to = new Date(Math.max(event.end!.getTime(), end.getTime()));
+    await this.eventDurationService.recalculateDurations(from, to);
+
+    return updated;
+  }
+}
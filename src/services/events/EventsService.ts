@@ -1,6 +1,7 @@
 import type { DrizzleDB } from '@/db/SQLiteProvider';
 import { events, categories, type DBEvent, type Category } from '@/db/schema';
-import { desc, gt, lt, gte, lte, and, eq, or, asc } from 'drizzle-orm';
+import { desc, gt, lt, gte, lte, and, eq, or, asc, inArray } from 'drizzle-orm';
+import { addToDate, getDayBounds, toDateKey } from '../calendar/timezone';
 
 export interface EventWithCategory extends DBEvent {
   category: Category | null;
@@ -23,6 +24,38 @@ export interface EventsByDate {
   [dateKey: string]: EventWithCategory[];
 }
 
+// Event columns with the category joined in, as the screens list them
+const eventWithCategoryColumns = {
+  id: events.id,
+  calendarId: events.calendarId,
+  title: events.title,
+  description: events.description,
+  eventType: events.eventType,
+  isAllDay: events.isAllDay,
+  start: events.start,
+  end: events.end,
+  effectiveDuration: events.effectiveDuration,
+  categoryId: events.categoryId,
+  isManuallyCategorized: events.isManuallyCategorized,
+  categoryRuleMatch: events.categoryRuleMatch,
+  isBackground: events.isBackground,
+  etag: events.etag,
+  remoteUpdatedAt: events.remoteUpdatedAt,
+  recurringEventId: events.recurringEventId,
+  originalStartTime: events.originalStartTime,
+  isException: events.isException,
+  updatedAt: events.updatedAt,
+  createdAt: events.createdAt,
+  category: {
+    id: categories.id,
+    name: categories.name,
+    color: categories.color,
+    priority: categories.priority,
+    rules: categories.rules,
+    parentCategoryId: categories.parentCategoryId,
+  },
+};
+
 export class EventsService {
   constructor(
     private db: DrizzleDB,
@@ -35,29 +68,7 @@ export class EventsService {
     referenceDate?: Date
   ): Promise<EventsPageResult> {
     let baseQuery = this.db
-      .select({
-        id: events.id,
-        calendarId: events.calendarId,
-        title: events.title,
-        description: events.description,
-        eventType: events.eventType,
-        isAllDay: events.isAllDay,
-        start: events.start,
-        end: events.end,
-        effectiveDuration: events.effectiveDuration,
-        categoryId: events.categoryId,
-        isManuallyCategorized: events.isManuallyCategorized,
-        updatedAt: events.updatedAt,
-        createdAt: events.createdAt,
-        category: {
-          id: categories.id,
-          name: categories.name,
-          color: categories.color,
-          priority: categories.priority,
-          rules: categories.rules,
-          parentCategoryId: categories.parentCategoryId,
-        },
-      })
+      .select(eventWithCategoryColumns)
       .from(events)
       .leftJoin(categories, eq(events.categoryId, categories.id));
 
@@ -122,6 +133,21 @@ export class EventsService {
     };
   }
 
+  /**
+   * Fresh copies of the given events, in no particular order
+   */
+  async getEventsByIds(eventIds: string[]): Promise<EventWithCategory[]> {
+    if (eventIds.length === 0) return [];
+
+    const results = await this.db
+      .select(eventWithCategoryColumns)
+      .from(events)
+      .leftJoin(categories, eq(events.categoryId, categories.id))
+      .where(inArray(events.id, eventIds));
+
+    return results as EventWithCategory[];
+  }
+
   async getInitialEventsAroundDate(referenceDate: Date = new Date()): Promise<{
     pastEvents: EventWithCategory[];
     futureEvents: EventWithCategory[];
@@ -135,58 +161,14 @@ export class EventsService {
     futureEndDate.setDate(futureEndDate.getDate() + 7);
 
     const pastQuery = this.db
-      .select({
-        id: events.id,
-        calendarId: events.calendarId,
-        title: events.title,
-        description: events.description,
-        eventType: events.eventType,
-        isAllDay: events.isAllDay,
-        start: events.start,
-        end: events.end,
-        effectiveDuration: events.effectiveDuration,
-        categoryId: events.categoryId,
-        isManuallyCategorized: events.isManuallyCategorized,
-        updatedAt: events.updatedAt,
-        createdAt: events.createdAt,
-        category: {
-          id: categories.id,
-          name: categories.name,
-          color: categories.color,
-          priority: categories.priority,
-          rules: categories.rules,
-          parentCategoryId: categories.parentCategoryId,
-        },
-      })
+      .select(eventWithCategoryColumns)
       .from(events)
       .leftJoin(categories, eq(events.categoryId, categories.id))
       .where(and(gte(events.start, pastStartDate), lte(events.start, referenceDate)))
       .orderBy(asc(events.start), asc(events.id));
 
     const futureQuery = this.db
-      .select({
-        id: events.id,
-        calendarId: events.calendarId,
-        title: events.title,
-        description: events.description,
-        eventType: events.eventType,
-        isAllDay: events.isAllDay,
-        start: events.start,
-        end: events.end,
-        effectiveDuration: events.effectiveDuration,
-        categoryId: events.categoryId,
-        isManuallyCategorized: events.isManuallyCategorized,
-        updatedAt: events.updatedAt,
-        createdAt: events.createdAt,
-        category: {
-          id: categories.id,
-          name: categories.name,
-          color: categories.color,
-          priority: categories.priority,
-          rules: categories.rules,
-          parentCategoryId: categories.parentCategoryId,
-        },
-      })
+      .select(eventWithCategoryColumns)
       .from(events)
       .leftJoin(categories, eq(events.categoryId, categories.id))
       .where(and(gte(events.start, referenceDate), lte(events.start, futureEndDate)))
@@ -200,13 +182,16 @@ export class EventsService {
     };
   }
 
-  groupEventsByDate(events: EventWithCategory[]): EventsByDate {
+  /**
+   * Group events by the day they start on in the given zone
+   */
+  groupEventsByDate(events: EventWithCategory[], timeZone: string): EventsByDate {
     const grouped: EventsByDate = {};
 
     for (const event of events) {
       if (!event.start) continue;
 
-      const dateKey = event.start.toISOString().split('T')[0];
+      const dateKey = toDateKey(event.start, timeZone);
       if (!grouped[dateKey]) {
         grouped[dateKey] = [];
       }
@@ -224,7 +209,7 @@ export class EventsService {
     return grouped;
   }
 
-  formatEventTime(event: EventWithCategory): string {
+  formatEventTime(event: EventWithCategory, timeZone: string): string {
     if (event.isAllDay) {
       return 'All Day';
     }
@@ -237,28 +222,26 @@ export class EventsService {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone,
     });
 
     const endTime = event.end.toLocaleTimeString('en-US', {
       hour: 'numeric',
       minute: '2-digit',
       hour12: true,
+      timeZone,
     });
 
     return `${startTime} - ${endTime}`;
   }
 
-  formatDateHeader(dateKey: string): string {
-    const date = new Date(dateKey + 'T00:00:00.000Z');
+  formatDateHeader(dateKey: string, timeZone: string): string {
+    const { startOfDay: date } = getDayBounds(dateKey, timeZone);
     const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
 
-    const isToday = date.toDateString() === today.toDateString();
-    const isYesterday = date.toDateString() === yesterday.toDateString();
-    const isTomorrow = date.toDateString() === tomorrow.toDateString();
+    const isToday = dateKey === toDateKey(today, timeZone);
+    const isYesterday = dateKey === toDateKey(addToDate(today, { days: -1 }, timeZone), timeZone);
+    const isTomorrow = dateKey === toDateKey(addToDate(today, { days: 1 }, timeZone), timeZone);
 
     if (isToday) {
       return 'Today';
@@ -272,6 +255,7 @@ export class EventsService {
         year: 'numeric',
         month: 'long',
         day: 'numeric',
+        timeZone,
       });
     }
   }
@@ -0,0 +1,334 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { events, eventSeries, type DBEventSeries } from '@/db/schema';
+import type { GoogleCalendarEvent } from '@/integrations/google_calendar';
+import { eq, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { expandRecurrence, formatInstanceId, UnsupportedRecurrenceError } from './recurrence';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Instances are generated this far ahead of today
+const EXPANSION_HORIZON_DAYS = 365;
+// Series are expanded again once less than this is left of their horizon
+const EXPANSION_REFRESH_DAYS = 30;
+// Rows per multi-row insert, keeps the bound parameters below SQLite's limit
+const INSERT_BATCH_SIZE = 50;
+const ID_BATCH_SIZE = 500;
+
+export interface TimeRange {
+  earliest: Date;
+  latest: Date;
+}
+
+export interface ExpansionResult {
+  // Range whose effective durations need recalculating
+  range: TimeRange | null;
+  // Instances that are new or changed, their category rules need evaluating again
+  writtenEventIds: string[];
+}
+
+/**
+ * Stores recurring series and keeps their instances in `events` expanded.
+ * Generated instances use Google's instance ids, so modified instances (exceptions)
+ * synced from Google replace them in place.
+ */
+export class RecurringEventService {
+  constructor(private db: DrizzleDB) {}
+
+  async getSeriesIds(calendarId: string): Promise<Set<string>> {
+    const rows = await this.db
+      .select({ id: eventSeries.id })
+      .from(eventSeries)
+      .where(eq(eventSeries.calendarId, calendarId));
+    return new Set(rows.map((row) => row.id));
+  }
+
+  /**
+   * Store a series master. Instances are not touched until expandSeries() runs.
+   */
+  async upsertSeries(
+    calendarId: string,
+    googleEvent: GoogleCalendarEvent,
+    start: Date,
+    end: Date,
+    timeZone: string
+  ): Promise<void> {
+    const values = {
+      title: googleEvent.summary || 'Untitled Event',
+      description: googleEvent.description,
+      eventType: googleEvent.eventType,
+      isAllDay: !googleEvent.start?.dateTime,
+      start,
+      end,
+      timeZone,
+      recurrence: googleEvent.recurrence ?? [],
+      etag: googleEvent.etag,
+      remoteUpdatedAt: googleEvent.updated ? new Date(googleEvent.updated) : null,
+    };
+
+    await this.db
+      .insert(eventSeries)
+      .values({ id: googleEvent.id, calendarId, ...values })
+      .onConflictDoUpdate({ target: eventSeries.id, set: values });
+
+    // The event may have been a single event before it became recurring, or was stored as
+    // one before series were expanded locally. Its instances keep what was set on it.
+    const [single] = await this.db.delete(events).where(eq(events.id, googleEvent.id)).returning({
+      categoryId: events.categoryId,
+      isManuallyCategorized: events.isManuallyCategorized,
+      isBackground: events.isBackground,
+    });
+    if (single?.isManuallyCategorized || single?.isBackground) {
+      await this.db
+        .update(eventSeries)
+        .set({
+          ...(single.isManuallyCategorized && {
+            categoryId: single.categoryId,
+            isManuallyCategorized: true,
+          }),
+          ...(single.isBackground && { isBackground: true }),
+        })
+        .where(eq(eventSeries.id, googleEvent.id));
+    }
+  }
+
+  /**
+   * Remember instances deleted remotely and drop their rows
+   */
+  async cancelInstances(seriesId: string, instanceIds: string[]): Promise<TimeRange | null> {
+    const [series] = await this.db
+      .select({ cancelledInstanceIds: eventSeries.cancelledInstanceIds })
+      .from(eventSeries)
+      .where(eq(eventSeries.id, seriesId))
+      .limit(1);
+
+    if (series) {
+      await this.db
+        .update(eventSeries)
+        .set({
+          cancelledInstanceIds: [...new Set([...series.cancelledInstanceIds, ...instanceIds])],
+        })
+        .where(eq(eventSeries.id, seriesId));
+    }
+
+    return await this.deleteInstances(instanceIds);
+  }
+
+  /**
+   * Delete a series with all its instances, including exceptions
+   */
+  async deleteSeries(seriesId: string): Promise<TimeRange | null> {
+    const instances = await this.db
+      .select({ id: events.id })
+      .from(events)
+      .where(eq(events.recurringEventId, seriesId));
+
+    const range = await this.deleteInstances(instances.map((instance) => instance.id));
+    await this.db.delete(eventSeries).where(eq(eventSeries.id, seriesId));
+    return range;
+  }
+
+  /**
+   * Generate the instances of a series up to the expansion horizon, or with `changedSince`,
+   * when only the horizon moved, just the instances after the previous horizon.
+   * Only instances that are missing or differ from the series are written. Exceptions,
+   * cancelled instances and instances with pending local edits are left alone, instances
+   * that no longer belong to the series are removed.
+   * Returns the written instances and the time range whose effective durations need
+   * recalculating.
+   */
+  async expandSeries(
+    seriesId: string,
+    pendingEventIds: Set<string> = new Set(),
+    changedSince?: Date
+  ): Promise<ExpansionResult> {
+    const [series] = await this.db
+      .select()
+      .from(eventSeries)
+      .where(eq(eventSeries.id, seriesId))
+      .limit(1);
+
+    if (!series) {
+      return { range: null, writtenEventIds: [] };
+    }
+
+    const expandedUntil = new Date(Date.now() + EXPANSION_HORIZON_DAYS * DAY_MS);
+    const instances = this.generateInstances(series, expandedUntil, changedSince);
+
+    const existing = (
+      await this.db
+        .select({
+          id: events.id,
+          isException: events.isException,
+          title: events.title,
+          description: events.description,
+          eventType: events.eventType,
+          isAllDay: events.isAllDay,
+          start: events.start,
+          end: events.end,
+        })
+        .from(events)
+        .where(eq(events.recurringEventId, series.id))
+    ).filter((row) => !changedSince || (row.start && row.start > changedSince));
+    const existingById = new Map(existing.map((row) => [row.id, row]));
+    const isUpToDate = (instance: { id: string; start: Date; end: Date }) => {
+      const row = existingById.get(instance.id);
+      return (
+        !!row &&
+        row.title === series.title &&
+        (row.description ?? null) === (series.description ?? null) &&
+        (row.eventType ?? null) === (series.eventType ?? null) &&
+        !!row.isAllDay === !!series.isAllDay &&
+        row.start?.getTime() === instance.start.getTime() &&
+        row.end?.getTime() === instance.end.getTime()
+      );
+    };
+
+    const keptIds = new Set([
+      ...pendingEventIds,
+      ...existing.filter((row) => row.isException).map((row) => row.id),
+    ]);
+    const cancelledIds = new Set(series.cancelledInstanceIds);
+    const instanceIds = new Set(instances.map((instance) => instance.id));
+
+    const toWrite = instances.filter(
+      (instance) =>
+        !keptIds.has(instance.id) && !cancelledIds.has(instance.id) && !isUpToDate(instance)
+    );
+    const stale = existing
+      .filter((row) => !row.isException && !instanceIds.has(row.id) && !keptIds.has(row.id))
+      .map((row) => row.id);
+
+    for (let i = 0; i < toWrite.length; i += INSERT_BATCH_SIZE) {
+      await this.db
+        .insert(events)
+        .values(
+          toWrite.slice(i, i + INSERT_BATCH_SIZE).map((instance) => ({
+            id: instance.id,
+            calendarId: series.calendarId,
+            title: series.title,
+            description: series.description,
+            eventType: series.eventType,
+            isAllDay: series.isAllDay,
+            start: instance.start,
+            end: instance.end,
+            effectiveDuration: Math.round(
+              (instance.end.getTime() - instance.start.getTime()) / (1000 * 60)
+            ),
+            recurringEventId: series.id,
+            originalStartTime: instance.start,
+            isException: false,
+            // New instances inherit a series-wide manual category
+            categoryId: series.isManuallyCategorized ? series.categoryId : null,
+            isManuallyCategorized: series.isManuallyCategorized ? true : null,
+            isBackground: series.isBackground,
+          }))
+        )
+        .onConflictDoUpdate({
+          // Per-instance category assignments and background flags are kept
+          target: events.id,
+          set: {
+            title: sql`excluded."title"`,
+            description: sql`excluded."description"`,
+            eventType: sql`excluded."eventType"`,
+            isAllDay: sql`excluded."isAllDay"`,
+            start: sql`excluded."start"`,
+            end: sql`excluded."end"`,
+            // Keep the computed share unless the instance moved
+            effectiveDuration: sql`CASE WHEN ${events.start} = excluded."start" AND ${events.end} = excluded."end" THEN ${events.effectiveDuration} ELSE excluded."effectiveDuration" END`,
+            originalStartTime: sql`excluded."originalStartTime"`,
+          },
+        });
+    }
+
+    const staleRange = await this.deleteInstances(stale);
+
+    await this.db.update(eventSeries).set({ expandedUntil }).where(eq(eventSeries.id, series.id));
+
+    const range: TimeRange | null =
+      toWrite.length > 0
+        ? { earliest: toWrite[0].start, latest: toWrite[toWrite.length - 1].end }
+        : null;
+    return {
+      range: mergeRanges(range, staleRange),
+      writtenEventIds: toWrite.map((instance) => instance.id),
+    };
+  }
+
+  /**
+   * Push the horizon of series that are running out of expanded instances
+   */
+  async extendExpansions(pendingEventIds: Set<string> = new Set()): Promise<ExpansionResult> {
+    const threshold = new Date(
+      Date.now() + (EXPANSION_HORIZON_DAYS - EXPANSION_REFRESH_DAYS) * DAY_MS
+    );
+    const due = await this.db
+      .select({ id: eventSeries.id, expandedUntil: eventSeries.expandedUntil })
+      .from(eventSeries)
+      .where(or(isNull(eventSeries.expandedUntil), lt(eventSeries.expandedUntil, threshold)));
+
+    let range: TimeRange | null = null;
+    const writtenEventIds: string[] = [];
+    for (const { id, expandedUntil } of due) {
+      const expanded = await this.expandSeries(id, pendingEventIds, expandedUntil ?? undefined);
+      range = mergeRanges(range, expanded.range);
+      writtenEventIds.push(...expanded.writtenEventIds);
+    }
+    return { range, writtenEventIds };
+  }
+
+  private generateInstances(
+    series: DBEventSeries,
+    until: Date,
+    after?: Date
+  ): { id: string; start: Date; end: Date }[] {
+    let starts: Date[];
+    try {
+      starts = expandRecurrence(
+        { start: series.start, timeZone: series.timeZone, recurrence: series.recurrence },
+        until,
+        after
+      );
+    } catch (error) {
+      if (!(error instanceof UnsupportedRecurrenceError)) {
+        throw error;
+      }
+      console.warn(`Cannot expand series ${series.id}, keeping its first instance only:`, error);
+      starts = !after || series.start > after ? [series.start] : [];
+    }
+
+    const duration = series.end.getTime() - series.start.getTime();
+    return starts.map((start) => ({
+      id: formatInstanceId(series.id, start, !!series.isAllDay, series.timeZone),
+      start,
+      end: new Date(start.getTime() + duration),
+    }));
+  }
+
+  private async deleteInstances(instanceIds: string[]): Promise<TimeRange | null> {
+    let range: TimeRange | null = null;
+
+    for (let i = 0; i < instanceIds.length; i += ID_BATCH_SIZE) {
+      const deleted = await this.db
+        .delete(events)
+        .where(inArray(events.id, instanceIds.slice(i, i + ID_BATCH_SIZE)))
+        .returning({ start: events.start, end: events.end });
+
+      for (const { start, end } of deleted) {
+        if (start && end) {
+          range = mergeRanges(range, { earliest: start, latest: end });
+        }
+      }
+    }
+
+    return range;
+  }
+}
+
+function mergeRanges(a: TimeRange | null, b: TimeRange | null): TimeRange | null {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  return {
+    earliest: a.earliest < b.earliest ? a.earliest : b.earliest,
+    latest: a.latest > b.latest ? a.latest : b.latest,
+  };
+}
@@ -0,0 +1,163 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { events, type DBEvent } from '@/db/schema';
+import { CATEGORY_RULE_VERSION, type RuleNode } from '@/types/category_rule';
+import { and, desc, gte, isNull, lte } from 'drizzle-orm';
+import { CategoryService } from '../category/CategoryService';
+import {
+  CategorySuggestionService,
+  createTitleWordsRule,
+  tokenizeTitle,
+  type CategorySuggestion,
+} from './CategorySuggestionService';
+import {
+  EventCategorizationService,
+  type ManualAssignmentScope,
+} from './EventCategorizationService';
+
+/**
+ * Uncategorized events with the same title words, triaged together
+ */
+export interface InboxGroup {
+  key: string;
+  // The most common spelling of the title in the group
+  title: string;
+  tokens: string[];
+  // Newest first
+  events: DBEvent[];
+  totalMinutes: number;
+  suggestion: CategorySuggestion | null;
+}
+
+/**
+ * Groups uncategorized events by similar title and assigns categories to whole groups
+ */
+export class UncategorizedInboxService {
+  private categoryService: CategoryService;
+  private categorizationService: EventCategorizationService;
+  private suggestionService: CategorySuggestionService;
+
+  constructor(private db: DrizzleDB) {
+    this.categoryService = new CategoryService(db);
+    this.categorizationService = new EventCategorizationService(db);
+    this.suggestionService = new CategorySuggestionService(db);
+  }
+
+  /**
+   * Uncategorized events in the range grouped by title, most time first.
+   * Titles differing only in case, accents, punctuation, numbers or filler words are grouped.
+   */
+  async getGroups(range: { start: Date; end: Date }): Promise<InboxGroup[]> {
+    const uncategorized = await this.db
+      .select()
+      .from(events)
+      .where(
+        and(lte(events.start, range.end), gte(events.end, range.start), isNull(events.categoryId))
+      )
+      .orderBy(desc(events.start));
+
+    const groups = new Map<string, InboxGroup>();
+    for (const event of uncategorized) {
+      const tokens = tokenizeTitle(event.title);
+      const key = tokens.length > 0 ? tokens.join(' ') : (event.title || '').trim().toLowerCase();
+
+      const group = groups.get(key) ?? {
+        key,
+        title: event.title || '',
+        tokens,
+        events: [],
+        totalMinutes: 0,
+        suggestion: null,
+      };
+      group.events.push(event);
+      group.totalMinutes += event.effectiveDuration || 0;
+      groups.set(key, group);
+    }
+
+    // Learn from assignments made since the last load
+    this.suggestionService.reset();
+    const suggestions = await this.suggestionService.suggestCategories(
+      [...groups.values()].map((group) => group.events[0])
+    );
+
+    return [...groups.values()]
+      .map((group) => ({
+        ...group,
+        title: this.getMostCommonTitle(group.events),
+        suggestion: suggestions.get(group.events[0].id) ?? null,
+      }))
+      .sort((a, b) => b.totalMinutes - a.totalMinutes || b.events.length - a.events.length);
+  }
+
+  /**
+   * Manually assign a category to every event of the groups. With scope 'series' recurring
+   * events are assigned with their whole series, so the number assigned can exceed the events
+   * in the groups.
+   */
+  async assignGroups(
+    groups: InboxGroup[],
+    categoryId: string,
+    scope: ManualAssignmentScope = 'instance'
+  ): Promise<number> {
+    return await this.categorizationService.manuallyAssignCategoryToEvents(
+      groups.flatMap((group) => group.events.map(({ id }) => id)),
+      categoryId,
+      scope
+    );
+  }
+
+  /**
+   * Whether any event of the groups belongs to a recurring series
+   */
+  hasRecurringEvents(groups: InboxGroup[]): boolean {
+    return groups.some((group) => group.events.some((event) => event.recurringEventId));
+  }
+
+  /**
+   * Assign the groups, and add a rule per group so future events with these titles
+   * are categorized automatically. A given `rule` is added instead of the per-group rules.
+   */
+  async assignGroupsAndCreateRules(
+    groups: InboxGroup[],
+    categoryId: string,
+    rule?: RuleNode,
+    scope: ManualAssignmentScope = 'instance'
+  ): Promise<number> {
+    const assigned = await this.assignGroups(groups, categoryId, scope);
+
+    for (const groupRule of rule ? [rule] : groups.map((group) => this.getGroupRule(group))) {
+      await this.categoryService.addRule(categoryId, groupRule);
+    }
+    // Also picks up matching events outside the triaged period
+    await this.categorizationService.recategorizeEventsForCategory(categoryId);
+
+    return assigned;
+  }
+
+  /**
+   * Rule matching the titles of the group
+   */
+  getGroupRule(group: InboxGroup): RuleNode {
+    return (
+      createTitleWordsRule(group.tokens) ?? {
+        // Titles without words, such as "1:1", are matched as a whole
+        version: CATEGORY_RULE_VERSION,
+        type: 'EQUALS',
+        field: 'title',
+        content: group.title.trim(),
+        caseSensitive: false,
+        trimWhitespace: true,
+      }
+    );
+  }
+
+  private getMostCommonTitle(groupEvents: DBEvent[]): string {
+    const counts = new Map<string, number>();
+    for (const event of groupEvents) {
+      const title = event.title || '';
+      counts.set(title, (counts.get(title) || 0) + 1);
+    }
+    return [...counts.entries()].reduce((prev, current) =>
+      current[1] > prev[1] ? current : prev
+    )[0];
+  }
+}
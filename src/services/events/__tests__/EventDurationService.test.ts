@@ -0,0 +1,177 @@
+import type { OverlapStrategy } from '@/types/settings';
+import { OVERLAP_STRATEGIES } from '@/types/settings';
+import { allocateEffectiveDurations, type DurationEvent } from '../EventDurationService';
+
+const MINUTE = 60 * 1000;
+const BASE = Date.UTC(2024, 0, 1, 9);
+
+/**
+ * Deterministic random numbers in [0, 1), so a failing set can be reproduced
+ */
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Up to 25 events sorted by start, mixing whole minutes, seconds, zero-length events,
+ * events ending before they start and events without an end
+ */
+function randomEvents(random: () => number): DurationEvent[] {
+  const pick = (n: number) => Math.floor(random() * n);
+  const events = Array.from({ length: 1 + pick(25) }, (): DurationEvent => {
+    const start = BASE + pick(240) * MINUTE + (random() < 0.3 ? pick(60) * 1000 : 0);
+    const kind = random();
+    const end =
+      kind < 0.05
+        ? null
+        : kind < 0.1
+          ? start
+          : kind < 0.15
+            ? start - (1 + pick(30)) * MINUTE
+            : start + (1 + pick(120)) * MINUTE + (random() < 0.3 ? pick(60) * 1000 : 0);
+    return {
+      start: new Date(start),
+      end: end === null ? null : new Date(end),
+      isBackground: random() < 0.2,
+      category: random() < 0.8 ? { priority: pick(4) - 1 } : null,
+    };
+  });
+  return events.sort((a, b) => a.start!.getTime() - b.start!.getTime());
+}
+
+/**
+ * The round-robin loop effective durations were calculated with before the sweep line
+ */
+function roundRobinDurations(events: DurationEvent[]): number[] {
+  const durations = events.map(() => 0);
+  const boundaries = [
+    ...new Set(events.flatMap((event) => [event.start, event.end]).map((date) => date?.getTime())),
+  ]
+    .filter((time): time is number => time !== undefined)
+    .sort((a, b) => a - b);
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const covering = events
+      .map((event, position) => ({ event, position }))
+      .filter(
+        ({ event }) =>
+          event.start &&
+          event.end &&
+          event.start.getTime() <= boundaries[i] &&
+          event.end.getTime() >= boundaries[i + 1]
+      );
+    let sliceDuration = (boundaries[i + 1] - boundaries[i]) / MINUTE;
+
+    let index = 0;
+    do {
+      const entry = covering[index];
+      if (!entry) break;
+
+      durations[entry.position] += 1;
+      sliceDuration -= 1;
+      index = (index + 1) % covering.length;
+    } while (sliceDuration > 0);
+  }
+
+  return durations;
+}
+
+/**
+ * Straight per-slice implementation of the allocation rules and overlap strategies in
+ * docs/effective-duration-sweep-line.md
+ */
+function referenceDurations(events: DurationEvent[], strategy: OverlapStrategy): number[] {
+  const durations = events.map(() => 0);
+  const boundaries = [
+    ...new Set(events.flatMap((event) => [event.start, event.end]).map((date) => date?.getTime())),
+  ]
+    .filter((time): time is number => time !== undefined)
+    .sort((a, b) => a - b);
+
+  // Lower is stronger, foreground before background
+  const claimOf = (event: DurationEvent): [number, number] => {
+    const background = event.isBackground ? 1 : 0;
+    if (strategy === 'priority') {
+      return [background, event.category ? -(event.category.priority ?? 0) : Infinity];
+    }
+    if (strategy === 'shortest') {
+      return [background, event.end!.getTime() - event.start!.getTime()];
+    }
+    return [background, 0];
+  };
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const covering = events
+      .map((event, position) => ({ position, event }))
+      .filter(
+        ({ event }) =>
+          event.start &&
+          event.end &&
+          event.start < event.end &&
+          event.start.getTime() <= boundaries[i] &&
+          event.end.getTime() >= boundaries[i + 1]
+      )
+      .map(({ position, event }) => ({ position, claim: claimOf(event) }));
+    if (covering.length === 0) continue;
+
+    const strongest = covering.reduce((best, entry) =>
+      entry.claim[0] < best.claim[0] ||
+      (entry.claim[0] === best.claim[0] && entry.claim[1] < best.claim[1])
+        ? entry
+        : best
+    ).claim;
+    const winners = covering.filter(
+      ({ claim }) => claim[0] === strongest[0] && claim[1] === strongest[1]
+    );
+
+    const minutes = Math.ceil((boundaries[i + 1] - boundaries[i]) / MINUTE);
+    winners.forEach(({ position }, index) => {
+      durations[position] +=
+        strategy === 'full'
+          ? minutes
+          : Math.floor(minutes / winners.length) + (index < minutes % winners.length ? 1 : 0);
+    });
+  }
+
+  return durations;
+}
+
+describe('allocateEffectiveDurations', () => {
+  it('matches the round-robin loop it replaced', () => {
+    const random = createRandom(1);
+    for (let set = 0; set < 3000; set++) {
+      // The old loop knew nothing of background events
+      const events = randomEvents(random).map((event) => ({ ...event, isBackground: false }));
+      expect(allocateEffectiveDurations(events, 'even')).toEqual(roundRobinDurations(events));
+    }
+  });
+
+  it.each(OVERLAP_STRATEGIES)('matches the per-slice rules with the %s strategy', (strategy) => {
+    const random = createRandom(2);
+    for (let set = 0; set < 1000; set++) {
+      const events = randomEvents(random);
+      expect(allocateEffectiveDurations(events, strategy)).toEqual(
+        referenceDurations(events, strategy)
+      );
+    }
+  });
+
+  it('gives background events only the time no foreground event claims', () => {
+    const events: DurationEvent[] = [
+      // Working hours 9:00 to 17:00 with a meeting from 10:00 to 11:00
+      { start: new Date(BASE), end: new Date(BASE + 8 * 60 * MINUTE), isBackground: true },
+      {
+        start: new Date(BASE + 60 * MINUTE),
+        end: new Date(BASE + 120 * MINUTE),
+        isBackground: false,
+      },
+    ];
+
+    expect(allocateEffectiveDurations(events, 'even')).toEqual([7 * 60, 60]);
+  });
+});
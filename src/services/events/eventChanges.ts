@@ -0,0 +1,30 @@
+/**
+ * Notifies mounted screens that events were changed locally, so lists and caches
+ * showing them reload without waiting for the next sync
+ */
+
+export type EventsChangedListener = (eventIds: string[]) => void;
+
+const listeners = new Set<EventsChangedListener>();
+
+/**
+ * Subscribe to local event changes, returns the unsubscribe function
+ */
+export function onEventsChanged(listener: EventsChangedListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function notifyEventsChanged(eventIds: string[]) {
+  if (eventIds.length === 0) return;
+
+  for (const listener of listeners) {
+    try {
+      listener(eventIds);
+    } catch (error) {
+      console.error('Events changed listener failed:', error);
+    }
+  }
+}
@@ -0,0 +1,363 @@
+import { TZDate } from '@date-fns/tz';
+
+/**
+ * Local expansion of the RFC 5545 recurrence rules Google Calendar returns for a series.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, COUNT, UNTIL, BYDAY (incl. ordinals
+ * such as 2TU or -1FR), BYMONTHDAY, BYMONTH and WKST, plus RDATE and EXDATE lines.
+ * Everything else (BYSETPOS, BYWEEKNO, sub-daily frequencies, ...) throws
+ * UnsupportedRecurrenceError, callers fall back to the first instance only.
+ */
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that never (or hardly ever) produce an instance, e.g. BYMONTHDAY=30;BYMONTH=2
+const MAX_EMPTY_PERIODS = 1000;
+// Instances returned at most, the earliest ones are dropped so the latest reach `until`
+const MAX_INSTANCES = 10000;
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface ByDay {
+  weekday: number; // 0 = Sunday
+  ordinal?: number; // 2 = second, -1 = last
+}
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 0-based, like Date#getMonth()
+  weekStart: number;
+}
+
+export interface RecurrenceInput {
+  // Start of the first instance (DTSTART)
+  start: Date;
+  // Zone the wall-clock rule is evaluated in, keeps instances at the same local time across DST
+  timeZone: string;
+  // RRULE, RDATE and EXDATE lines as found in GoogleCalendarEvent.recurrence
+  recurrence: string[];
+}
+
+export class UnsupportedRecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedRecurrenceError';
+  }
+}
+
+/**
+ * Start times of the instances of a series after `after`, by default all of them, up to
+ * (and including) `until`, sorted ascending. COUNT still counts from the first instance.
+ */
+export function expandRecurrence(input: RecurrenceInput, until: Date, after?: Date): Date[] {
+  const { start, timeZone } = input;
+  const dtStart = new TZDate(start.getTime(), timeZone);
+  const time = {
+    hours: dtStart.getHours(),
+    minutes: dtStart.getMinutes(),
+    seconds: dtStart.getSeconds(),
+  };
+
+  const rules: RecurrenceRule[] = [];
+  const included = new Set<number>();
+  const excluded = new Set<number>();
+
+  for (const line of input.recurrence) {
+    const { name, params, value } = parseContentLine(line);
+
+    if (name === 'RRULE') {
+      rules.push(parseRule(value, timeZone, time));
+    } else if (name === 'RDATE' || name === 'EXDATE') {
+      const target = name === 'RDATE' ? included : excluded;
+      for (const part of value.split(',')) {
+        target.add(parseDateValue(part, params.TZID ?? timeZone, time).getTime());
+      }
+    } else {
+      throw new UnsupportedRecurrenceError(`Unsupported recurrence property ${name}`);
+    }
+  }
+
+  const instances = new Set<number>([start.getTime()]);
+  for (const rule of rules) {
+    for (const instance of expandRule(rule, dtStart, timeZone, time, until.getTime())) {
+      instances.add(instance);
+    }
+  }
+  for (const instance of included) {
+    if (instance <= until.getTime()) instances.add(instance);
+  }
+
+  const from = after?.getTime() ?? -Infinity;
+  return [...instances]
+    .filter((instance) => instance > from && !excluded.has(instance))
+    .sort((a, b) => a - b)
+    .slice(-MAX_INSTANCES)
+    .map((instance) => new Date(instance));
+}
+
+/**
+ * Id Google gives an instance of a recurring event, e.g. `abc123_20240105T090000Z`
+ * or `abc123_20240105` for all-day series. Modified instances synced from Google use
+ * the same id, so they replace the locally generated row.
+ */
+export function formatInstanceId(
+  seriesId: string,
+  originalStart: Date,
+  isAllDay: boolean,
+  timeZone: string
+): string {
+  if (isAllDay) {
+    const local = new TZDate(originalStart.getTime(), timeZone);
+    return `${seriesId}_${formatDate(local.getFullYear(), local.getMonth(), local.getDate())}`;
+  }
+
+  const iso = originalStart.toISOString(); // 2024-01-05T09:00:00.000Z
+  return `${seriesId}_${iso.slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+function expandRule(
+  rule: RecurrenceRule,
+  dtStart: TZDate,
+  timeZone: string,
+  time: { hours: number; minutes: number; seconds: number },
+  horizon: number
+): number[] {
+  const instances: number[] = [];
+  const first = dtStart.getTime();
+  const end = Math.min(horizon, rule.until ?? Infinity);
+  let emptyPeriods = 0;
+
+  for (let period = 0; ; period++) {
+    const days = periodDays(rule, dtStart, period * rule.interval);
+    if (days.length === 0) {
+      if (++emptyPeriods > MAX_EMPTY_PERIODS) break;
+      continue;
+    }
+    emptyPeriods = 0;
+
+    const candidates = days
+      .map((day) => {
+        const date = new Date(day);
+        return new TZDate(
+          date.getUTCFullYear(),
+          date.getUTCMonth(),
+          date.getUTCDate(),
+          time.hours,
+          time.minutes,
+          time.seconds,
+          timeZone
+        ).getTime();
+      })
+      .sort((a, b) => a - b);
+
+    for (const candidate of candidates) {
+      if (candidate < first) continue;
+      if (candidate > end) return instances;
+      if (rule.count !== undefined && instances.length >= rule.count) return instances;
+      instances.push(candidate);
+    }
+  }
+
+  return instances;
+}
+
+/**
+ * Candidate days (UTC midnight of the wall date) of the n-th period after DTSTART
+ */
+function periodDays(rule: RecurrenceRule, dtStart: TZDate, offset: number): number[] {
+  const startDay = Date.UTC(dtStart.getFullYear(), dtStart.getMonth(), dtStart.getDate());
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + offset * DAY_MS;
+      const date = new Date(day);
+      if (rule.byMonth && !rule.byMonth.includes(date.getUTCMonth())) return [];
+      if (rule.byMonthDay && !monthDaysOf(rule.byMonthDay, date).includes(date.getUTCDate())) {
+        return [];
+      }
+      if (rule.byDay && !rule.byDay.some((entry) => entry.weekday === date.getUTCDay())) {
+        return [];
+      }
+      return [day];
+    }
+
+    case 'WEEKLY': {
+      const weekStart =
+        startDay - ((dtStart.getDay() - rule.weekStart + 7) % 7) * DAY_MS + offset * 7 * DAY_MS;
+      const weekdays = rule.byDay?.map((entry) => entry.weekday) ?? [dtStart.getDay()];
+      return weekdays
+        .map((weekday) => weekStart + ((weekday - rule.weekStart + 7) % 7) * DAY_MS)
+        .filter((day) => !rule.byMonth || rule.byMonth.includes(new Date(day).getUTCMonth()));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = dtStart.getMonth() + offset;
+      const year = dtStart.getFullYear() + Math.floor(monthIndex / 12);
+      const month = ((monthIndex % 12) + 12) % 12;
+      if (rule.byMonth && !rule.byMonth.includes(month)) return [];
+      return daysInMonthMatching(rule, dtStart, year, month);
+    }
+
+    case 'YEARLY': {
+      const year = dtStart.getFullYear() + offset;
+      const months = rule.byMonth ?? [dtStart.getMonth()];
+      return months.flatMap((month) => daysInMonthMatching(rule, dtStart, year, month));
+    }
+  }
+}
+
+function daysInMonthMatching(
+  rule: RecurrenceRule,
+  dtStart: TZDate,
+  year: number,
+  month: number
+): number[] {
+  const monthLength = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = monthDaysOf(rule.byMonthDay, new Date(Date.UTC(year, month, 1)));
+    if (rule.byDay) {
+      days = days.filter((day) =>
+        rule.byDay!.some(
+          (entry) => entry.weekday === new Date(Date.UTC(year, month, day)).getUTCDay()
+        )
+      );
+    }
+  } else if (rule.byDay) {
+    days = rule.byDay.flatMap((entry) => {
+      const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+      const matching: number[] = [];
+      for (let day = 1 + ((entry.weekday - firstWeekday + 7) % 7); day <= monthLength; day += 7) {
+        matching.push(day);
+      }
+      if (entry.ordinal === undefined) return matching;
+      const picked = matching.at(entry.ordinal > 0 ? entry.ordinal - 1 : entry.ordinal);
+      return picked === undefined ? [] : [picked];
+    });
+  } else {
+    // Months without the start day (e.g. the 31st) are skipped, as RFC 5545 requires
+    days = dtStart.getDate() <= monthLength ? [dtStart.getDate()] : [];
+  }
+
+  return days.map((day) => Date.UTC(year, month, day));
+}
+
+// Resolves negative BYMONTHDAY values (-1 = last day) against the month of `date`
+function monthDaysOf(byMonthDay: number[], date: Date): number[] {
+  const monthLength = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  return byMonthDay
+    .map((day) => (day < 0 ? monthLength + 1 + day : day))
+    .filter((day) => day >= 1 && day <= monthLength);
+}
+
+function parseRule(
+  value: string,
+  timeZone: string,
+  time: { hours: number; minutes: number; seconds: number }
+): RecurrenceRule {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, partValue] = part.split('=');
+      return [key.toUpperCase(), partValue];
+    })
+  );
+
+  const { FREQ, INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH, WKST, ...rest } = parts;
+
+  const unsupported = Object.keys(rest);
+  if (unsupported.length > 0) {
+    throw new UnsupportedRecurrenceError(`Unsupported RRULE parts: ${unsupported.join(', ')}`);
+  }
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(FREQ)) {
+    throw new UnsupportedRecurrenceError(`Unsupported RRULE frequency ${FREQ}`);
+  }
+
+  const byDay = BYDAY?.split(',').map((entry: string): ByDay => {
+    const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) {
+      throw new UnsupportedRecurrenceError(`Invalid BYDAY value ${entry}`);
+    }
+    return {
+      weekday: WEEKDAYS.indexOf(match[2] as (typeof WEEKDAYS)[number]),
+      ordinal: match[1] ? parseInt(match[1], 10) : undefined,
+    };
+  });
+  if (FREQ === 'YEARLY' && byDay && !BYMONTH) {
+    throw new UnsupportedRecurrenceError('BYDAY in a YEARLY rule requires BYMONTH');
+  }
+
+  return {
+    freq: FREQ as Frequency,
+    interval: INTERVAL ? parseInt(INTERVAL, 10) : 1,
+    count: COUNT ? parseInt(COUNT, 10) : undefined,
+    until: UNTIL ? parseUntil(UNTIL, timeZone, time) : undefined,
+    byDay,
+    byMonthDay: BYMONTHDAY?.split(',').map((day: string) => parseInt(day, 10)),
+    byMonth: BYMONTH?.split(',').map((month: string) => parseInt(month, 10) - 1),
+    weekStart: WKST ? WEEKDAYS.indexOf(WKST as (typeof WEEKDAYS)[number]) : 1,
+  };
+}
+
+// A date-only UNTIL includes every instance on that day
+function parseUntil(
+  value: string,
+  timeZone: string,
+  time: { hours: number; minutes: number; seconds: number }
+): number {
+  if (/^\d{8}$/.test(value)) {
+    return parseDateValue(value, timeZone, { hours: 23, minutes: 59, seconds: 59 }).getTime();
+  }
+  return parseDateValue(value, timeZone, time).getTime();
+}
+
+/**
+ * Parse DATE (20240105), UTC DATE-TIME (20240105T090000Z) and local DATE-TIME values.
+ * Dates without a time get the series' start time, so they line up with generated instances.
+ */
+function parseDateValue(
+  value: string,
+  timeZone: string,
+  time: { hours: number; minutes: number; seconds: number }
+): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    throw new UnsupportedRecurrenceError(`Invalid date value ${value}`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [parseInt(year, 10), parseInt(month, 10) - 1, parseInt(day, 10)] as const;
+
+  if (hours === undefined) {
+    return new TZDate(...parts, time.hours, time.minutes, time.seconds, timeZone);
+  }
+  const clock = [parseInt(hours, 10), parseInt(minutes, 10), parseInt(seconds, 10)] as const;
+  return utc ? new Date(Date.UTC(...parts, ...clock)) : new TZDate(...parts, ...clock, timeZone);
+}
+
+// `EXDATE;TZID=Europe/Berlin:20240105T090000` -> name, params and value
+function parseContentLine(line: string): {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+} {
+  const separator = line.indexOf(':');
+  const [name, ...params] = line.slice(0, separator).split(';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map((param) => param.split('=') as [string, string])),
+    value: line.slice(separator + 1),
+  };
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}${String(month + 1).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,165 @@
+import type { Category, DBEvent } from '@/db/schema';
+import {
+  isRuleGroup,
+  normalizeCategoryRules,
+  parseTimeOfDay,
+  type CategoryRule,
+  type RuleField,
+  type RuleNode,
+  type TextCategoryRule,
+} from '@/types/category_rule';
+import { getDeviceTimeZone, getMinutesIntoDay } from '../calendar/timezone';
+
+/**
+ * Category rules turned into plain functions once, so matching thousands of events
+ * doesn't re-parse rules or rebuild regexes for every event.
+ */
+
+// Accents and other marks left over after NFKD decomposition
+const COMBINING_MARKS = /\p{M}/gu;
+// Whole-word boundaries that also work for non-ASCII letters, unlike \b
+const WORD_START = '(?<![\\p{L}\\p{N}_])';
+const WORD_END = '(?![\\p{L}\\p{N}_])';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export type EventMatcher = (event: DBEvent) => boolean;
+export type TextMatcher = (value: string) => boolean;
+
+export interface CompiledCategory {
+  category: Category;
+  rules: RuleNode[];
+  // One per top-level rule or group, in the same order as `rules`
+  matchers: EventMatcher[];
+}
+
+export function getFieldValue(event: DBEvent, field: RuleField): string {
+  switch (field) {
+    case 'title':
+      return event.title || '';
+    case 'description':
+      return event.description || '';
+    case 'calendarId':
+      return event.calendarId;
+    case 'eventType':
+      // Google leaves the type out for regular events
+      return event.eventType || 'default';
+  }
+}
+
+/**
+ * Matcher for a field value against a text rule, honoring its normalization options
+ */
+export function compileTextRule(rule: TextCategoryRule): TextMatcher {
+  const caseSensitive = rule.caseSensitive ?? rule.type !== 'REGEX';
+  const prepare = (text: string) => {
+    let prepared = text;
+    if (rule.trimWhitespace) prepared = prepared.trim().replace(/\s+/g, ' ');
+    if (rule.normalizeUnicode) {
+      prepared = prepared.normalize('NFKD').replace(COMBINING_MARKS, '').normalize('NFC');
+    }
+    // Regex patterns keep their case, the 'i' flag handles it
+    return caseSensitive || rule.type === 'REGEX' ? prepared : prepared.toLowerCase();
+  };
+
+  // A pattern is taken as written, trimming or stripping accents would change what it means
+  const content = rule.type === 'REGEX' ? rule.content : prepare(rule.content);
+
+  if (rule.type === 'REGEX' || (rule.wholeWord && rule.type !== 'EQUALS')) {
+    const pattern = rule.type === 'REGEX' ? content : escapeRegExp(content);
+    const start = rule.type === 'STARTS_WITH' ? '^' : rule.wholeWord ? WORD_START : '';
+    const end = rule.type === 'ENDS_WITH' ? '$' : rule.wholeWord ? WORD_END : '';
+    try {
+      // Unicode mode only where needed, it rejects some patterns older rules may use
+      const flags = (caseSensitive ? '' : 'i') + (rule.wholeWord ? 'u' : '');
+      const regex = new RegExp(`${start}(?:${pattern})${end}`, flags);
+      return (value) => regex.test(prepare(value));
+    } catch (error) {
+      console.warn(`Invalid regex in category rule: ${rule.content}`, error);
+      return () => false;
+    }
+  }
+
+  switch (rule.type) {
+    case 'EQUALS':
+      return (value) => prepare(value) === content;
+    case 'STARTS_WITH':
+      return (value) => prepare(value).startsWith(content);
+    case 'ENDS_WITH':
+      return (value) => prepare(value).endsWith(content);
+    case 'CONTAINS':
+      return (value) => prepare(value).includes(content);
+    default:
+      return () => false;
+  }
+}
+
+function compileRule(rule: CategoryRule, calendarTimeZones: Map<string, string>): EventMatcher {
+  switch (rule.type) {
+    case 'DURATION':
+      return (event) => {
+        if (!event.start || !event.end) return false;
+        const minutes = (event.end.getTime() - event.start.getTime()) / (1000 * 60);
+        return (
+          (rule.minMinutes === undefined || minutes >= rule.minMinutes) &&
+          (rule.maxMinutes === undefined || minutes <= rule.maxMinutes)
+        );
+      };
+
+    case 'TIME_OF_DAY': {
+      const from = parseTimeOfDay(rule.from);
+      const to = parseTimeOfDay(rule.to);
+      const deviceTimeZone = getDeviceTimeZone();
+      return (event) => {
+        // All-day events have no time of day
+        if (!event.start || event.isAllDay) return false;
+        const timeZone = calendarTimeZones.get(event.calendarId) ?? deviceTimeZone;
+        const minutes = getMinutesIntoDay(event.start, timeZone);
+        return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+      };
+    }
+  }
+
+  const field = rule.field;
+  const matchesText = compileTextRule(rule);
+  return (event) => matchesText(getFieldValue(event, field));
+}
+
+/**
+ * Matcher for a rule or a group of rules
+ */
+export function compileRuleNode(
+  node: RuleNode,
+  calendarTimeZones: Map<string, string>
+): EventMatcher {
+  if (!isRuleGroup(node)) {
+    return compileRule(node, calendarTimeZones);
+  }
+
+  const children = node.children.map((child) => compileRuleNode(child, calendarTimeZones));
+  switch (node.operator) {
+    case 'AND':
+      return (event) => children.length > 0 && children.every((matches) => matches(event));
+    case 'OR':
+      return (event) => children.some((matches) => matches(event));
+    case 'NOT':
+      return (event) => !children.some((matches) => matches(event));
+  }
+}
+
+/**
+ * Parse and compile the rules of each category, keeping the order of `categories`
+ */
+export function compileCategories(
+  categories: Category[],
+  calendarTimeZones: Map<string, string>
+): CompiledCategory[] {
+  return categories.map((category) => {
+    const rules = normalizeCategoryRules(category.rules);
+    return {
+      category,
+      rules,
+      matchers: rules.map((rule) => compileRuleNode(rule, calendarTimeZones)),
+    };
+  });
+}
@@ -1,12 +1,28 @@
 import type { DrizzleDB } from '@/db/SQLiteProvider';
 import { events, categories, calendars, type DBEvent, type Category } from '@/db/schema';
+import { parseTimeOfDay } from '@/types/category_rule';
+import { DEFAULT_SETTINGS, type OverlapStrategy, type WorkingDay } from '@/types/settings';
 import {
   CategoryService,
+  UNACCOUNTED_CATEGORY,
   UNCATEGORIZED_CATEGORY,
   type CategoryWithChildren,
 } from '../category/CategoryService';
-import { eq, and, gte, lte, isNull } from 'drizzle-orm';
+import { eq, and, or, gt, gte, lt, lte, isNull, asc, sql } from 'drizzle-orm';
 import { CalendarService } from '../calendar/CalendarService';
+import {
+  addToDate,
+  atMinutesIntoDay,
+  getDayBounds,
+  getDayOfWeek,
+  getDeviceTimeZone,
+  getPeriodRange,
+  toDateKey,
+  type PeriodType,
+} from '../calendar/timezone';
+import { SettingsService } from '../settings/SettingsService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface TimeRange {
   start: Date;
@@ -24,6 +40,22 @@ export interface EventWithCategory extends DBEvent {
     id: string;
     title: string;
   } | null;
+  // effectiveDuration is an estimate from the all-day weight, not scheduled time
+  isEstimated?: boolean;
+  // A stretch of working hours no event covers, not a stored event
+  isUnaccounted?: boolean;
+}
+
+export interface ReportOptions {
+  // Count all-day events as a fixed number of hours for each weekday (Mon-Fri) they cover
+  includeAllDayEvents?: boolean;
+  allDayHoursPerWeekday?: number;
+  // Zone that decides which weekday an all-day event falls on
+  timeZone?: string;
+  // Add the working hours no event covers as the virtual Unaccounted category
+  fillUnaccountedTime?: boolean;
+  // Indexed by day of the week, 0 is Sunday, null for a day off
+  workingHours?: (WorkingDay | null)[];
 }
 
 export interface CategoryReport {
@@ -33,6 +65,7 @@ export interface CategoryReport {
   totalDuration: number; // Direct + all descendant categories
   eventCount: number; // Direct events count
   totalEventCount: number; // Direct + descendant events count
+  estimatedDuration: number; // Part of totalDuration estimated from all-day events
   children: CategoryReport[];
   categoryPath: string[]; // Array of category names from root to this category
 }
@@ -44,25 +77,80 @@ export interface ReportSummary {
   categorizedEvents: number;
   uncategorizedDuration: number;
   uncategorizedEvents: number;
+  // Working hours no event covers, only filled in when the options ask for it
+  unaccountedDuration: number;
+  estimatedDuration: number;
+  // How the durations split the time of overlapping events
+  overlapStrategy: OverlapStrategy;
   categoryBreakdown: CategoryReport[];
 }
 
+export interface CategoryDelta {
+  previousDuration: number;
+  // Minutes more (positive) or less than in the previous range
+  change: number;
+  // null when there was no time in the previous range
+  percentChange: number | null;
+}
+
+export interface ReportComparison {
+  current: ReportSummary;
+  previous: ReportSummary;
+  // By category id, for the categories of either breakdown
+  deltas: Record<string, CategoryDelta>;
+}
+
+export interface CategoryReportComparison {
+  current: CategoryReport | null;
+  previous: CategoryReport | null;
+  // By category id, for the children of either report
+  deltas: Record<string, CategoryDelta>;
+}
+
+// Trends are shown per day, week or month
+export type TrendPeriodType = Exclude<PeriodType, 'annually'>;
+
+export interface TrendSeries {
+  category: Category;
+  // Over all periods, series are sorted by it
+  totalDuration: number;
+}
+
+export interface TrendBucket {
+  range: TimeRange;
+  // By category id of the series
+  durations: Record<string, number>;
+  totalDuration: number;
+}
+
+export interface CategoryTrend {
+  type: TrendPeriodType;
+  series: TrendSeries[];
+  // Oldest first
+  buckets: TrendBucket[];
+}
+
 export class CategoryReportService {
   private calendarService: CalendarService;
   private categoryService: CategoryService;
+  private settingsService: SettingsService;
   private primaryTimezone: string | null = null;
 
   constructor(private db: DrizzleDB) {
     this.calendarService = new CalendarService(db);
     this.categoryService = new CategoryService(db);
+    this.settingsService = new SettingsService(db);
   }
 
   /**
    * Generate a comprehensive report for all categories within a time range
    */
-  async generateFullReport(timeRange: TimeRange): Promise<ReportSummary> {
+  async generateFullReport(
+    timeRange: TimeRange,
+    options: ReportOptions = {}
+  ): Promise<ReportSummary> {
     // Get all events in the time range with category and calendar info
-    const eventsWithDetails = await this.getEventsWithDetails({ timeRange });
+    const eventsWithDetails = await this.getEventsWithDetails({ timeRange, options });
 
     // Build category tree
     const categoryTree = await this.categoryService.getCategoriesTree();
@@ -79,16 +167,208 @@ export class CategoryReportService {
         totalDuration: this.sumDuration(uncategorizedEvents),
         eventCount: uncategorizedEvents.length,
         totalEventCount: uncategorizedEvents.length,
+        estimatedDuration: this.sumEstimatedDuration(uncategorizedEvents),
         children: [],
         categoryPath: [UNCATEGORIZED_CATEGORY.name],
       };
       categoryBreakdown.push(uncategorizedReport);
     }
 
+    // Untracked working hours go next to it
+    const unaccountedGaps = eventsWithDetails.filter((event) => event.isUnaccounted);
+    if (unaccountedGaps.length > 0) {
+      categoryBreakdown.push({
+        category: UNACCOUNTED_CATEGORY,
+        directDuration: this.sumDuration(unaccountedGaps),
+        totalDuration: this.sumDuration(unaccountedGaps),
+        eventCount: unaccountedGaps.length,
+        totalEventCount: unaccountedGaps.length,
+        estimatedDuration: 0,
+        children: [],
+        categoryPath: [UNACCOUNTED_CATEGORY.name],
+      });
+    }
+
     // Calculate summary statistics
     const summary = this.calculateSummary(eventsWithDetails, categoryBreakdown);
 
-    return summary;
+    return { ...summary, overlapStrategy: await this.getOverlapStrategy() };
+  }
+
+  /**
+   * Strategy the stored durations were calculated with, they are recalculated before
+   * a changed setting is saved
+   */
+  async getOverlapStrategy(): Promise<OverlapStrategy> {
+    return await this.settingsService.getSetting('overlapStrategy');
+  }
+
+  /**
+   * Full reports of two time ranges, with the change of every category from the previous one
+   */
+  async generateComparisonReport(
+    timeRange: TimeRange,
+    previousRange: TimeRange,
+    options: ReportOptions = {}
+  ): Promise<ReportComparison> {
+    const current = await this.generateFullReport(timeRange, options);
+    const previous = await this.generateFullReport(previousRange, options);
+
+    return {
+      current,
+      previous,
+      deltas: CategoryReportService.diffCategoryReports(
+        current.categoryBreakdown,
+        previous.categoryBreakdown
+      ),
+    };
+  }
+
+  /**
+   * Category reports of two time ranges, with the change of every child category
+   */
+  async getCategoryReportComparison(
+    categoryId: string,
+    timeRange: TimeRange,
+    previousRange: TimeRange,
+    includeDescendants: boolean = true,
+    options: ReportOptions = {}
+  ): Promise<CategoryReportComparison> {
+    const current = await this.getCategoryReport(
+      categoryId,
+      timeRange,
+      includeDescendants,
+      options
+    );
+    const previous = await this.getCategoryReport(
+      categoryId,
+      previousRange,
+      includeDescendants,
+      options
+    );
+
+    return {
+      current,
+      previous,
+      deltas: CategoryReportService.diffCategoryReports(
+        current?.children ?? [],
+        previous?.children ?? []
+      ),
+    };
+  }
+
+  /**
+   * Time per category in each of the last periods up to the current one, summed per period in SQL.
+   * The series are the root categories, or the children of the given category along with the
+   * category itself for its direct events. Only timed events count, all-day estimates and
+   * unaccounted time are left out.
+   */
+  async getCategoryTrend(
+    type: TrendPeriodType,
+    count: number,
+    options: ReportOptions = {},
+    parentCategoryId?: string
+  ): Promise<CategoryTrend> {
+    const timeZone = options.timeZone ?? getDeviceTimeZone();
+    const now = new Date();
+
+    const ranges: TimeRange[] = [getPeriodRange(type, now, timeZone)];
+    while (ranges.length < count) {
+      ranges.unshift(CategoryReportService.getPreviousTimeRange(ranges[0], type, timeZone));
+    }
+
+    // Index of the period an event starts in, timestamps are stored in seconds
+    const toSeconds = (date: Date) => Math.floor(date.getTime() / 1000);
+    const bucket = sql<number>`CASE ${sql.join(
+      ranges
+        .slice(1)
+        .map((range, index) => sql`WHEN ${events.start} < ${toSeconds(range.start)} THEN ${index}`),
+      sql` `
+    )} ELSE ${ranges.length - 1} END`;
+
+    const rows = await this.db
+      .select({
+        bucket,
+        categoryId: events.categoryId,
+        duration: sql<number>`SUM(${events.effectiveDuration})`,
+      })
+      .from(events)
+      .where(
+        and(
+          eq(events.isAllDay, false),
+          gte(events.start, ranges[0].start),
+          lte(events.start, now),
+          lte(events.end, ranges[ranges.length - 1].end)
+        )
+      )
+      .groupBy(bucket, events.categoryId);
+
+    const seriesOf = await this.getTrendSeriesResolver(parentCategoryId);
+    const buckets: TrendBucket[] = ranges.map((range) => ({
+      range,
+      durations: {},
+      totalDuration: 0,
+    }));
+    const totals = new Map<string, TrendSeries>();
+
+    for (const row of rows) {
+      const category = seriesOf(row.categoryId);
+      if (!category || !row.duration) continue;
+
+      const target = buckets[row.bucket];
+      target.durations[category.id] = (target.durations[category.id] ?? 0) + row.duration;
+      target.totalDuration += row.duration;
+
+      const series = totals.get(category.id) ?? { category, totalDuration: 0 };
+      series.totalDuration += row.duration;
+      totals.set(category.id, series);
+    }
+
+    return {
+      type,
+      series: [...totals.values()].sort((a, b) => b.totalDuration - a.totalDuration),
+      buckets,
+    };
+  }
+
+  /**
+   * Maps the category of an event to the trend series it adds to, null when it's outside the
+   * shown category
+   */
+  private async getTrendSeriesResolver(
+    parentCategoryId?: string
+  ): Promise<(categoryId: string | null) => Category | null> {
+    const byId = new Map(
+      (await this.categoryService.getAllCategories()).map((category) => [category.id, category])
+    );
+
+    if (parentCategoryId === UNCATEGORIZED_CATEGORY.id) {
+      return (categoryId) => (categoryId === null ? UNCATEGORIZED_CATEGORY : null);
+    }
+    if (!parentCategoryId) {
+      return (categoryId) => {
+        if (categoryId === null) return UNCATEGORIZED_CATEGORY;
+
+        let category = byId.get(categoryId);
+        while (category?.parentCategoryId) {
+          category = byId.get(category.parentCategoryId);
+        }
+        return category ?? null;
+      };
+    }
+
+    return (categoryId) => {
+      // Walk up until the child of the shown category, or the category itself
+      let category = categoryId ? byId.get(categoryId) : undefined;
+      while (
+        category &&
+        category.id !== parentCategoryId &&
+        category.parentCategoryId !== parentCategoryId
+      ) {
+        category = category.parentCategoryId ? byId.get(category.parentCategoryId) : undefined;
+      }
+      return category ?? null;
+    };
   }
 
   /**
@@ -97,13 +377,14 @@ export class CategoryReportService {
   async getCategoryReport(
     categoryId: string,
     timeRange: TimeRange,
-    includeDescendants: boolean = true
+    includeDescendants: boolean = true,
+    options: ReportOptions = {}
   ): Promise<CategoryReport | null> {
     const category = await this.categoryService.getCategoryById(categoryId);
     if (!category) return null;
 
     // Get events for this category
-    const eventsWithDetails = await this.getEventsWithDetails({ timeRange });
+    const eventsWithDetails = await this.getEventsWithDetails({ timeRange, options });
 
     if (includeDescendants) {
       // Get the category with all its descendants
@@ -123,6 +404,7 @@ export class CategoryReportService {
         totalDuration: this.sumDuration(directEvents),
         eventCount: directEvents.length,
         totalEventCount: directEvents.length,
+        estimatedDuration: this.sumEstimatedDuration(directEvents),
         children: [],
         categoryPath,
       };
@@ -130,15 +412,23 @@ export class CategoryReportService {
   }
 
   /**
-   * Helper: Get all events in time range with category and calendar details
+   * Helper: Get all events in time range with category and calendar details.
+   * All-day events are only included when the options ask for it, with an estimated duration.
+   * So are the unaccounted working hours, see getUnaccountedGaps.
    */
   async getEventsWithDetails({
     timeRange,
     categoryId,
+    options = {},
   }: {
     timeRange: TimeRange;
     categoryId?: string;
+    options?: ReportOptions;
   }): Promise<EventWithCategory[]> {
+    if (categoryId === UNACCOUNTED_CATEGORY.id) {
+      return options.fillUnaccountedTime ? this.getUnaccountedGaps(timeRange, options) : [];
+    }
+
     let query = this.db
       .select({
         // Event fields
@@ -153,6 +443,13 @@ export class CategoryReportService {
         effectiveDuration: events.effectiveDuration,
         categoryId: events.categoryId,
         isManuallyCategorized: events.isManuallyCategorized,
+        categoryRuleMatch: events.categoryRuleMatch,
+        isBackground: events.isBackground,
+        etag: events.etag,
+        remoteUpdatedAt: events.remoteUpdatedAt,
+        recurringEventId: events.recurringEventId,
+        originalStartTime: events.originalStartTime,
+        isException: events.isException,
         updatedAt: events.updatedAt,
         createdAt: events.createdAt,
         // Category fields
@@ -166,11 +463,23 @@ export class CategoryReportService {
       .leftJoin(categories, eq(events.categoryId, categories.id))
       .leftJoin(calendars, eq(events.calendarId, calendars.id));
 
-    const conditions = [
+    const now = new Date();
+    const timedCondition = and(
       eq(events.isAllDay, false),
       gte(events.start, timeRange.start),
-      lte(events.start, new Date()),
-      lte(events.end, timeRange.end),
+      lte(events.start, now),
+      lte(events.end, timeRange.end)
+    );
+    // All-day events only count for the days they overlap the range, see estimateAllDayDuration
+    const allDayCondition = and(
+      eq(events.isAllDay, true),
+      lt(events.start, timeRange.end),
+      gt(events.end, timeRange.start),
+      lte(events.start, now)
+    );
+
+    const conditions = [
+      options.includeAllDayEvents ? or(timedCondition, allDayCondition) : timedCondition,
     ];
 
     if (categoryId) {
@@ -183,7 +492,7 @@ export class CategoryReportService {
 
     const results = await query.where(and(...conditions));
 
-    return results.map((row) => ({
+    const eventsWithDetails: EventWithCategory[] = results.map((row) => ({
       id: row.id,
       calendarId: row.calendarId,
       title: row.title,
@@ -195,6 +504,13 @@ export class CategoryReportService {
       effectiveDuration: row.effectiveDuration,
       categoryId: row.categoryId,
       isManuallyCategorized: row.isManuallyCategorized,
+      categoryRuleMatch: row.categoryRuleMatch,
+      isBackground: row.isBackground,
+      etag: row.etag,
+      remoteUpdatedAt: row.remoteUpdatedAt,
+      recurringEventId: row.recurringEventId,
+      originalStartTime: row.originalStartTime,
+      isException: row.isException,
       updatedAt: row.updatedAt,
       createdAt: row.createdAt,
       category: row.categoryId
@@ -212,6 +528,220 @@ export class CategoryReportService {
           }
         : null,
     }));
+
+    const withAllDayEvents = options.includeAllDayEvents
+      ? this.withAllDayEstimates(eventsWithDetails, timeRange, options)
+      : eventsWithDetails;
+
+    if (!options.fillUnaccountedTime || categoryId) {
+      return withAllDayEvents;
+    }
+    return [...withAllDayEvents, ...(await this.getUnaccountedGaps(timeRange, options))];
+  }
+
+  /**
+   * Replace the durations of all-day events with their estimate, dropping those that count for nothing
+   */
+  private withAllDayEstimates(
+    eventsWithDetails: EventWithCategory[],
+    timeRange: TimeRange,
+    options: ReportOptions
+  ): EventWithCategory[] {
+    const hoursPerWeekday = options.allDayHoursPerWeekday ?? 8;
+    const workingHours = options.workingHours ?? DEFAULT_SETTINGS.workingHours;
+    const timeZone = options.timeZone ?? getDeviceTimeZone();
+    return (
+      eventsWithDetails
+        .map((event) =>
+          event.isAllDay
+            ? {
+                ...event,
+                effectiveDuration: this.estimateAllDayDuration(
+                  event,
+                  timeRange,
+                  hoursPerWeekday,
+                  workingHours,
+                  timeZone
+                ),
+                isEstimated: true,
+              }
+            : event
+        )
+        // e.g. an all-day event on a day off
+        .filter((event) => !event.isEstimated || event.effectiveDuration > 0)
+    );
+  }
+
+  /**
+   * Stretches of the working hours inside the time range, up to now, that no timed event
+   * covers. Background events count as covering, their time is reported already. A working
+   * day with an all-day event has nothing unaccounted when all-day events are counted.
+   */
+  private async getUnaccountedGaps(
+    timeRange: TimeRange,
+    options: ReportOptions
+  ): Promise<EventWithCategory[]> {
+    const workingHours = options.workingHours ?? DEFAULT_SETTINGS.workingHours;
+    const timeZone = options.timeZone ?? getDeviceTimeZone();
+    const rangeStart = timeRange.start.getTime();
+    const rangeEnd = Math.min(timeRange.end.getTime(), Date.now());
+    if (rangeEnd <= rangeStart) return [];
+
+    const coveredDays = options.includeAllDayEvents
+      ? await this.getAllDayEventDays(timeRange, workingHours, timeZone)
+      : new Set<string>();
+
+    // Working hours of each day, clipped to the range
+    const windows: { start: number; end: number }[] = [];
+    let dateKey = toDateKey(timeRange.start, timeZone);
+    for (;;) {
+      const { startOfDay, endOfDay } = getDayBounds(dateKey, timeZone);
+      if (startOfDay.getTime() >= rangeEnd) break;
+
+      const hours = workingHours[getDayOfWeek(startOfDay, timeZone)];
+      if (hours && !coveredDays.has(dateKey)) {
+        const from = atMinutesIntoDay(dateKey, parseTimeOfDay(hours.from), timeZone).getTime();
+        const to = atMinutesIntoDay(dateKey, parseTimeOfDay(hours.to), timeZone).getTime();
+        const start = Math.max(from, rangeStart);
+        const end = Math.min(to, rangeEnd);
+        if (end > start) windows.push({ start, end });
+      }
+      dateKey = toDateKey(new Date(endOfDay.getTime() + 1), timeZone);
+    }
+    if (windows.length === 0) return [];
+
+    const covering = await this.db
+      .select({ start: events.start, end: events.end })
+      .from(events)
+      .where(
+        and(
+          eq(events.isAllDay, false),
+          lt(events.start, new Date(windows[windows.length - 1].end)),
+          gt(events.end, new Date(windows[0].start))
+        )
+      )
+      .orderBy(asc(events.start));
+
+    const gaps: EventWithCategory[] = [];
+    let next = 0;
+    // Latest end of the events passed so far, events only cover from their start on
+    let coveredUntil = -Infinity;
+    for (const window of windows) {
+      let cursor = Math.max(window.start, coveredUntil);
+      while (next < covering.length && covering[next].start!.getTime() < window.end) {
+        const { start, end } = covering[next++];
+        if (start!.getTime() > cursor) {
+          gaps.push(this.createUnaccountedGap(cursor, start!.getTime()));
+        }
+        coveredUntil = Math.max(coveredUntil, end!.getTime());
+        cursor = Math.max(cursor, Math.min(coveredUntil, window.end));
+      }
+      if (cursor < window.end) {
+        gaps.push(this.createUnaccountedGap(cursor, window.end));
+      }
+    }
+
+    // e.g. the seconds between two events
+    return gaps.filter((gap) => gap.effectiveDuration > 0);
+  }
+
+  /**
+   * `YYYY-MM-DD` of the working days in the time range an all-day event is counted for,
+   * the same days estimateAllDayDuration counts
+   */
+  private async getAllDayEventDays(
+    timeRange: TimeRange,
+    workingHours: (WorkingDay | null)[],
+    timeZone: string
+  ): Promise<Set<string>> {
+    const allDayEvents = await this.db
+      .select({ start: events.start, end: events.end })
+      .from(events)
+      .where(
+        and(
+          eq(events.isAllDay, true),
+          lt(events.start, timeRange.end),
+          gt(events.end, timeRange.start)
+        )
+      );
+
+    const days = new Set<string>();
+    for (const event of allDayEvents) {
+      if (!event.start || !event.end) continue;
+
+      const count = Math.round((event.end.getTime() - event.start.getTime()) / DAY_MS);
+      for (let i = 0; i < count; i++) {
+        const noon = new Date(event.start.getTime() + (i + 0.5) * DAY_MS);
+        if (workingHours[getDayOfWeek(noon, timeZone)]) {
+          days.add(toDateKey(noon, timeZone));
+        }
+      }
+    }
+    return days;
+  }
+
+  private createUnaccountedGap(start: number, end: number): EventWithCategory {
+    const startDate = new Date(start);
+    return {
+      id: `${UNACCOUNTED_CATEGORY.id}:${start}`,
+      calendarId: '',
+      title: UNACCOUNTED_CATEGORY.name,
+      description: null,
+      eventType: null,
+      isAllDay: false,
+      start: startDate,
+      end: new Date(end),
+      effectiveDuration: Math.round((end - start) / 60000),
+      categoryId: UNACCOUNTED_CATEGORY.id,
+      isManuallyCategorized: false,
+      categoryRuleMatch: null,
+      isBackground: false,
+      etag: null,
+      remoteUpdatedAt: null,
+      recurringEventId: null,
+      originalStartTime: null,
+      isException: false,
+      updatedAt: startDate,
+      createdAt: startDate,
+      category: {
+        id: UNACCOUNTED_CATEGORY.id,
+        name: UNACCOUNTED_CATEGORY.name,
+        color: UNACCOUNTED_CATEGORY.color,
+        parentCategoryId: null,
+      },
+      calendar: null,
+      isUnaccounted: true,
+    };
+  }
+
+  /**
+   * Minutes an all-day event counts for: the configured hours for each working day it covers
+   * inside the time range, up to now
+   */
+  private estimateAllDayDuration(
+    event: EventWithCategory,
+    timeRange: TimeRange,
+    hoursPerWeekday: number,
+    workingHours: (WorkingDay | null)[],
+    timeZone: string
+  ): number {
+    if (!event.start || !event.end) return 0;
+
+    const now = Date.now();
+    const days = Math.round((event.end.getTime() - event.start.getTime()) / DAY_MS);
+    let workingDays = 0;
+
+    for (let i = 0; i < days; i++) {
+      // Noon of each day, so a calendar a few hours off the report zone still hits the right day
+      const noon = new Date(event.start.getTime() + (i + 0.5) * DAY_MS);
+      if (noon < timeRange.start || noon > timeRange.end || noon.getTime() > now) continue;
+
+      if (workingHours[getDayOfWeek(noon, timeZone)]) {
+        workingDays++;
+      }
+    }
+
+    return Math.round(workingDays * hoursPerWeekday * 60);
   }
 
   /**
@@ -245,6 +775,7 @@ export class CategoryReportService {
         (event.categoryId === null && category.id === UNCATEGORIZED_CATEGORY.id)
     );
     const directDuration = this.sumDuration(directEvents);
+    const directEstimatedDuration = this.sumEstimatedDuration(directEvents);
 
     // Build child reports recursively
     const childReports = await this.buildCategoryReports(category.children, allEvents);
@@ -252,6 +783,10 @@ export class CategoryReportService {
     // Calculate totals including children
     const childrenTotalDuration = childReports.reduce((sum, child) => sum + child.totalDuration, 0);
     const childrenTotalEvents = childReports.reduce((sum, child) => sum + child.totalEventCount, 0);
+    const childrenEstimatedDuration = childReports.reduce(
+      (sum, child) => sum + child.estimatedDuration,
+      0
+    );
 
     const categoryPath = (await this.categoryService.getCategoryPath(category.id)).map(
       (c) => c.name
@@ -266,6 +801,7 @@ export class CategoryReportService {
         totalDuration: directDuration,
         eventCount: directEvents.length,
         totalEventCount: directEvents.length,
+        estimatedDuration: directEstimatedDuration,
         children: [],
         categoryPath,
       });
@@ -277,6 +813,7 @@ export class CategoryReportService {
       totalDuration: directDuration + childrenTotalDuration,
       eventCount: directEvents.length,
       totalEventCount: directEvents.length + childrenTotalEvents,
+      estimatedDuration: directEstimatedDuration + childrenEstimatedDuration,
       children: childReports,
       categoryPath,
     };
@@ -306,11 +843,12 @@ export class CategoryReportService {
   private calculateSummary(
     allEvents: EventWithCategory[],
     categoryReports: CategoryReport[]
-  ): ReportSummary {
-    const totalDuration = this.sumDuration(allEvents);
-    const totalEvents = allEvents.length;
+  ): Omit<ReportSummary, 'overlapStrategy'> {
+    const trackedEvents = allEvents.filter((event) => !event.isUnaccounted);
+    const totalDuration = this.sumDuration(trackedEvents);
+    const totalEvents = trackedEvents.length;
 
-    const categorizedEvents = allEvents.filter((event) => event.categoryId);
+    const categorizedEvents = trackedEvents.filter((event) => event.categoryId);
     const categorizedDuration = this.sumDuration(categorizedEvents);
 
     const uncategorizedEvents = allEvents.filter((event) => !event.categoryId);
@@ -323,6 +861,8 @@ export class CategoryReportService {
       categorizedEvents: categorizedEvents.length,
       uncategorizedDuration,
       uncategorizedEvents: uncategorizedEvents.length,
+      unaccountedDuration: this.sumDuration(allEvents.filter((event) => event.isUnaccounted)),
+      estimatedDuration: this.sumEstimatedDuration(allEvents),
       categoryBreakdown: categoryReports,
     };
   }
@@ -334,6 +874,66 @@ export class CategoryReportService {
     return events.reduce((sum, event) => sum + (event.effectiveDuration || 0), 0);
   }
 
+  /**
+   * Sum the estimated durations of all-day events (in minutes)
+   */
+  private sumEstimatedDuration(events: EventWithCategory[]): number {
+    return this.sumDuration(events.filter((event) => event.isEstimated));
+  }
+
+  /**
+   * Change of each category between two lists of sibling reports, keyed by category id
+   */
+  static diffCategoryReports(
+    current: CategoryReport[],
+    previous: CategoryReport[]
+  ): Record<string, CategoryDelta> {
+    const toDurations = (reports: CategoryReport[]) =>
+      new Map(reports.map((report) => [report.category.id, report.totalDuration]));
+    const currentDurations = toDurations(current);
+    const previousDurations = toDurations(previous);
+
+    const deltas: Record<string, CategoryDelta> = {};
+    for (const id of new Set([...currentDurations.keys(), ...previousDurations.keys()])) {
+      const previousDuration = previousDurations.get(id) ?? 0;
+      const change = (currentDurations.get(id) ?? 0) - previousDuration;
+      deltas[id] = {
+        previousDuration,
+        change,
+        percentChange: previousDuration > 0 ? (change / previousDuration) * 100 : null,
+      };
+    }
+
+    return deltas;
+  }
+
+  /**
+   * The range right before the given one: the previous day, week, month or year,
+   * or a custom period of the same length.
+   * With `until` inside the given range, the previous range ends as far into it, so a period
+   * still running, which only counts events up to now, is compared with as much of the last one.
+   */
+  static getPreviousTimeRange(
+    timeRange: TimeRange,
+    type: PeriodType | 'period',
+    timeZone: string = getDeviceTimeZone(),
+    until?: Date
+  ): TimeRange {
+    const justBefore = new Date(timeRange.start.getTime() - 1);
+    const length = timeRange.end.getTime() - timeRange.start.getTime();
+    const previous =
+      type !== 'period'
+        ? getPeriodRange(type, justBefore, timeZone)
+        : { start: new Date(justBefore.getTime() - length), end: justBefore };
+
+    if (until && until > timeRange.start && until < timeRange.end) {
+      const elapsed = until.getTime() - timeRange.start.getTime();
+      const end = new Date(previous.start.getTime() + elapsed);
+      return { start: previous.start, end: end < previous.end ? end : previous.end };
+    }
+    return previous;
+  }
+
   /**
    * Format duration for display (converts minutes to hours/minutes)
    */
@@ -351,41 +951,23 @@ export class CategoryReportService {
   }
 
   /**
-   * Create common time ranges
+   * Create common time ranges, with day boundaries in the given zone
    */
-  static getTimeRanges() {
+  static getTimeRanges(timeZone: string = getDeviceTimeZone()) {
     const now = new Date();
+    const thisMonth = getPeriodRange('monthly', now, timeZone);
 
     return {
-      today: {
-        start: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
-        end: new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59),
-      },
-      thisWeek: {
-        start: new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay()),
-        end: new Date(
-          now.getFullYear(),
-          now.getMonth(),
-          now.getDate() - now.getDay() + 6,
-          23,
-          59,
-          59
-        ),
-      },
-      thisMonth: {
-        start: new Date(now.getFullYear(), now.getMonth(), 1),
-        end: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59),
-      },
-      lastMonth: {
-        start: new Date(now.getFullYear(), now.getMonth() - 1, 1),
-        end: new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59),
-      },
+      today: getPeriodRange('daily', now, timeZone),
+      thisWeek: getPeriodRange('weekly', now, timeZone),
+      thisMonth,
+      lastMonth: getPeriodRange('monthly', new Date(thisMonth.start.getTime() - 1), timeZone),
       last7Days: {
-        start: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
+        start: addToDate(now, { days: -7 }, timeZone),
         end: now,
       },
       last30Days: {
-        start: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000),
+        start: addToDate(now, { days: -30 }, timeZone),
         end: now,
       },
     };
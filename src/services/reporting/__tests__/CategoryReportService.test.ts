@@ -0,0 +1,83 @@
+import type { Category } from '@/db/schema';
+import { getPeriodRange } from '../../calendar/timezone';
+import { CategoryReportService, type CategoryReport } from '../CategoryReportService';
+
+const TIME_ZONE = 'Europe/Berlin';
+
+function report(category: Pick<Category, 'id' | 'name'>, totalDuration: number): CategoryReport {
+  return {
+    category: { ...category, color: '#000000' } as Category,
+    directDuration: totalDuration,
+    totalDuration,
+    eventCount: 1,
+    totalEventCount: 1,
+    estimatedDuration: 0,
+    children: [],
+    categoryPath: [category.name],
+  };
+}
+
+describe('getPreviousTimeRange', () => {
+  // Monday 11 to Sunday 17 March in Berlin
+  const week = getPeriodRange('weekly', new Date('2024-03-13T12:00:00+01:00'), TIME_ZONE);
+
+  it('returns the whole previous period without `until`', () => {
+    expect(CategoryReportService.getPreviousTimeRange(week, 'weekly', TIME_ZONE)).toEqual({
+      start: new Date('2024-03-04T00:00:00+01:00'),
+      end: new Date('2024-03-10T23:59:59.999+01:00'),
+    });
+  });
+
+  it('ends the previous period as far into it as the running one has got', () => {
+    // Wednesday noon
+    const now = new Date('2024-03-13T12:00:00+01:00');
+    expect(CategoryReportService.getPreviousTimeRange(week, 'weekly', TIME_ZONE, now)).toEqual({
+      start: new Date('2024-03-04T00:00:00+01:00'),
+      end: new Date('2024-03-06T12:00:00+01:00'),
+    });
+  });
+
+  it('keeps the previous period whole once the current one is over', () => {
+    const later = new Date('2024-03-20T12:00:00+01:00');
+    expect(CategoryReportService.getPreviousTimeRange(week, 'weekly', TIME_ZONE, later)).toEqual(
+      CategoryReportService.getPreviousTimeRange(week, 'weekly', TIME_ZONE)
+    );
+  });
+
+  it('does not run past the end of a shorter previous month', () => {
+    const now = new Date('2024-03-31T12:00:00+02:00');
+    const march = getPeriodRange('monthly', now, TIME_ZONE);
+    expect(
+      CategoryReportService.getPreviousTimeRange(march, 'monthly', TIME_ZONE, now).end
+    ).toEqual(new Date('2024-02-29T23:59:59.999+01:00'));
+  });
+});
+
+describe('diffCategoryReports', () => {
+  const work = { id: 'work', name: 'Work' };
+  const sport = { id: 'sport', name: 'Sport' };
+  const reading = { id: 'reading', name: 'Reading' };
+
+  it('compares each category with the previous period', () => {
+    const deltas = CategoryReportService.diffCategoryReports(
+      [report(work, 600), report(reading, 30)],
+      [report(work, 480), report(sport, 120)]
+    );
+
+    expect(deltas).toEqual({
+      work: { previousDuration: 480, change: 120, percentChange: 25 },
+      // Only in the previous period
+      sport: { previousDuration: 120, change: -120, percentChange: -100 },
+      // Nothing to compare with
+      reading: { previousDuration: 0, change: 30, percentChange: null },
+    });
+  });
+
+  it('shows no change for equal time in equally long cut periods', () => {
+    const deltas = CategoryReportService.diffCategoryReports(
+      [report(work, 300)],
+      [report(work, 300)]
+    );
+    expect(deltas.work).toEqual({ previousDuration: 300, change: 0, percentChange: 0 });
+  });
+});
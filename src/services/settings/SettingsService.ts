@@ -0,0 +1,47 @@
+import type { DrizzleDB } from '@/db/SQLiteProvider';
+import { settings } from '@/db/schema';
+import { DEFAULT_SETTINGS, SettingsSchema, type SettingKey, type Settings } from '@/types/settings';
+import { eq } from 'drizzle-orm';
+
+export class SettingsService {
+  constructor(private db: DrizzleDB) {}
+
+  /**
+   * All settings, with defaults for missing keys and for stored values that no longer validate
+   */
+  async getSettings(): Promise<Settings> {
+    const rows = await this.db.select().from(settings);
+    const result: Settings = { ...DEFAULT_SETTINGS };
+
+    for (const row of rows) {
+      if (!(row.key in SettingsSchema.shape)) continue;
+
+      const key = row.key as SettingKey;
+      const parsed = SettingsSchema.shape[key].safeParse(row.value);
+      if (parsed.success) {
+        (result as Record<SettingKey, unknown>)[key] = parsed.data;
+      } else {
+        console.warn(`Ignoring invalid value for setting ${key}`, parsed.error);
+      }
+    }
+
+    return result;
+  }
+
+  async getSetting<K extends SettingKey>(key: K): Promise<Settings[K]> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.key, key)).limit(1);
+    if (!row) return DEFAULT_SETTINGS[key];
+
+    const parsed = SettingsSchema.shape[key].safeParse(row.value);
+    return parsed.success ? (parsed.data as Settings[K]) : DEFAULT_SETTINGS[key];
+  }
+
+  async updateSetting<K extends SettingKey>(key: K, value: Settings[K]): Promise<void> {
+    const parsed = SettingsSchema.shape[key].parse(value);
+
+    await this.db
+      .insert(settings)
+      .values({ key, value: parsed })
+      .onConflictDoUpdate({ target: settings.key, set: { value: parsed } });
+  }
+}
@@ -1,8 +1,188 @@
 import { z } from 'zod';
 
-export const CategoryRuleSchema = z.object({
-  type: z.enum(['STARTS_WITH', 'ENDS_WITH', 'REGEX', 'CONTAINS', 'EQUALS']),
+// Bumped when the stored rule shape changes, older rules are upgraded when parsed
+export const CATEGORY_RULE_VERSION = 2;
+
+export const TEXT_RULE_TYPES = ['STARTS_WITH', 'ENDS_WITH', 'REGEX', 'CONTAINS', 'EQUALS'] as const;
+
+// Event properties a text rule can look at
+export const RULE_FIELDS = ['title', 'description', 'calendarId', 'eventType'] as const;
+
+// `HH:MM`, 24-hour clock
+export const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const TextRuleSchema = z.object({
+  version: z.literal(CATEGORY_RULE_VERSION),
+  type: z.enum(TEXT_RULE_TYPES),
+  field: z.enum(RULE_FIELDS),
   content: z.string(),
+  // Left out on older rules: REGEX ignores case, the other types don't
+  caseSensitive: z.boolean().optional(),
+  // Trim both sides and collapse inner runs of whitespace
+  trimWhitespace: z.boolean().optional(),
+  // Compare without accents and compatibility forms, e.g. "Café" equals "Cafe"
+  normalizeUnicode: z.boolean().optional(),
+  // Content must not start or end inside a word
+  wholeWord: z.boolean().optional(),
 });
 
+// Event length in minutes, either bound may be left open
+const DurationRuleSchema = z
+  .object({
+    version: z.literal(CATEGORY_RULE_VERSION),
+    type: z.literal('DURATION'),
+    minMinutes: z.number().int().min(0).optional(),
+    maxMinutes: z.number().int().min(0).optional(),
+  })
+  .refine((rule) => rule.minMinutes !== undefined || rule.maxMinutes !== undefined, {
+    message: 'A duration rule needs a minimum or a maximum',
+  })
+  .refine(
+    (rule) =>
+      rule.minMinutes === undefined ||
+      rule.maxMinutes === undefined ||
+      rule.minMinutes <= rule.maxMinutes,
+    { message: 'The minimum of a duration rule cannot exceed its maximum' }
+  );
+
+// Start time in the calendar's zone, `from` later than `to` wraps past midnight
+const TimeOfDayRuleSchema = z.object({
+  version: z.literal(CATEGORY_RULE_VERSION),
+  type: z.literal('TIME_OF_DAY'),
+  from: TimeOfDaySchema,
+  to: TimeOfDaySchema,
+});
+
+// Version 1 rules only matched the title
+const LegacyCategoryRuleSchema = z.object({
+  type: z.enum(TEXT_RULE_TYPES),
+  content: z.string(),
+});
+
+export type LegacyCategoryRule = z.infer<typeof LegacyCategoryRuleSchema>;
+
+const upgradeRule = (value: unknown) => {
+  if (typeof value !== 'object' || value === null || 'version' in value) return value;
+
+  const legacy = LegacyCategoryRuleSchema.safeParse(value);
+  return legacy.success
+    ? { ...legacy.data, version: CATEGORY_RULE_VERSION, field: 'title' }
+    : value;
+};
+
+export const CategoryRuleSchema = z.preprocess(
+  upgradeRule,
+  z.union([TextRuleSchema, DurationRuleSchema, TimeOfDayRuleSchema])
+);
+
 export type CategoryRule = z.infer<typeof CategoryRuleSchema>;
+export type TextCategoryRule = z.infer<typeof TextRuleSchema>;
+export type RuleField = TextCategoryRule['field'];
+export type CategoryRuleType = CategoryRule['type'];
+
+export const RULE_GROUP_OPERATORS = ['AND', 'OR', 'NOT'] as const;
+
+/**
+ * Boolean combination of rules. AND needs every child to match, OR any of them,
+ * NOT none of them.
+ */
+export interface RuleGroup {
+  operator: (typeof RULE_GROUP_OPERATORS)[number];
+  children: RuleNode[];
+}
+
+export type RuleNode = CategoryRule | RuleGroup;
+
+export const RuleGroupSchema: z.ZodType<RuleGroup> = z.object({
+  operator: z.enum(RULE_GROUP_OPERATORS),
+  children: z.lazy(() => z.array(RuleNodeSchema).min(1, 'A group needs at least one rule')),
+});
+
+export const RuleNodeSchema: z.ZodType<RuleNode> = z.union([CategoryRuleSchema, RuleGroupSchema]);
+
+/**
+ * Stored on an event when rules assign its category, so the decision can be explained later
+ */
+export interface CategoryRuleMatch {
+  // Positions of the category's top-level rules or groups that matched
+  ruleIndexes: number[];
+  // Copies of those rules, the category may have been edited since
+  rules: RuleNode[];
+  categorizedAt: string;
+}
+
+export const isRuleGroup = (node: RuleNode): node is RuleGroup => 'operator' in node;
+
+/**
+ * Parse stored rules of any version, dropping top-level rules or groups that can't be read.
+ * A category applies when any of them matches.
+ */
+export function normalizeCategoryRules(rules: unknown): RuleNode[] {
+  if (!Array.isArray(rules)) return [];
+
+  return rules.flatMap((rule) => {
+    const result = RuleNodeSchema.safeParse(rule);
+    if (!result.success) {
+      console.warn('Ignoring invalid category rule:', rule, result.error.issues);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+/**
+ * `HH:MM` of minutes since midnight
+ */
+export function formatTimeOfDay(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since midnight of an `HH:MM` time
+ */
+export function parseTimeOfDay(value: string): number {
+  const [hours, minutes] = value.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+export const RULE_FIELD_LABELS: Record<RuleField, string> = {
+  title: 'Title',
+  description: 'Description',
+  calendarId: 'Calendar',
+  eventType: 'Event type',
+};
+
+const textRuleVerbs: Record<TextCategoryRule['type'], string> = {
+  CONTAINS: 'contains',
+  STARTS_WITH: 'starts with',
+  ENDS_WITH: 'ends with',
+  EQUALS: 'equals',
+  REGEX: 'matches',
+};
+
+/**
+ * One-line summary of a rule or group, e.g. `Title contains "sync" AND NOT (...)`
+ */
+export function describeRuleNode(node: RuleNode): string {
+  if (isRuleGroup(node)) {
+    const children = node.children.map(describeRuleNode);
+    if (node.operator === 'NOT') return `NOT (${children.join(' OR ')})`;
+    return children.length === 1 ? children[0] : `(${children.join(` ${node.operator} `)})`;
+  }
+
+  switch (node.type) {
+    case 'DURATION':
+      if (node.minMinutes !== undefined && node.maxMinutes !== undefined) {
+        return `Duration ${node.minMinutes}–${node.maxMinutes} min`;
+      }
+      return node.minMinutes !== undefined
+        ? `Duration ≥ ${node.minMinutes} min`
+        : `Duration ≤ ${node.maxMinutes} min`;
+    case 'TIME_OF_DAY':
+      return `Starts ${node.from}–${node.to}`;
+    default: {
+      const content = node.type === 'REGEX' ? `/${node.content}/` : `"${node.content}"`;
+      return `${RULE_FIELD_LABELS[node.field]} ${textRuleVerbs[node.type]} ${content}`;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { parseTimeOfDay, TimeOfDaySchema } from './category_rule';
+
+// How time shared by overlapping events is attributed to them
+export const OVERLAP_STRATEGIES = ['even', 'priority', 'shortest', 'full'] as const;
+export type OverlapStrategy = (typeof OVERLAP_STRATEGIES)[number];
+
+export const OVERLAP_STRATEGY_LABELS: Record<OverlapStrategy, string> = {
+  even: 'Even split',
+  priority: 'Highest-priority category',
+  shortest: 'Shortest event',
+  full: 'Double count',
+};
+
+export const OVERLAP_STRATEGY_DESCRIPTIONS: Record<OverlapStrategy, string> = {
+  even: 'Overlapping events share the time equally',
+  priority: 'The event whose category has the highest priority gets all of it',
+  shortest: 'The shortest, most specific event gets all of it',
+  full: 'Every event counts its full time, like the raw calendar',
+};
+
+// Working hours of one weekday in the reporting zone, `from` before `to`
+const WorkingDaySchema = z
+  .object({ from: TimeOfDaySchema, to: TimeOfDaySchema })
+  .refine((day) => parseTimeOfDay(day.from) < parseTimeOfDay(day.to), 'Expected from before to');
+
+export type WorkingDay = z.infer<typeof WorkingDaySchema>;
+
+// Indexed by day of the week, 0 is Sunday, null for a day off
+export const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+const OFFICE_HOURS: WorkingDay = { from: '09:00', to: '17:00' };
+
+export const SettingsSchema = z.object({
+  // IANA zone that days, weeks and months follow in reports and the calendar view.
+  // null follows the time zone shared by most calendars.
+  reportingTimeZone: z.string().nullable().default(null),
+  // Count all-day events (vacations, conferences) in reports as a fixed time per working day
+  includeAllDayEvents: z.boolean().default(false),
+  allDayHoursPerWeekday: z.number().min(0).max(24).default(8),
+  // Background events yield to the others whichever strategy is used
+  overlapStrategy: z.enum(OVERLAP_STRATEGIES).default('even'),
+  // Count working hours no event covers as the virtual Unaccounted category
+  fillUnaccountedTime: z.boolean().default(false),
+  workingHours: z
+    .array(WorkingDaySchema.nullable())
+    .length(7)
+    .default([null, OFFICE_HOURS, OFFICE_HOURS, OFFICE_HOURS, OFFICE_HOURS, OFFICE_HOURS, null]),
+});
+
+export type Settings = z.infer<typeof SettingsSchema>;
+export type SettingKey = keyof Settings;
+
+export const DEFAULT_SETTINGS: Settings = SettingsSchema.parse({});